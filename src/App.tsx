@@ -1,26 +1,36 @@
 // ============================================================================
 // FILE: src/App.tsx - COMPLETE FIXED VERSION WITH GENERATION FIX
 // ============================================================================
-import React, { useState, useEffect, useMemo } from 'react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
 import { Analytics } from '@vercel/analytics/react';
 import { InstallPrompt } from './components/InstallPrompt';
 import { SettingsModal } from './components/SettingsModal';
+import { VaultUnlockModal } from './components/VaultUnlockModal';
+import { GenerationQueueView } from './components/GenerationQueueView';
+import { FlashcardReview } from './components/FlashcardReview';
+import { ResumePrompt } from './components/ResumePrompt';
 import { useGenerationStats } from './components/GenerationProgressPanel';
 import { APISettings, ModelProvider } from './types';
 import { usePWA } from './hooks/usePWA';
 import { WifiOff } from 'lucide-react';
 import { storageUtils } from './utils/storage';
-import { bookService } from './services/bookService';
+import { keyVault, VaultSecrets } from './utils/keyVault';
+import { ModuleProgress } from './services/bookService';
+import { generationEngine } from './services/generationEngine';
+import { createQueueJob, getJobSession, getNextQueueStep, isPendingJob, moveQueueJob, pickNextJob } from './services/generationQueue';
+import { providerRegistry, AlternativeModel } from './services/providers';
 import { BookView } from './components/BookView';
-import { BookProject, BookSession } from './types/book';
-import { generateId } from './utils/helpers';
+import { BookProgressUpdate, BookProject, BookRoadmap, BookSession, ChapterRewrite, QueueJob, QueueJobKind, QueueStep } from './types/book';
+import { generateId, buildSessionFromBook } from './utils/helpers';
 import { TopHeader } from './components/TopHeader';
 
-type AppView = 'list' | 'create' | 'detail';
+type AppView = 'list' | 'create' | 'detail' | 'queue' | 'review';
 type Theme = 'light' | 'dark';
 
 interface GenerationStatus {
-  currentModule?: { id: string; title: string; attempt: number; progress: number; generatedText?: string; };
+  bookId?: string; // The book these numbers belong to
+  currentModule?: ModuleProgress;
+  activeModules?: ModuleProgress[];
   totalProgress: number;
   status: 'idle' | 'generating' | 'completed' | 'error' | 'paused' | 'waiting_retry';
   logMessage?: string;
@@ -33,16 +43,29 @@ function App() {
   const [settings, setSettings] = useState<APISettings>(() => storageUtils.getSettings());
   const [currentBookId, setCurrentBookId] = useState<string | null>(null);
   const [view, setView] = useState<AppView>('list');
+  const [reviewBookId, setReviewBookId] = useState<string | undefined>();
   const [showListInMain, setShowListInMain] = useState(false);
   const [settingsOpen, setSettingsOpen] = useState(false);
+  const [showVaultUnlock, setShowVaultUnlock] = useState(() => keyVault.isEnabled());
   const [isOnline, setIsOnline] = useState(navigator.onLine);
   const [showOfflineMessage, setShowOfflineMessage] = useState(false);
   const [isMobile, setIsMobile] = useState(window.innerWidth < 768);
   const [generationStatus, setGenerationStatus] = useState<GenerationStatus>({ status: 'idle', totalProgress: 0, totalWordsGenerated: 0 });
   const [generationStartTime, setGenerationStartTime] = useState<Date>(new Date());
   const [showModelSwitch, setShowModelSwitch] = useState(false);
-  const [modelSwitchOptions, setModelSwitchOptions] = useState<Array<{provider: ModelProvider; model: string; name: string}>>([]);
+  const [modelSwitchOptions, setModelSwitchOptions] = useState<AlternativeModel[]>([]);
   const [theme, setTheme] = useState<Theme>(() => (localStorage.getItem('pustakam-theme') as Theme) || 'dark');
+  const [queue, setQueue] = useState<QueueJob[]>(() => storageUtils.getQueue());
+  const [queuePaused, setQueuePaused] = useState(false);
+  const queueStepRef = useRef<string | null>(null); // Job whose current step is in flight
+  // Nothing is running right after a load, so a book still marked as writing was cut off; queued books resume on their own
+  const [interruptedBookIds, setInterruptedBookIds] = useState<string[]>(() => {
+    const queuedBookIds = new Set(queue.filter(isPendingJob).map(job => job.bookId));
+    // A book paused on purpose is left for the user to resume; only ones cut off by a reload are offered
+    return books
+      .filter(book => book.status === 'generating_content' && !queuedBookIds.has(book.id) && !generationEngine.isPaused(book.id))
+      .map(book => book.id);
+  });
 
   const { isInstallable, isInstalled, installApp, dismissInstallPrompt } = usePWA();
   
@@ -50,8 +73,18 @@ function App() {
   
   const isGenerating = useMemo(() => {
     if (!currentBook) return false;
-    return currentBook.status === 'generating_content' || generationStatus.status === 'generating';
-  }, [currentBook?.status, generationStatus.status]);
+    return currentBook.status === 'generating_content' ||
+      (generationStatus.bookId === currentBook.id && generationStatus.status === 'generating');
+  }, [currentBook?.id, currentBook?.status, generationStatus.bookId, generationStatus.status]);
+
+  // The queue may be writing a different book than the one on screen
+  const currentGenerationStatus: GenerationStatus = generationStatus.bookId && generationStatus.bookId !== currentBookId
+    ? { status: 'idle', totalProgress: 0 }
+    : generationStatus;
+
+  const activeQueueJob = queue.find(job => job.status === 'running');
+
+  const interruptedBooks = books.filter(book => interruptedBookIds.includes(book.id) && book.status === 'generating_content');
 
   const totalWordsGenerated = currentBook?.modules.reduce((sum, m) => sum + (m.status === 'completed' ? m.wordCount : 0), 0) || 0;
 
@@ -76,22 +109,42 @@ function App() {
 
   useEffect(() => {
     books.forEach(book => {
-      if (book.status === 'completed') {
-        try { localStorage.removeItem(`pause_flag_${book.id}`); } 
-        catch (e) { console.warn('Failed to clear pause flag:', e); }
-      }
+      if (book.status === 'completed') generationEngine.clearBookState(book.id);
     });
   }, []);
 
   useEffect(() => {
-    bookService.updateSettings(settings);
-    bookService.setProgressCallback(handleBookProgressUpdate);
-    bookService.setGenerationStatusCallback((bookId, status) => {
-      setGenerationStatus(prev => ({ ...prev, ...status, totalWordsGenerated: status.totalWordsGenerated || prev.totalWordsGenerated }));
+    generationEngine.updateSettings(settings);
+    generationEngine.setProgressCallback(handleBookProgressUpdate);
+    generationEngine.setGenerationStatusCallback((bookId, status) => {
+      setGenerationStatus(prev => prev.bookId === bookId
+        ? { ...prev, ...status, totalWordsGenerated: status.totalWordsGenerated || prev.totalWordsGenerated }
+        : { ...status, bookId });
     });
   }, [settings]);
 
   useEffect(() => { storageUtils.saveBooks(books); }, [books]);
+
+  useEffect(() => { storageUtils.saveQueue(queue); }, [queue]);
+
+  // Drives the queue one step at a time; each finished step re-renders with the book's latest state
+  useEffect(() => {
+    if (queueStepRef.current) return;
+
+    const running = queue.find(job => job.status === 'running');
+    if (!running) {
+      const isBusy = generationStatus.status === 'generating' || generationStatus.status === 'waiting_retry';
+      const next = queuePaused || isBusy ? undefined : pickNextJob(queue);
+      if (next) queueActionsRef.current.startQueueJob(next);
+      return;
+    }
+
+    const decision = getNextQueueStep(running, books.find(b => b.id === running.bookId));
+    if (decision.type === 'run') queueActionsRef.current.runQueueStep(running, decision.step);
+    else if (decision.type === 'done') updateQueueJob(running.id, { status: 'completed', finishedAt: new Date() });
+    else if (decision.type === 'paused') updateQueueJob(running.id, { status: 'paused' });
+    else updateQueueJob(running.id, { status: 'error', error: decision.error, finishedAt: new Date() });
+  }, [queue, books, queuePaused, generationStatus.status]);
   
   useEffect(() => { if (!currentBookId) setView('list'); }, [currentBookId]);
 
@@ -128,6 +181,7 @@ function App() {
       );
       
       setGenerationStatus({
+        bookId: currentBook.id,
         status: 'completed',
         totalProgress: 100,
         logMessage: '✅ All modules completed!',
@@ -140,20 +194,9 @@ function App() {
     setTheme(prevTheme => prevTheme === 'dark' ? 'light' : 'dark');
   };
 
-  const hasApiKey = !!(settings.googleApiKey || settings.mistralApiKey || settings.zhipuApiKey || settings.groqApiKey);
+  const hasApiKey = providerRegistry.hasAnyConfigured(settings);
   
-const getAlternativeModels = () => {
-  const alternatives: Array<{provider: ModelProvider; model: string; name: string}> = [];
-  if (settings.googleApiKey && settings.selectedProvider !== 'google') 
-    alternatives.push({ provider: 'google', model: 'gemini-2.5-flash', name: 'Google Gemini 2.5 Flash' });
-  if (settings.mistralApiKey && settings.selectedProvider !== 'mistral') 
-    alternatives.push({ provider: 'mistral', model: 'mistral-small-latest', name: 'Mistral Small' });
-  if (settings.zhipuApiKey && settings.selectedProvider !== 'zhipu') 
-    alternatives.push({ provider: 'zhipu', model: 'glm-4.5-flash', name: 'GLM 4.5 Flash' });
-  if (settings.groqApiKey && settings.selectedProvider !== 'groq') 
-    alternatives.push({ provider: 'groq', model: 'groq/compound', name: 'Groq Compound' });
-  return alternatives;
-};
+  const getAlternativeModels = () => providerRegistry.getAlternatives(settings);
 
   const showModelSwitchModal = (alternatives: any) => { setModelSwitchOptions(alternatives); setShowModelSwitch(true); };
   
@@ -161,6 +204,10 @@ const getAlternativeModels = () => {
     const newSettings = { ...settings, selectedProvider: provider, selectedModel: model };
     setSettings(newSettings);
     storageUtils.saveSettings(newSettings);
+    // A book with its own chapter model would otherwise resume on that model, not the one picked here
+    if (currentBook?.modelRouting?.module) {
+      handleBookProgressUpdate(currentBook.id, { modelRouting: { ...currentBook.modelRouting, module: { provider, model } } });
+    }
     setShowModelSwitch(false);
     setTimeout(() => {
       if (currentBook) {
@@ -174,10 +221,10 @@ const getAlternativeModels = () => {
   const handleRetryDecision = async (decision: 'retry' | 'switch' | 'skip') => {
     if (!currentBook) return;
     if (decision === 'retry') { 
-      bookService.setRetryDecision(currentBook.id, 'retry'); 
+      generationEngine.setRetryDecision(currentBook.id, 'retry'); 
     }
     else if (decision === 'switch') {
-      bookService.setRetryDecision(currentBook.id, 'switch');
+      generationEngine.setRetryDecision(currentBook.id, 'switch');
       const alternatives = getAlternativeModels();
       if (alternatives.length === 0) { 
         alert('No alternative models available. Please configure API keys in Settings.'); 
@@ -188,7 +235,7 @@ const getAlternativeModels = () => {
     } 
     else if (decision === 'skip') {
       if (window.confirm('⚠️ Skip this module? It will be marked as failed.')) {
-        bookService.setRetryDecision(currentBook.id, 'skip');
+        generationEngine.setRetryDecision(currentBook.id, 'skip');
       }
     }
   };
@@ -199,14 +246,19 @@ const getAlternativeModels = () => {
       setView('detail');
       const book = books.find(b => b.id === id);
       if (book?.status === 'completed') {
-        try { localStorage.removeItem(`pause_flag_${id}`); } catch (e) { console.warn(e); }
-        setGenerationStatus({ status: 'idle', totalProgress: 0, totalWordsGenerated: book.modules.reduce((s, m) => s + m.wordCount, 0) });
+        generationEngine.clearBookState(id);
+        // Leave the queue's running book in charge of the status
+        setGenerationStatus(prev => prev.status === 'generating' && prev.bookId !== id
+          ? prev
+          : { bookId: id, status: 'idle', totalProgress: 0, totalWordsGenerated: book.modules.reduce((s, m) => s + m.wordCount, 0) });
       }
     }
   };
 
-  const handleBookProgressUpdate = (bookId: string, updates: Partial<BookProject>) => {
-    setBooks(prev => prev.map(book => book.id === bookId ? { ...book, ...updates, updatedAt: new Date() } : book));
+  const handleBookProgressUpdate = (bookId: string, { addedUsage, ...updates }: BookProgressUpdate) => {
+    setBooks(prev => prev.map(book => book.id === bookId
+      ? { ...book, ...updates, ...(addedUsage && { usage: [...(book.usage || []), ...addedUsage] }), updatedAt: new Date() }
+      : book));
   };
   
   const handleUpdateBookStatus = (bookId: string, newStatus: BookProject['status']) => {
@@ -220,39 +272,43 @@ const getAlternativeModels = () => {
     );
   };
 
-  const handleCreateBookRoadmap = async (session: BookSession) => {
-    if (!session.goal.trim()) { alert('Please enter a learning goal'); return; }
-    if (!hasApiKey) { alert('Please configure an API key in Settings first'); setSettingsOpen(true); return; }
-
+  // Adds an empty book for the session; its routing is fixed here so later stages keep the same models
+  const createBook = (session: BookSession): { book: BookProject; session: BookSession } => {
     const bookId = generateId();
+    const modelRouting = session.modelRouting || settings.stageRouting;
+    const routedSession: BookSession = { ...session, modelRouting };
     
-    try {
-      localStorage.removeItem(`pause_flag_${bookId}`);
-      localStorage.removeItem(`checkpoint_${bookId}`);
-    } catch (e) {
-      console.warn('Failed to clear flags:', e);
-    }
+    generationEngine.clearBookState(bookId);
 
     const newBook: BookProject = {
       id: bookId, 
       title: session.goal.length > 100 ? session.goal.substring(0, 100) + '...' : session.goal,
       goal: session.goal, 
-      language: 'en', 
+      language: session.language, 
       status: 'planning', 
       progress: 0, 
       createdAt: new Date(), 
       updatedAt: new Date(),
       modules: [], 
       category: 'general', 
-      reasoning: session.reasoning
+      reasoning: session.reasoning,
+      modelRouting,
+      promptTemplates: session.promptTemplates,
+      templateId: session.templateId,
+      systemPrompt: session.systemPrompt,
+      estimatedModules: session.estimatedModules,
+      targetAudience: session.targetAudience,
+      preferences: session.preferences
     };
 
     setBooks(prev => [...prev, newBook]);
-    setCurrentBookId(bookId);
-    setView('detail');
+    return { book: newBook, session: routedSession };
+  };
 
+  // Marks the book as failed and rethrows, so callers decide how to report it
+  const generateBookRoadmap = async (bookId: string, session: BookSession): Promise<BookRoadmap> => {
     try {
-      const roadmap = await bookService.generateRoadmap(session, bookId);
+      const roadmap = await generationEngine.generateRoadmap(session, bookId);
       setBooks(prev => prev.map(book => 
         book.id === bookId 
           ? { 
@@ -266,6 +322,7 @@ const getAlternativeModels = () => {
             }
           : book
       ));
+      return roadmap;
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Failed to generate roadmap';
       setBooks(prev => prev.map(book => 
@@ -273,9 +330,106 @@ const getAlternativeModels = () => {
           ? { ...book, status: 'error', error: errorMessage } 
           : book
       ));
+      throw error;
+    }
+  };
+
+  const handleCreateBookRoadmap = async (session: BookSession) => {
+    if (!session.goal.trim()) { alert('Please enter a learning goal'); return; }
+    if (!hasApiKey) { alert('Please configure an API key in Settings first'); setSettingsOpen(true); return; }
+
+    const { book, session: routedSession } = createBook(session);
+    setCurrentBookId(book.id);
+    setView('detail');
+
+    try {
+      await generateBookRoadmap(book.id, routedSession);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to generate roadmap';
       alert(`Failed to generate roadmap: ${errorMessage}\n\nPlease check your API key and internet connection.`);
     }
   };
+
+  const updateQueueJob = (jobId: string, updates: Partial<QueueJob>) => {
+    setQueue(prev => prev.map(job => job.id === jobId ? { ...job, ...updates } : job));
+  };
+
+  const startQueueJob = (job: QueueJob) => {
+    const book = books.find(b => b.id === job.bookId);
+    if (book) {
+      // A book that failed before gets a clean start; a model picked for the job sticks to the book
+      const session = getJobSession(job);
+      handleBookProgressUpdate(book.id, {
+        ...(book.status === 'error' && { status: book.roadmap ? 'roadmap_completed' : 'planning', error: undefined }),
+        ...(job.modelTarget && { modelRouting: session.modelRouting })
+      });
+    }
+    updateQueueJob(job.id, { status: 'running', step: undefined, error: undefined, startedAt: new Date(), finishedAt: undefined });
+  };
+
+  const runQueueStep = async (job: QueueJob, step: QueueStep) => {
+    const book = books.find(b => b.id === job.bookId);
+    if (!book) return;
+
+    // Prompt overrides are read from the book, so edits made while the job waits still apply
+    const session = { ...getJobSession(job), promptTemplates: book.promptTemplates };
+    queueStepRef.current = job.id;
+    updateQueueJob(job.id, { step });
+
+    try {
+      if (step === 'roadmap') {
+        await generateBookRoadmap(book.id, session);
+      } else if (step === 'chapters') {
+        setGenerationStartTime(new Date());
+        setGenerationStatus({ bookId: book.id, status: 'generating', totalProgress: 0, logMessage: 'Starting generation...', totalWordsGenerated: 0 });
+        await generationEngine.generateAllModulesWithRecovery(book, session);
+      } else {
+        await generationEngine.assembleFinalBook(book, session);
+      }
+      queueStepRef.current = null;
+      // Nothing about the job changed, so nudge the driver to look at the book again
+      setQueue(prev => [...prev]);
+    } catch (error) {
+      queueStepRef.current = null;
+      const errorMessage = error instanceof Error ? error.message : 'Generation failed';
+      if (errorMessage.includes('GENERATION_PAUSED')) {
+        updateQueueJob(job.id, { status: 'paused' });
+      } else {
+        updateQueueJob(job.id, { status: 'error', error: errorMessage, finishedAt: new Date() });
+      }
+    }
+  };
+
+  // The queue driver reads these through a ref, so it re-runs only when the queue or a book changes
+  const queueActionsRef = useRef({ startQueueJob, runQueueStep });
+  queueActionsRef.current = { startQueueJob, runQueueStep };
+
+  const handleQueueNewBook = (session: BookSession, kind: QueueJobKind) => {
+    if (!session.goal.trim()) { alert('Please enter a learning goal'); return; }
+    if (!hasApiKey) { alert('Please configure an API key in Settings first'); setSettingsOpen(true); return; }
+
+    const { book, session: routedSession } = createBook(session);
+    setQueue(prev => [...prev, createQueueJob(book.id, kind, routedSession)]);
+    setView('queue');
+  };
+
+  const handleQueueBook = (book: BookProject, session: BookSession) => {
+    if (queue.some(job => job.bookId === book.id && job.status !== 'completed' && job.status !== 'error')) {
+      setView('queue');
+      return;
+    }
+    setQueue(prev => [...prev.filter(job => job.bookId !== book.id), createQueueJob(book.id, 'full', session)]);
+  };
+
+  const handleRemoveQueueJob = (jobId: string) => {
+    const job = queue.find(j => j.id === jobId);
+    if (job?.status === 'running') generationEngine.cancelActiveRequests(job.bookId);
+    setQueue(prev => prev.filter(j => j.id !== jobId));
+  };
+
+  const handleRetryQueueJob = (jobId: string) => {
+    updateQueueJob(jobId, { status: 'queued', step: undefined, error: undefined, finishedAt: undefined });
+  };
   
   const handleGenerateAllModules = async (book: BookProject, session: BookSession) => {
     if (!book.roadmap) { alert('No roadmap available.'); return; }
@@ -287,61 +441,68 @@ const getAlternativeModels = () => {
     }
     
     setGenerationStartTime(new Date());
-    setGenerationStatus({ status: 'generating', totalProgress: 0, logMessage: 'Starting generation...', totalWordsGenerated: 0 });
+    setGenerationStatus({ bookId: book.id, status: 'generating', totalProgress: 0, logMessage: 'Starting generation...', totalWordsGenerated: 0 });
     try {
-      await bookService.generateAllModulesWithRecovery(book, session);
+      await generationEngine.generateAllModulesWithRecovery(book, session);
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Module generation failed';
       if (!errorMessage.includes('GENERATION_PAUSED')) {
-        setGenerationStatus({ status: 'error', totalProgress: 0, logMessage: `Generation failed: ${errorMessage}` });
+        setGenerationStatus({ bookId: book.id, status: 'error', totalProgress: 0, logMessage: `Generation failed: ${errorMessage}` });
         alert(`Generation failed: ${errorMessage}`);
       }
     }
   };
 
   const handlePauseGeneration = (bookId: string) => {
-    bookService.pauseGeneration(bookId);
-    setGenerationStatus(prev => ({ ...prev, status: 'paused', logMessage: '⏸ Generation paused' }));
+    generationEngine.pauseGeneration(bookId);
+    setGenerationStatus(prev => ({ ...prev, bookId, status: 'paused', logMessage: '⏸ Generation paused' }));
   };
 
   const handleResumeGeneration = async (book: BookProject, session: BookSession) => {
     if (!book.roadmap) { alert('No roadmap available'); return; }
-    bookService.resumeGeneration(book.id);
+    generationEngine.resumeGeneration(book.id);
     setGenerationStartTime(new Date());
     setGenerationStatus({
-      status: 'generating', totalProgress: 0, logMessage: 'Resuming generation...',
+      bookId: book.id, status: 'generating', totalProgress: 0, logMessage: 'Resuming generation...',
       totalWordsGenerated: book.modules.reduce((sum, m) => sum + (m.status === 'completed' ? m.wordCount : 0), 0)
     });
     try {
-      await bookService.generateAllModulesWithRecovery(book, session);
+      await generationEngine.generateAllModulesWithRecovery(book, session);
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Resume failed';
       if (!errorMessage.includes('GENERATION_PAUSED')) {
-        setGenerationStatus({ status: 'error', totalProgress: 0, logMessage: `Resume failed: ${errorMessage}`});
+        setGenerationStatus({ bookId: book.id, status: 'error', totalProgress: 0, logMessage: `Resume failed: ${errorMessage}`});
       }
     }
   };
 
+  const handleResumeInterrupted = (book: BookProject) => {
+    setInterruptedBookIds(prev => prev.filter(id => id !== book.id));
+    setCurrentBookId(book.id);
+    setView('detail');
+    handleResumeGeneration(book, buildSessionFromBook(book));
+  };
+
   const handleRetryFailedModules = async (book: BookProject, session: BookSession) => {
     const failedModules = book.modules.filter(m => m.status === 'error');
     if (failedModules.length === 0) { alert('No failed modules to retry'); return; }
     setGenerationStartTime(new Date());
     setGenerationStatus({
-      status: 'generating', totalProgress: 0, logMessage: `Retrying ${failedModules.length} failed modules...`,
+      bookId: book.id, status: 'generating', totalProgress: 0, logMessage: `Retrying ${failedModules.length} failed modules...`,
       totalWordsGenerated: book.modules.reduce((sum, m) => sum + (m.status === 'completed' ? m.wordCount : 0), 0)
     });
     try {
-      await bookService.retryFailedModules(book, session);
+      await generationEngine.retryFailedModules(book, session);
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Retry failed';
-      setGenerationStatus({ status: 'error', totalProgress: 0, logMessage: `Retry failed: ${errorMessage}` });
+      setGenerationStatus({ bookId: book.id, status: 'error', totalProgress: 0, logMessage: `Retry failed: ${errorMessage}` });
     }
   };
 
   const handleAssembleBook = async (book: BookProject, session: BookSession) => {
     try {
-      await bookService.assembleFinalBook(book, session);
-      setGenerationStatus({ status: 'completed', totalProgress: 100, logMessage: '✅ Book completed!' });
+      await generationEngine.assembleFinalBook(book, session);
+      setGenerationStatus({ bookId: book.id, status: 'completed', totalProgress: 100, logMessage: '✅ Book completed!' });
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Assembly failed';
       alert(`Failed to assemble book: ${errorMessage}`);
@@ -349,20 +510,56 @@ const getAlternativeModels = () => {
     }
   };
 
+  const handleRegenerateChapters = async (book: BookProject, session: BookSession, rewrites: ChapterRewrite[]) => {
+    const [{ moduleId, instructions }] = rewrites;
+    const title = rewrites.length > 1
+      ? `${rewrites.length} chapters`
+      : book.modules.find(m => m.id === moduleId)?.title || 'chapter';
+    try {
+      await generationEngine.regenerateChapters(book, session, rewrites);
+      setGenerationStatus({ bookId: book.id, status: 'completed', totalProgress: 100, logMessage: `✅ ${instructions ? 'Revised' : 'Regenerated'}: ${title}` });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Chapter generation failed';
+      generationEngine.resumeGeneration(book.id);
+      setGenerationStatus({ bookId: book.id, status: 'completed', totalProgress: 100, logMessage: `Chapter unchanged: ${errorMessage}` });
+      if (errorMessage !== 'GENERATION_PAUSED') alert(`Failed to update chapter: ${errorMessage}`);
+    }
+  };
+
+  const handleGenerateFlashcards = async (book: BookProject, session: BookSession) => {
+    try {
+      const added = await generationEngine.generateFlashcards(book, session);
+      if (added === 0) alert('Every chapter already has flashcards.');
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Flashcard generation failed';
+      alert(`Failed to create flashcards: ${errorMessage}`);
+    }
+  };
+
+  const handleOpenReview = (bookId?: string) => {
+    setReviewBookId(bookId);
+    setView('review');
+  };
+
   const handleDeleteBook = (id: string) => {
     if (window.confirm('Delete this book permanently? This cannot be undone.')) {
       setBooks(prev => prev.filter(b => b.id !== id));
+      if (activeQueueJob?.bookId === id) generationEngine.cancelActiveRequests(id);
+      setQueue(prev => prev.filter(job => job.bookId !== id));
       if (currentBookId === id) {
         setCurrentBookId(null);
         setView('list');
       }
-      try {
-        localStorage.removeItem(`checkpoint_${id}`);
-        localStorage.removeItem(`pause_flag_${id}`);
-      } catch (e) { console.warn('Failed to clear storage:', e); }
+      generationEngine.clearBookState(id);
     }
   };
   
+  // Decrypted keys live only in memory; storage keeps the blanked copy
+  const handleVaultUnlocked = (secrets: VaultSecrets) => {
+    setSettings(prev => keyVault.applySecrets(prev, secrets));
+    setShowVaultUnlock(false);
+  };
+
   const handleSaveSettings = (newSettings: APISettings) => {
     setSettings(newSettings);
     storageUtils.saveSettings(newSettings);
@@ -408,6 +605,8 @@ const getAlternativeModels = () => {
           setView('create');
           setCurrentBookId(null);
         }}
+        queueCount={queue.filter(job => job.status === 'queued' || job.status === 'running').length}
+        onOpenQueue={() => setView('queue')}
         theme={theme}
         onToggleTheme={toggleTheme}
       />
@@ -422,6 +621,32 @@ const getAlternativeModels = () => {
           </div>
         )}
 
+        {view === 'queue' ? (
+          <GenerationQueueView
+            queue={queue}
+            books={books}
+            settings={settings}
+            isPaused={queuePaused}
+            runningLog={activeQueueJob && generationStatus.bookId === activeQueueJob.bookId ? generationStatus.logMessage : undefined}
+            onTogglePaused={() => setQueuePaused(prev => !prev)}
+            onUpdateJob={updateQueueJob}
+            onMoveJob={(jobId, direction) => setQueue(prev => moveQueueJob(prev, jobId, direction))}
+            onRemoveJob={handleRemoveQueueJob}
+            onRetryJob={handleRetryQueueJob}
+            onClearFinished={() => setQueue(prev => prev.filter(job => job.status !== 'completed' && job.status !== 'error'))}
+            onSelectBook={handleSelectBook}
+            onBack={() => setView(currentBookId ? 'detail' : 'list')}
+          />
+        ) : view === 'review' ? (
+          <FlashcardReview
+            books={books}
+            bookId={reviewBookId}
+            onChangeBook={setReviewBookId}
+            onUpdateBook={handleBookProgressUpdate}
+            onSelectBook={handleSelectBook}
+            onBack={() => setView(currentBookId ? 'detail' : 'list')}
+          />
+        ) : (
         <BookView
           books={books}
           currentBookId={currentBookId}
@@ -429,6 +654,9 @@ const getAlternativeModels = () => {
           onGenerateAllModules={handleGenerateAllModules}
           onRetryFailedModules={handleRetryFailedModules}
           onAssembleBook={handleAssembleBook}
+          onGenerateFlashcards={handleGenerateFlashcards}
+          onRegenerateChapters={handleRegenerateChapters}
+          onOpenReview={handleOpenReview}
           onSelectBook={handleSelectBook}
           onDeleteBook={handleDeleteBook}
           onUpdateBookStatus={handleUpdateBookStatus}
@@ -436,10 +664,11 @@ const getAlternativeModels = () => {
           view={view}
           setView={setView}
           onUpdateBookContent={handleUpdateBookContent}
+          onUpdateBook={handleBookProgressUpdate}
           showListInMain={showListInMain}
           setShowListInMain={setShowListInMain}
           isMobile={isMobile}
-          generationStatus={generationStatus}
+          generationStatus={currentGenerationStatus}
           generationStats={generationStats}
           onPauseGeneration={handlePauseGeneration}
           onResumeGeneration={handleResumeGeneration}
@@ -448,7 +677,12 @@ const getAlternativeModels = () => {
           availableModels={getAlternativeModels()}
           theme={theme}
           settings={settings} // ✅ FIX: Pass the settings object as a prop
+          queue={queue}
+          activeQueueBookId={activeQueueJob?.bookId}
+          onQueueNewBook={handleQueueNewBook}
+          onQueueBook={handleQueueBook}
         />
+        )}
       </main>
 
       <SettingsModal 
@@ -456,7 +690,12 @@ const getAlternativeModels = () => {
         onClose={() => setSettingsOpen(false)} 
         settings={settings} 
         onSaveSettings={handleSaveSettings} 
+        onVaultUnlocked={handleVaultUnlocked}
       />
+
+      {showVaultUnlock && (
+        <VaultUnlockModal onUnlock={handleVaultUnlocked} onSkip={() => setShowVaultUnlock(false)} />
+      )}
       
       {showModelSwitch && (
         <div className="fixed inset-0 z-60 flex items-center justify-center p-4 bg-black/80 backdrop-blur-sm animate-fade-in">
@@ -480,7 +719,11 @@ const getAlternativeModels = () => {
         </div>
       )}
       
-      {isInstallable && !isInstalled && (
+      {interruptedBooks.length > 0 && (
+        <ResumePrompt books={interruptedBooks} onResume={handleResumeInterrupted} onDismiss={() => setInterruptedBookIds([])} />
+      )}
+
+      {isInstallable && !isInstalled && interruptedBooks.length === 0 && (
         <InstallPrompt onInstall={handleInstallApp} onDismiss={dismissInstallPrompt} />
       )}
       
@@ -1,19 +1,49 @@
 // src/components/BookAnalytics.tsx
-import React, { useMemo } from 'react';
+import React, { useMemo, useState } from 'react';
 import { 
   BarChart3, Clock, BookOpen, Target, Download, 
-  FileText, Brain, Hash
+  FileText, Brain, Hash, Coins, Copy, AlertTriangle, Edit, Loader2
 } from 'lucide-react';
-import { BookProject } from '../types';
+import { BookProject, ChapterRewrite } from '../types';
 import { bookEnhancementService } from '../services/bookEnhancements';
+import { providerRegistry, ModelPricing } from '../services/providers';
+import { storageUtils } from '../utils/storage';
+import {
+  PassageLocation, analyzeBookConsistency, buildDeduplicationInstructions, buildTermAlignmentInstructions
+} from '../utils/bookConsistency';
 
 interface BookAnalyticsProps {
   book: BookProject;
+  onJumpToPassage?: (moduleId: string, text: string) => void;
+  onReviseChapters?: (rewrites: ChapterRewrite[]) => Promise<void>; // Revised together, each on top of the last
+  isBusy?: boolean; // Another generation or revision is running
 }
 
-export function BookAnalytics({ book }: BookAnalyticsProps) {
+export function BookAnalytics({ book, onJumpToPassage, onReviseChapters, isBusy = false }: BookAnalyticsProps) {
   const analytics = useMemo(() => bookEnhancementService.analyzeBook(book), [book]);
+  const consistency = useMemo(() => analyzeBookConsistency(book.modules), [book.modules]);
+  const [revisingId, setRevisingId] = useState<string | null>(null);
   const studyMaterials = useMemo(() => bookEnhancementService.generateStudyMaterials(book), [book]);
+  const usage = useMemo(() => bookEnhancementService.summarizeUsage(book), [book]);
+  const [priceOverrides, setPriceOverrides] = useState<Record<string, ModelPricing>>(() => storageUtils.getModelPrices());
+
+  const getPricing = (provider: string, model: string): ModelPricing | undefined =>
+    priceOverrides[`${provider}::${model}`] || providerRegistry.getPricing(provider, model);
+
+  const updatePricing = (provider: string, model: string, field: keyof ModelPricing, value: string) => {
+    const key = `${provider}::${model}`;
+    const current = getPricing(provider, model) || { input: 0, output: 0 };
+    const next = { ...priceOverrides, [key]: { ...current, [field]: Math.max(0, Number(value) || 0) } };
+    setPriceOverrides(next);
+    storageUtils.saveModelPrices(next);
+  };
+
+  const unpricedModels = usage.byModel.filter(m => !getPricing(m.provider, m.model)).length;
+  const totalCost = usage.byModel.reduce((sum, m) => {
+    const pricing = getPricing(m.provider, m.model);
+    return pricing ? sum + bookEnhancementService.estimateCost(m, pricing) : sum;
+  }, 0);
+  const formatCost = (cost: number) => `$${cost < 0.01 && cost > 0 ? cost.toFixed(4) : cost.toFixed(2)}`;
 
   const downloadFile = (content: string, filename: string, type: string) => {
     const blob = new Blob([content], { type });
@@ -36,6 +66,28 @@ export function BookAnalytics({ book }: BookAnalyticsProps) {
     downloadFile(studyMaterials.summary, `${book.title.replace(/ /g, '_')}_summary.md`, 'text/markdown;charset=utf-8');
   };
 
+  const reviseChapters = async (findingId: string, revisions: ChapterRewrite[]) => {
+    if (!onReviseChapters) return;
+    setRevisingId(findingId);
+    try {
+      await onReviseChapters(revisions);
+    } finally {
+      setRevisingId(null);
+    }
+  };
+
+  const passageLink = (key: string, location: Omit<PassageLocation, 'text'>, text: string) => (
+    <button
+      key={key}
+      onClick={() => onJumpToPassage?.(location.moduleId, text)}
+      disabled={!onJumpToPassage}
+      className="text-left text-blue-400 hover:text-blue-300 hover:underline transition-colors disabled:text-gray-400 disabled:no-underline"
+      title="Show in the book"
+    >
+      Ch. {location.chapter}: {location.moduleTitle}
+    </button>
+  );
+
   const complexityColor = {
     beginner: 'text-green-500',
     intermediate: 'text-yellow-500', 
@@ -59,6 +111,140 @@ export function BookAnalytics({ book }: BookAnalyticsProps) {
         </div>
       </div>
 
+      {/* Token Usage & Cost */}
+      {usage.calls > 0 && (
+        <div className="bg-[var(--color-card)] border border-[var(--color-border)] rounded-lg p-6">
+          <div className="flex items-center gap-3 mb-4"><Coins className="w-5 h-5 text-yellow-500" /><h4 className="text-lg font-semibold">Token Usage & Cost</h4></div>
+
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-4">
+            <div><div className="text-xl font-bold">{usage.promptTokens.toLocaleString()}</div><div className="text-sm text-gray-400">Prompt Tokens</div></div>
+            <div><div className="text-xl font-bold">{usage.completionTokens.toLocaleString()}</div><div className="text-sm text-gray-400">Completion Tokens</div></div>
+            <div><div className="text-xl font-bold">{usage.calls}</div><div className="text-sm text-gray-400">AI Calls ({Math.round(usage.durationMs / 1000)}s){usage.cacheHits > 0 ? ` • ${usage.cacheHits} cached` : ''}</div></div>
+            <div><div className="text-xl font-bold text-yellow-400">{formatCost(totalCost)}{unpricedModels > 0 ? '+' : ''}</div><div className="text-sm text-gray-400">Estimated Cost</div></div>
+          </div>
+
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-400 border-b border-[var(--color-border)]">
+                  <th className="py-2 pr-3 font-medium">Model</th>
+                  <th className="py-2 pr-3 font-medium text-right">Tokens in / out</th>
+                  <th className="py-2 pr-3 font-medium text-right">$ / 1M in</th>
+                  <th className="py-2 pr-3 font-medium text-right">$ / 1M out</th>
+                  <th className="py-2 font-medium text-right">Cost</th>
+                </tr>
+              </thead>
+              <tbody>
+                {usage.byModel.map(m => {
+                  const pricing = getPricing(m.provider, m.model);
+                  return (
+                    <tr key={`${m.provider}::${m.model}`} className="border-b border-[var(--color-border)] last:border-0">
+                      <td className="py-2 pr-3">
+                        <div className="font-medium">{m.model}</div>
+                        <div className="text-xs text-gray-500">{providerRegistry.get(m.provider)?.name || m.provider} • {m.calls} call{m.calls === 1 ? '' : 's'}</div>
+                      </td>
+                      <td className="py-2 pr-3 text-right text-gray-300">{m.promptTokens.toLocaleString()} / {m.completionTokens.toLocaleString()}</td>
+                      <td className="py-2 pr-3 text-right">
+                        <input type="number" min={0} step="0.01" value={pricing?.input ?? ''} placeholder="—" onChange={e => updatePricing(m.provider, m.model, 'input', e.target.value)} className="input-style w-20 text-right py-1" />
+                      </td>
+                      <td className="py-2 pr-3 text-right">
+                        <input type="number" min={0} step="0.01" value={pricing?.output ?? ''} placeholder="—" onChange={e => updatePricing(m.provider, m.model, 'output', e.target.value)} className="input-style w-20 text-right py-1" />
+                      </td>
+                      <td className="py-2 text-right">{pricing ? formatCost(bookEnhancementService.estimateCost(m, pricing)) : '—'}</td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+
+          <p className="text-xs text-gray-500 mt-3">
+            Prices are list prices in USD and can be edited to match your plan.
+            {usage.estimated && ' Some providers did not report usage, so those calls were estimated from text length.'}
+            {unpricedModels > 0 && ' Models without a price are left out of the total.'}
+          </p>
+        </div>
+      )}
+
+      {/* Duplication & Consistency */}
+      <div className="bg-[var(--color-card)] border border-[var(--color-border)] rounded-lg p-6">
+        <div className="flex items-center gap-3 mb-1"><Copy className="w-5 h-5 text-orange-500" /><h4 className="text-lg font-semibold">Duplication & Consistency</h4></div>
+        <p className="text-sm text-gray-400 mb-4">
+          {consistency.paragraphsChecked.toLocaleString()} paragraphs compared across chapters •{' '}
+          {consistency.duplicates.length} repeated {consistency.duplicates.length === 1 ? 'passage' : 'passages'} •{' '}
+          {consistency.termConflicts.length} inconsistent {consistency.termConflicts.length === 1 ? 'term' : 'terms'}
+        </p>
+
+        {consistency.duplicates.length === 0 && consistency.termConflicts.length === 0 ? (
+          <p className="text-sm text-gray-400">No repeated explanations or conflicting definitions found.</p>
+        ) : (
+          <div className="space-y-3">
+            {consistency.duplicates.map(group => {
+              const repeats = group.passages.slice(1).filter(p => p.moduleId !== group.passages[0].moduleId);
+              const revisions = Array.from(new Map(repeats.map(p => [p.moduleId, p])).values())
+                .map(p => ({ moduleId: p.moduleId, instructions: buildDeduplicationInstructions(group, p) }));
+              return (
+                <div key={group.id} className="p-4 bg-[var(--color-bg)] border border-[var(--color-border)] rounded-lg space-y-2">
+                  <div className="flex flex-wrap items-center justify-between gap-2">
+                    <span className="text-sm font-medium">
+                      Written {group.passages.length} times • {Math.round(group.similarity * 100)}% similar
+                    </span>
+                    {onReviseChapters && revisions.length > 0 && (
+                      <button
+                        onClick={() => reviseChapters(group.id, revisions)}
+                        disabled={isBusy || revisingId !== null}
+                        className="btn btn-secondary btn-sm"
+                        title={`Revise ${revisions.length} ${revisions.length === 1 ? 'chapter' : 'chapters'}, keeping the first copy`}
+                      >
+                        {revisingId === group.id ? <Loader2 className="w-4 h-4 animate-spin" /> : <Edit className="w-4 h-4" />}
+                        Revise to Remove Duplication
+                      </button>
+                    )}
+                  </div>
+                  <p className="text-sm text-gray-400 line-clamp-3">{group.passages[0].text}</p>
+                  <div className="flex flex-wrap gap-x-4 gap-y-1 text-sm">
+                    {group.passages.map((p, index) => passageLink(`${group.id}-${index}`, p, p.text))}
+                  </div>
+                </div>
+              );
+            })}
+
+            {consistency.termConflicts.map(conflict => {
+              const findingId = `term:${conflict.term}`;
+              const revisions = conflict.definitions.filter(d => d.differs)
+                .map(d => ({ moduleId: d.moduleId, instructions: buildTermAlignmentInstructions(conflict, d) }));
+              return (
+                <div key={findingId} className="p-4 bg-[var(--color-bg)] border border-yellow-500/20 rounded-lg space-y-2">
+                  <div className="flex flex-wrap items-center justify-between gap-2">
+                    <span className="flex items-center gap-2 text-sm font-medium">
+                      <AlertTriangle className="w-4 h-4 text-yellow-400" /> "{conflict.term}" is defined differently
+                    </span>
+                    {onReviseChapters && (
+                      <button
+                        onClick={() => reviseChapters(findingId, revisions)}
+                        disabled={isBusy || revisingId !== null}
+                        className="btn btn-secondary btn-sm"
+                        title="Revise the later chapters to use the first definition"
+                      >
+                        {revisingId === findingId ? <Loader2 className="w-4 h-4 animate-spin" /> : <Edit className="w-4 h-4" />}
+                        Align Definitions
+                      </button>
+                    )}
+                  </div>
+                  <ul className="space-y-1 text-sm">
+                    {conflict.definitions.map((d, index) => (
+                      <li key={`${d.moduleId}-${index}`} className={d.differs ? 'text-yellow-300' : 'text-gray-400'}>
+                        {passageLink(`${findingId}-${index}`, d, d.definition)}: {d.definition}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+
       {/* Key Topics */}
       <div className="bg-[var(--color-card)] border border-[var(--color-border)] rounded-lg p-6">
         <div className="flex items-center gap-3 mb-4"><Target className="w-5 h-5 text-purple-500" /><h4 className="text-lg font-semibold">Key Topics</h4></div>
@@ -56,27 +56,40 @@ import {
   Sun,
   Bookmark,
   BookmarkCheck,
-  Copy
+  Copy,
+  ListOrdered,
+  MessageSquareText,
+  LayoutTemplate,
+  BookmarkPlus,
+  Layers,
 } from 'lucide-react';
-import { APISettings, BookProject, BookSession, ReadingBookmark } from '../types/book';
-import { bookService } from '../services/bookService';
+import { APISettings, BookLanguage, BookModule, BookProject, BookRoadmap, BookSession, ChapterRewrite, PromptTemplates, QueueJob, QueueJobKind, ReadingBookmark } from '../types/book';
+import { ModuleProgress } from '../services/bookService';
+import { generationEngine } from '../services/generationEngine';
+import { providerRegistry } from '../services/providers';
 import { BookAnalytics } from './BookAnalytics';
 import { CustomSelect } from './CustomSelect';
 import { pdfService } from '../services/pdfService';
 import { readingProgressUtils } from '../utils/readingProgress';
+import { buildSessionFromBook } from '../utils/helpers';
+import { PromptTemplateEditor } from './PromptTemplateEditor';
+import { bookEnhancementService, BookTemplate } from '../services/bookEnhancements';
+import { storageUtils } from '../utils/storage';
+import { LANGUAGES, getLanguage } from '../utils/languages';
+import { buildBookWithQuizzes, splitBookAtChapters } from '../utils/bookQuizzes';
+import { ChapterQuiz } from './ChapterQuiz';
+import { RoadmapEditor } from './RoadmapEditor';
+import { ChapterActions, ChapterCompareModal } from './ChapterRevisions';
+import { restorePreviousVersion } from '../utils/chapterRevisions';
+import { countDueFlashcards, exportFlashcardsAnki, exportFlashcardsCsv } from '../utils/flashcards';
 
 // ============================================================================
 // TYPES & INTERFACES
 // ============================================================================
-type AppView = 'list' | 'create' | 'detail';
+type AppView = 'list' | 'create' | 'detail' | 'queue' | 'review';
 interface GenerationStatus {
-  currentModule?: {
-    id: string;
-    title: string;
-    attempt: number;
-    progress: number;
-    generatedText?: string;
-  };
+  currentModule?: ModuleProgress;
+  activeModules?: ModuleProgress[];
   totalProgress: number;
   status: 'idle' | 'generating' | 'completed' | 'error' | 'paused' | 'waiting_retry';
   logMessage?: string;
@@ -107,6 +120,9 @@ interface BookViewProps {
   onGenerateAllModules: (book: BookProject, session: BookSession) => Promise<void>;
   onRetryFailedModules: (book: BookProject, session: BookSession) => Promise<void>;
   onAssembleBook: (book: BookProject, session: BookSession) => Promise<void>;
+  onGenerateFlashcards: (book: BookProject, session: BookSession) => Promise<void>;
+  onRegenerateChapters: (book: BookProject, session: BookSession, rewrites: ChapterRewrite[]) => Promise<void>;
+  onOpenReview: (bookId?: string) => void;
   onSelectBook: (id: string | null) => void;
   onDeleteBook: (id: string) => void;
   onUpdateBookStatus: (id: string, status: BookProject['status']) => void;
@@ -114,6 +130,7 @@ interface BookViewProps {
   view: AppView;
   setView: React.Dispatch<React.SetStateAction<AppView>>;
   onUpdateBookContent: (bookId: string, newContent: string) => void;
+  onUpdateBook: (bookId: string, updates: Partial<BookProject>) => void;
   showListInMain: boolean;
   setShowListInMain: React.Dispatch<React.SetStateAction<boolean>>;
   isMobile?: boolean;
@@ -126,6 +143,10 @@ interface BookViewProps {
   availableModels?: Array<{provider: string; model: string; name: string}>;
   theme: 'light' | 'dark';
   settings: APISettings;
+  queue?: QueueJob[];
+  activeQueueBookId?: string;
+  onQueueNewBook?: (session: BookSession, kind: QueueJobKind) => void;
+  onQueueBook?: (book: BookProject, session: BookSession) => void;
 }
 interface ReadingModeProps {
   content: string;
@@ -139,6 +160,13 @@ interface ReadingModeProps {
   theme: 'light' | 'dark';
   bookId: string;
   currentModuleIndex: number;
+  modules?: BookModule[];
+  jumpTo?: ReadingJump | null;
+}
+// A passage to scroll to, with its chapter heading as the fallback
+interface ReadingJump {
+  text: string;
+  heading: string;
 }
 interface ReadingSettings {
   fontSize: number;
@@ -424,6 +452,48 @@ const RetryDecisionPanel = ({
   );
 };
 
+const ModuleStreamCard = ({ module }: { module: ModuleProgress }) => {
+  const streamBoxRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (streamBoxRef.current && module.generatedText) {
+      streamBoxRef.current.scrollTop = streamBoxRef.current.scrollHeight;
+    }
+  }, [module.generatedText]);
+
+  return (
+    <div className="bg-[var(--color-card)] border border-[var(--color-border)] rounded-lg p-4">
+      <div className="flex items-center justify-between mb-3">
+        <h4 className="font-semibold text-[var(--color-text-primary)] flex items-center gap-2">
+          <Zap className="w-4 h-4 text-yellow-400" />
+          {module.title}
+        </h4>
+        <div className="flex items-center gap-2">
+          {!!module.continuations && (
+            <div className="flex items-center gap-1.5 text-xs text-blue-400 bg-blue-500/10 px-2 py-1 rounded-md border border-blue-500/20" title="The model hit its output limit and was asked to continue">
+              <Play className="w-3 h-3" />
+              <span>Continued ×{module.continuations}</span>
+            </div>
+          )}
+          {module.attempt > 1 && (
+            <div className="flex items-center gap-1.5 text-xs text-yellow-400 bg-yellow-500/10 px-2 py-1 rounded-md border border-yellow-500/20">
+              <RefreshCw className="w-3 h-3" />
+              <span>Attempt {module.attempt}</span>
+            </div>
+          )}
+        </div>
+      </div>
+      <div
+        ref={streamBoxRef}
+        className="text-sm text-[var(--color-text-secondary)] leading-relaxed max-h-32 overflow-y-auto font-mono streaming-text-box"
+      >
+        {module.generatedText}
+        <span className="inline-block w-2 h-4 bg-blue-400 animate-pulse ml-1" />
+      </div>
+    </div>
+  );
+};
+
 const EmbeddedProgressPanel = ({
   generationStatus,
   stats,
@@ -441,17 +511,22 @@ const EmbeddedProgressPanel = ({
   onRetryDecision?: (decision: 'retry' | 'switch' | 'skip') => void;
   availableModels?: Array<{provider: string; model: string; name: string}>;
 }) => {
-  const streamBoxRef = useRef<HTMLDivElement>(null);
-
   const isPaused = generationStatus.status === 'paused';
   const isGenerating = generationStatus.status === 'generating';
   const isWaitingRetry = generationStatus.status === 'waiting_retry';
-  
+  const [recentLogs, setRecentLogs] = useState<string[]>([]);
+
   useEffect(() => {
-    if (streamBoxRef.current && generationStatus.currentModule?.generatedText) {
-      streamBoxRef.current.scrollTop = streamBoxRef.current.scrollHeight;
+    if (generationStatus.logMessage) {
+      setRecentLogs(prev => [...prev, generationStatus.logMessage!].slice(-5));
     }
-  }, [generationStatus.currentModule?.generatedText]);
+  }, [generationStatus.logMessage]);
+
+  // Parallel runs report every in-flight module; serial runs only the current one
+  const streamingModules = (generationStatus.activeModules?.length
+    ? generationStatus.activeModules
+    : generationStatus.currentModule ? [generationStatus.currentModule] : []
+  ).filter(m => m.generatedText);
   
   const overallProgress = (stats.completedModules / (stats.totalModules || 1)) * 100;
   
@@ -531,31 +606,22 @@ const EmbeddedProgressPanel = ({
             <div className="mt-5 mb-4">
               <PixelAnimation />
             </div>
-            {generationStatus.currentModule.generatedText && (
-              <div className="bg-[var(--color-card)] border border-[var(--color-border)] rounded-lg p-4">
-                <div className="flex items-center justify-between mb-3">
-                  <h4 className="font-semibold text-[var(--color-text-primary)] flex items-center gap-2">
-                    <Zap className="w-4 h-4 text-yellow-400" />
-                    {generationStatus.currentModule.title}
-                  </h4>
-                  {generationStatus.currentModule.attempt > 1 && (
-                    <div className="flex items-center gap-1.5 text-xs text-yellow-400 bg-yellow-500/10 px-2 py-1 rounded-md border border-yellow-500/20">
-                      <RefreshCw className="w-3 h-3" />
-                      <span>Attempt {generationStatus.currentModule.attempt}</span>
-                    </div>
-                  )}
-                </div>
-                <div
-                  ref={streamBoxRef}
-                  className="text-sm text-[var(--color-text-secondary)] leading-relaxed max-h-32 overflow-y-auto font-mono streaming-text-box"
-                >
-                  {generationStatus.currentModule.generatedText}
-                  <span className="inline-block w-2 h-4 bg-blue-400 animate-pulse ml-1" />
-                </div>
+            {streamingModules.length > 0 && (
+              <div className={streamingModules.length > 1 ? 'grid grid-cols-1 lg:grid-cols-2 gap-3' : ''}>
+                {streamingModules.map(module => (
+                  <ModuleStreamCard key={module.id} module={module} />
+                ))}
               </div>
             )}
           </>
         )}
+        {recentLogs.length > 0 && (isGenerating || isPaused) && (
+          <div className="mt-4 space-y-1 text-xs font-mono text-[var(--color-text-secondary)]">
+            {recentLogs.map((message, index) => (
+              <div key={index} className="truncate">{message}</div>
+            ))}
+          </div>
+        )}
         <div className="mt-6 pt-4 border-t border-[var(--color-border)]">
           <div className="flex items-center justify-between">
             <div className="flex items-center gap-2 text-sm text-[var(--color-text-secondary)]">
@@ -687,6 +753,21 @@ const CodeBlock = React.memo(({ children, className, theme, readingTheme }: any)
   );
 });
 
+const normalizeForSearch = (text: string) =>
+  (text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || []).join(' ');
+
+// Markdown is compared as rendered words, so emphasis and link syntax don't get in the way
+function findPassageElement(root: HTMLElement, jump: ReadingJump): HTMLElement | null {
+  const snippet = normalizeForSearch(jump.text).split(' ').slice(0, 10).join(' ');
+  const blocks = Array.from(root.querySelectorAll<HTMLElement>('p, li, pre, blockquote, td'));
+  const passage = snippet && blocks.find(el => normalizeForSearch(el.textContent || '').includes(snippet));
+  if (passage) return passage;
+
+  const heading = normalizeForSearch(jump.heading);
+  return Array.from(root.querySelectorAll<HTMLElement>('h1, h2, h3'))
+    .find(el => normalizeForSearch(el.textContent || '') === heading) || null;
+}
+
 // ✅ FIXED READING MODE WITH WORKING BOOKMARKS
 const ReadingMode: React.FC<ReadingModeProps> = ({
   content,
@@ -699,9 +780,25 @@ const ReadingMode: React.FC<ReadingModeProps> = ({
   onGoBack,
   theme,
   bookId,
-  currentModuleIndex
+  currentModuleIndex,
+  modules = [],
+  jumpTo
 }) => {
   const contentRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!jumpTo || isEditing) return;
+    // Waits a tick so a freshly opened book has rendered its markdown
+    const timer = setTimeout(() => {
+      const target = contentRef.current && findPassageElement(contentRef.current, jumpTo);
+      if (!target) return;
+      target.scrollIntoView({ behavior: 'smooth', block: 'center' });
+      target.classList.add('ring-2', 'ring-yellow-400/60', 'rounded');
+      setTimeout(() => target.classList.remove('ring-2', 'ring-yellow-400/60', 'rounded'), 2500);
+    }, 100);
+    return () => clearTimeout(timer);
+  }, [jumpTo, isEditing]);
+  const { segments, unplaced } = useMemo(() => splitBookAtChapters(content, modules), [content, modules]);
   const [settings, setSettings] = useState<ReadingSettings>(() => {
     const saved = localStorage.getItem('pustakam-reading-settings');
     const parsed = saved ? JSON.parse(saved) : {};
@@ -967,20 +1064,30 @@ const ReadingMode: React.FC<ReadingModeProps> = ({
             }`}
             style={contentStyles}
           >
-            <ReactMarkdown
-              remarkPlugins={[remarkGfm]}
-              components={{
-                code: ({ node, inline, className, children, ...props }) => {
-                  if (inline) {
-                    return <code {...props}>{children}</code>;
-                  }
-                  return <CodeBlock {...props} theme={theme} readingTheme={settings.theme} className={className}>{children}</CodeBlock>;
-                }
-              }}
-              className="focus:outline-none"
-            >
-              {content}
-            </ReactMarkdown>
+            {segments.map((segment, index) => (
+              <React.Fragment key={segment.module?.id || `segment-${index}`}>
+                <ReactMarkdown
+                  remarkPlugins={[remarkGfm]}
+                  components={{
+                    code: ({ node, inline, className, children, ...props }) => {
+                      if (inline) {
+                        return <code {...props}>{children}</code>;
+                      }
+                      return <CodeBlock {...props} theme={theme} readingTheme={settings.theme} className={className}>{children}</CodeBlock>;
+                    }
+                  }}
+                  className="focus:outline-none"
+                >
+                  {segment.markdown}
+                </ReactMarkdown>
+                {segment.module?.quiz && (
+                  <ChapterQuiz title={segment.module.title} quiz={segment.module.quiz} colors={currentTheme} />
+                )}
+              </React.Fragment>
+            ))}
+            {unplaced.map(module => (
+              <ChapterQuiz key={module.id} title={module.title} quiz={module.quiz!} colors={currentTheme} />
+            ))}
           </article>
         </div>
       </div>
@@ -1093,6 +1200,7 @@ const BookListGrid = ({
   onUpdateBookStatus,
   setView,
   setShowListInMain,
+  onOpenReview,
 }: {
   books: BookProject[];
   onSelectBook: (id: string) => void;
@@ -1100,6 +1208,7 @@ const BookListGrid = ({
   onUpdateBookStatus: (id: string, status: BookProject['status']) => void;
   setView: (view: AppView) => void;
   setShowListInMain: (show: boolean) => void;
+  onOpenReview: (bookId?: string) => void;
 }) => {
   const [hoveredBookId, setHoveredBookId] = useState<string | null>(null);
   const [statusDropdownOpen, setStatusDropdownOpen] = useState<string | null>(null);
@@ -1158,6 +1267,9 @@ const BookListGrid = ({
     return readingProgressUtils.getBookmark(bookId);
   };
 
+  const totalDue = books.reduce((sum, book) => sum + countDueFlashcards(book), 0);
+  const hasFlashcards = books.some(book => (book.flashcards?.length || 0) > 0);
+
   return (
     <div className="w-full max-w-7xl mx-auto px-6 py-10">
       <div className="flex items-center justify-between mb-8">
@@ -1169,6 +1281,11 @@ const BookListGrid = ({
           <button onClick={() => setShowListInMain(false)} className="btn btn-secondary btn-sm">
             <ArrowLeft className="w-4 h-4" /> Back
           </button>
+          {hasFlashcards && (
+            <button onClick={() => onOpenReview()} className="btn btn-secondary btn-sm">
+              <Layers className="w-4 h-4" /> Review{totalDue > 0 ? ` (${totalDue} due)` : ''}
+            </button>
+          )}
           <button
             onClick={() => {
               setView('create');
@@ -1204,6 +1321,7 @@ const BookListGrid = ({
             const isHovering = hoveredBookId === book.id;
             const readingProgress = getReadingProgress(book.id);
             const hasBookmark = readingProgress && book.status === 'completed';
+            const dueCount = countDueFlashcards(book);
 
             return (
               <div
@@ -1303,12 +1421,24 @@ const BookListGrid = ({
                         <Clock className="w-3 h-3" />
                         <span>{new Date(book.updatedAt).toLocaleDateString()}</span>
                       </div>
-                      {book.status === 'completed' && (
-                        <div className="flex items-center gap-1 text-blue-400">
-                          <Download className="w-3 h-3" />
-                          <span>Download</span>
-                        </div>
-                      )}
+                      <div className="flex items-center gap-3">
+                        {dueCount > 0 && (
+                          <button
+                            onClick={(e) => { e.stopPropagation(); onOpenReview(book.id); }}
+                            className="flex items-center gap-1 text-purple-400 hover:text-purple-300 transition-colors"
+                            title="Review due flashcards"
+                          >
+                            <Layers className="w-3 h-3" />
+                            <span>{dueCount} due</span>
+                          </button>
+                        )}
+                        {book.status === 'completed' && (
+                          <div className="flex items-center gap-1 text-blue-400">
+                            <Download className="w-3 h-3" />
+                            <span>Download</span>
+                          </div>
+                        )}
+                      </div>
                     </div>
                   </div>
                 </div>
@@ -1346,6 +1476,61 @@ const DetailTabButton = ({
   </button>
 );
 
+function BookPromptsModal({
+  book,
+  books,
+  settings,
+  onSave,
+  onClose,
+}: {
+  book: BookProject;
+  books: BookProject[];
+  settings: APISettings;
+  onSave: (templates: PromptTemplates | undefined) => void;
+  onClose: () => void;
+}) {
+  const [draft, setDraft] = useState<PromptTemplates>(book.promptTemplates || {});
+  const hasGlobal = Object.keys(settings.promptTemplates || {}).length > 0;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/70 backdrop-blur-sm animate-fade-in" onClick={onClose}>
+      <div className="relative w-full max-w-2xl bg-[var(--color-sidebar)] border border-[var(--color-border)] rounded-2xl shadow-2xl flex flex-col max-h-[90vh] animate-fade-in-up" onClick={e => e.stopPropagation()}>
+        <div className="p-5 flex items-center justify-between border-b border-[var(--color-border)]">
+          <div>
+            <h2 className="text-xl font-bold text-[var(--color-text-primary)]">Prompts for this book</h2>
+            <p className="text-xs text-[var(--color-text-secondary)] mt-1">
+              Overrides apply only to "{book.title}". Chapters already written keep their text.
+            </p>
+          </div>
+          <button onClick={onClose} className="p-2 rounded-full hover:bg-white/10 transition-colors">
+            <X size={18} />
+          </button>
+        </div>
+        <div className="p-6 overflow-y-auto">
+          <PromptTemplateEditor
+            templates={draft}
+            onChange={setDraft}
+            inherited={settings.promptTemplates}
+            inheritedLabel={hasGlobal ? 'global templates' : 'default'}
+            books={books}
+            previewBookId={book.id}
+            packName={`${book.title.toLowerCase().replace(/[^a-z0-9]+/g, '-')}-prompts`}
+          />
+        </div>
+        <div className="p-4 flex justify-end gap-2 border-t border-[var(--color-border)]">
+          <button onClick={onClose} className="btn btn-secondary btn-sm">Cancel</button>
+          <button
+            onClick={() => onSave(Object.keys(draft).length > 0 ? draft : undefined)}
+            className="btn btn-primary btn-sm"
+          >
+            <Save className="w-4 h-4" /> Save
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
 export function BookView({
   books,
   currentBookId,
@@ -1353,6 +1538,9 @@ export function BookView({
   onGenerateAllModules,
   onRetryFailedModules,
   onAssembleBook,
+  onGenerateFlashcards,
+  onRegenerateChapters,
+  onOpenReview,
   onSelectBook,
   onDeleteBook,
   onUpdateBookStatus,
@@ -1360,6 +1548,7 @@ export function BookView({
   view,
   setView,
   onUpdateBookContent,
+  onUpdateBook,
   showListInMain,
   setShowListInMain,
   isMobile = false,
@@ -1372,10 +1561,20 @@ export function BookView({
   availableModels,
   theme,
   settings,
+  queue = [],
+  activeQueueBookId,
+  onQueueNewBook,
+  onQueueBook,
 }: BookViewProps) {
   const [detailTab, setDetailTab] = useState<'overview' | 'analytics' | 'read'>('overview');
   const [localIsGenerating, setLocalIsGenerating] = useState(false);
   const [showAdvanced, setShowAdvanced] = useState(false);
+  const [queueKind, setQueueKind] = useState<QueueJobKind>('full');
+  const [showPrompts, setShowPrompts] = useState(false);
+  const [customTemplates, setCustomTemplates] = useState<BookTemplate[]>(() => storageUtils.getCustomTemplates());
+  const [templateName, setTemplateName] = useState<string | null>(null);
+  const activeQueueBookIdRef = useRef(activeQueueBookId);
+  activeQueueBookIdRef.current = activeQueueBookId;
   const [formData, setFormData] = useState<BookSession>({
     goal: '',
     language: 'en',
@@ -1396,8 +1595,22 @@ export function BookView({
   });
   const [isEditing, setIsEditing] = useState(false);
   const [editedContent, setEditedContent] = useState('');
+  const bookTemplates = useMemo(
+    () => [...bookEnhancementService.getBookTemplates(), ...customTemplates],
+    [customTemplates]
+  );
   const currentBook = currentBookId ? books.find(b => b.id === currentBookId) : null;
   const [pdfProgress, setPdfProgress] = useState(0);
+  const [isCreatingFlashcards, setIsCreatingFlashcards] = useState(false);
+  const [isEditingRoadmap, setIsEditingRoadmap] = useState(false);
+  const [chapterJobId, setChapterJobId] = useState<string | null>(null);
+  const [compareModuleId, setCompareModuleId] = useState<string | null>(null);
+  const [readingJump, setReadingJump] = useState<ReadingJump | null>(null);
+
+  // A jump is used once; coming back to the reader later shouldn't replay it
+  useEffect(() => {
+    if (detailTab !== 'read') setReadingJump(null);
+  }, [detailTab]);
 
   // ✅ FIX: Add these two missing handler functions
   const handleStartGeneration = () => {
@@ -1406,40 +1619,13 @@ export function BookView({
       return;
     }
 
-    // Reconstruct session from book data
-    const session: BookSession = {
-      goal: currentBook.goal,
-      language: 'en',
-      targetAudience: '', // Not stored, use default
-      complexityLevel: currentBook.roadmap.difficultyLevel || 'intermediate',
-      preferences: {
-        includeExamples: true,
-        includePracticalExercises: false,
-        includeQuizzes: false
-      },
-      reasoning: currentBook.reasoning
-    };
-
-    onGenerateAllModules(currentBook, session);
+    onGenerateAllModules(currentBook, buildSessionFromBook(currentBook));
   };
 
   const handleStartAssembly = () => {
     if (!currentBook) return;
     
-    const session: BookSession = {
-      goal: currentBook.goal,
-      language: 'en',
-      targetAudience: '',
-      complexityLevel: currentBook.roadmap?.difficultyLevel || 'intermediate',
-      preferences: {
-        includeExamples: true,
-        includePracticalExercises: false,
-        includeQuizzes: false
-      },
-      reasoning: currentBook.reasoning
-    };
-
-    onAssembleBook(currentBook, session);
+    onAssembleBook(currentBook, buildSessionFromBook(currentBook));
   };
   
   useEffect(() => {
@@ -1463,7 +1649,8 @@ export function BookView({
 
   useEffect(() => {
     return () => {
-      if (currentBookId) bookService.cancelActiveRequests(currentBookId);
+      // The queue keeps writing its book after the page is left
+      if (currentBookId && currentBookId !== activeQueueBookIdRef.current) generationEngine.cancelActiveRequests(currentBookId);
     };
   }, [currentBookId]);
 
@@ -1493,16 +1680,7 @@ export function BookView({
   const handleResumeGeneration = async () => {
     if (!currentBook?.roadmap) { alert('No roadmap available'); return; }
     
-    const session: BookSession = {
-        goal: currentBook.goal,
-        language: 'en',
-        targetAudience: '',
-        complexityLevel: currentBook.roadmap.difficultyLevel || 'intermediate',
-        preferences: { includeExamples: true, includePracticalExercises: false, includeQuizzes: false },
-        reasoning: currentBook.reasoning
-    };
-    
-    await onResumeGeneration?.(currentBook, session);
+    await onResumeGeneration?.(currentBook, buildSessionFromBook(currentBook));
   };
 
   const handleRetryFailedModules = async (book: BookProject, session: BookSession) => {
@@ -1520,6 +1698,29 @@ export function BookView({
       onDeleteBook(id);
     }
   };
+
+  const handleSelectTemplate = (template: BookTemplate | null) => {
+    setFormData(prev => template
+      ? bookEnhancementService.applyTemplate(prev, template, bookTemplates.find(t => t.id === prev.templateId))
+      : { ...prev, templateId: undefined, systemPrompt: undefined, estimatedModules: undefined });
+  };
+
+  const saveCustomTemplates = (templates: BookTemplate[]) => {
+    setCustomTemplates(templates);
+    storageUtils.saveCustomTemplates(templates);
+  };
+
+  const handleSaveAsTemplate = (book: BookProject) => {
+    const name = templateName?.trim();
+    if (!name) return;
+    saveCustomTemplates([...customTemplates, bookEnhancementService.createTemplateFromBook(book, name)]);
+    setTemplateName(null);
+  };
+
+  const handleDeleteTemplate = (templateId: string) => {
+    saveCustomTemplates(customTemplates.filter(t => t.id !== templateId));
+    if (formData.templateId === templateId) handleSelectTemplate(null);
+  };
   
   const handleDownloadPdf = async () => {
     if (!currentBook) return;
@@ -1528,6 +1729,67 @@ export function BookView({
     setTimeout(() => setPdfProgress(0), 2000);
   };
   
+  const handleSaveRoadmap = (roadmap: BookRoadmap) => {
+    if (!currentBook) return;
+    const ids = new Set(roadmap.modules.map(m => m.id));
+    onUpdateBook(currentBook.id, {
+      roadmap,
+      modules: currentBook.modules.filter(m => ids.has(m.roadmapModuleId))
+    });
+    setIsEditingRoadmap(false);
+  };
+
+  const handleRegenerateObjectives = (roadmap: BookRoadmap, moduleId: string) =>
+    generationEngine.generateModuleObjectives(currentBook!, buildSessionFromBook(currentBook!), roadmap, moduleId);
+
+  const handleRegenerateChapters = async (rewrites: ChapterRewrite[]) => {
+    if (!currentBook || rewrites.length === 0) return;
+    setChapterJobId(rewrites[0].moduleId);
+    try {
+      await onRegenerateChapters(currentBook, buildSessionFromBook(currentBook), rewrites);
+    } finally {
+      setChapterJobId(null);
+    }
+  };
+
+  const handleJumpToPassage = (moduleId: string, text: string) => {
+    const heading = currentBook?.modules.find(m => m.id === moduleId)?.title || '';
+    setReadingJump({ text, heading });
+    setDetailTab('read');
+  };
+
+  const handleRestoreChapter = (moduleId: string) => {
+    if (!currentBook) return;
+    const updates = restorePreviousVersion(currentBook, moduleId);
+    if (!updates) {
+      alert('The book was edited too much to place the previous version. Nothing was changed.');
+      return;
+    }
+    onUpdateBook(currentBook.id, updates);
+    setCompareModuleId(null);
+  };
+
+  const handleCreateFlashcards = async () => {
+    if (!currentBook) return;
+    setIsCreatingFlashcards(true);
+    await onGenerateFlashcards(currentBook, buildSessionFromBook(currentBook));
+    setIsCreatingFlashcards(false);
+  };
+
+  const handleExportFlashcards = (format: 'csv' | 'anki') => {
+    if (!currentBook) return;
+    const content = format === 'csv' ? exportFlashcardsCsv(currentBook) : exportFlashcardsAnki(currentBook);
+    const blob = new Blob([content], { type: format === 'csv' ? 'text/csv;charset=utf-8' : 'text/plain;charset=utf-8' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `${currentBook.title.replace(/[^a-z0-9\s-]/gi, '').replace(/\s+/g, '_').toLowerCase()}_flashcards.${format === 'csv' ? 'csv' : 'txt'}`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  };
+
   const handleStartEditing = () => {
     if (currentBook?.finalBook) {
       setEditedContent(currentBook.finalBook);
@@ -1597,6 +1859,7 @@ export function BookView({
           onUpdateBookStatus={onUpdateBookStatus}
           setView={setView}
           setShowListInMain={setShowListInMain}
+          onOpenReview={onOpenReview}
         />
       );
     return (
@@ -1630,6 +1893,57 @@ export function BookView({
         </div>
 
         <div className="space-y-6">
+          <div>
+            <label className="flex items-center gap-2 text-sm font-medium mb-2 text-[var(--color-text-primary)]">
+              <LayoutTemplate className="w-4 h-4" /> Start From a Template
+            </label>
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
+              <button
+                onClick={() => handleSelectTemplate(null)}
+                className={`text-left p-3 rounded-lg border transition-colors ${
+                  !formData.templateId
+                    ? 'border-blue-500/60 bg-blue-500/10'
+                    : 'border-[var(--color-border)] hover:border-[var(--color-text-secondary)]'
+                }`}
+              >
+                <div className="text-sm font-medium text-[var(--color-text-primary)]">Blank</div>
+                <div className="text-xs text-[var(--color-text-secondary)] mt-0.5">Describe everything yourself</div>
+              </button>
+              {bookTemplates.map(template => (
+                <div
+                  key={template.id}
+                  role="button"
+                  tabIndex={0}
+                  onClick={() => handleSelectTemplate(template)}
+                  onKeyDown={e => e.key === 'Enter' && handleSelectTemplate(template)}
+                  className={`relative text-left p-3 rounded-lg border cursor-pointer transition-colors ${
+                    formData.templateId === template.id
+                      ? 'border-blue-500/60 bg-blue-500/10'
+                      : 'border-[var(--color-border)] hover:border-[var(--color-text-secondary)]'
+                  }`}
+                >
+                  <div className="text-sm font-medium text-[var(--color-text-primary)] pr-5 truncate">{template.name}</div>
+                  <div className="text-xs text-[var(--color-text-secondary)] mt-0.5 line-clamp-2">{template.description}</div>
+                  <div className="text-xs text-[var(--color-text-secondary)] mt-1.5 opacity-70">
+                    ~{template.estimatedModules} chapters{template.isCustom && ' • Yours'}
+                  </div>
+                  {template.isCustom && (
+                    <button
+                      onClick={e => {
+                        e.stopPropagation();
+                        handleDeleteTemplate(template.id);
+                      }}
+                      className="absolute top-2 right-2 p-1 rounded text-[var(--color-text-secondary)] hover:text-red-400"
+                      title="Delete template"
+                    >
+                      <Trash2 className="w-3.5 h-3.5" />
+                    </button>
+                  )}
+                </div>
+              ))}
+            </div>
+          </div>
+
           <div>
             <label htmlFor="goal" className="block text-sm font-medium mb-2 text-[var(--color-text-primary)]">
               Learning Goal
@@ -1645,7 +1959,7 @@ export function BookView({
             />
           </div>
 
-          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
             <div>
               <label htmlFor="audience" className="block text-sm font-medium mb-2 text-[var(--color-text-primary)]">
                 Target Audience
@@ -1677,6 +1991,21 @@ export function BookView({
                 ]}
               />
             </div>
+            <div>
+              <label htmlFor="language" className="block text-sm font-medium mb-2 text-[var(--color-text-primary)]">
+                Language
+              </label>
+              <CustomSelect
+                value={formData.language}
+                onChange={(val) =>
+                  setFormData((p) => ({ ...p, language: val as BookLanguage }))
+                }
+                options={LANGUAGES.map(language => ({
+                  value: language.code,
+                  label: language.code === 'en' ? language.name : `${language.name} • ${language.nativeName}`,
+                }))}
+              />
+            </div>
           </div>
 
           <div>
@@ -1706,6 +2035,36 @@ export function BookView({
                     rows={2}
                   />
                 </div>
+                <div className="grid grid-cols-1 md:grid-cols-[1fr_10rem] gap-4">
+                  <div>
+                    <label htmlFor="brief" className="block text-sm font-medium mb-2 text-[var(--color-text-primary)]">
+                      Book Brief (Optional)
+                    </label>
+                    <textarea
+                      id="brief"
+                      value={formData.systemPrompt || ''}
+                      onChange={(e) => setFormData((p) => ({ ...p, systemPrompt: e.target.value || undefined }))}
+                      placeholder="Style and focus every chapter should follow..."
+                      className="textarea-style"
+                      rows={2}
+                    />
+                  </div>
+                  <div>
+                    <label htmlFor="chapters" className="block text-sm font-medium mb-2 text-[var(--color-text-primary)]">
+                      Target Chapters
+                    </label>
+                    <input
+                      id="chapters"
+                      type="number"
+                      min={1}
+                      max={40}
+                      value={formData.estimatedModules ?? ''}
+                      onChange={(e) => setFormData((p) => ({ ...p, estimatedModules: Number(e.target.value) || undefined }))}
+                      placeholder="Auto"
+                      className="input-style"
+                    />
+                  </div>
+                </div>
                 <div>
                   <label className="block text-sm font-medium mb-3 text-[var(--color-text-primary)]">
                     Content Preferences
@@ -1742,12 +2101,25 @@ export function BookView({
                       />
                       <span className="text-sm text-[var(--color-text-secondary)]">Include Practice Exercises</span>
                     </label>
+                    <label className="flex items-center gap-2 cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={formData.preferences?.includeQuizzes}
+                        onChange={(e) =>
+                          setFormData((p) => ({
+                            ...p,
+                            preferences: { ...p.preferences!, includeQuizzes: e.target.checked },
+                          }))
+                        }
+                        className="w-4 h-4 accent-blue-500"
+                      />
+                      <span className="text-sm text-[var(--color-text-secondary)]">Include Chapter Quizzes</span>
+                    </label>
                   </div>
                 </div>
 
                 {/* ✅ NEW: Advanced Model Settings (only for Groq Compound/OSS) */}
-                {settings.selectedProvider === 'groq' && 
-                  (settings.selectedModel.includes('compound') || settings.selectedModel.includes('gpt-oss')) && (
+                {providerRegistry.get(settings.selectedProvider)?.capabilities.supportsAdvancedSettings?.(settings.selectedModel) && (
                   <div className="mt-6 pt-6 border-t border-[var(--color-border)] space-y-4 animate-fade-in">
                     <div className="flex items-center gap-2 mb-3">
                       <Sparkles className="w-5 h-5 text-purple-400" />
@@ -1878,6 +2250,26 @@ export function BookView({
               </>
             )}
           </button>
+          {onQueueNewBook && (
+            <div className="flex gap-2">
+              <select
+                value={queueKind}
+                onChange={(e) => setQueueKind(e.target.value as QueueJobKind)}
+                className="input-style flex-1"
+              >
+                <option value="full">Full book</option>
+                <option value="roadmap">Roadmap only</option>
+              </select>
+              <button
+                onClick={() => onQueueNewBook(formData, queueKind)}
+                disabled={!formData.goal.trim() || !hasApiKey}
+                className="btn btn-secondary disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                <ListOrdered size={16} />
+                Add to Queue
+              </button>
+            </div>
+          )}
         </div>
       </div>
     );
@@ -1891,6 +2283,14 @@ export function BookView({
     const failedModules = currentBook.modules.filter((m) => m.status === 'error');
     const completedModules = currentBook.modules.filter((m) => m.status === 'completed');
     const isPaused = generationStatus?.status === 'paused';
+    const isQueued = queue.some(job => job.bookId === currentBook.id && ['queued', 'running', 'paused'].includes(job.status));
+    // The roadmap can be reshaped until the first chapter is written
+    const compareModule = compareModuleId ? currentBook.modules.find(m => m.id === compareModuleId) : undefined;
+    const canEditRoadmap = currentBook.status === 'roadmap_completed' &&
+      completedModules.length === 0 &&
+      !isGenerating &&
+      !localIsGenerating &&
+      activeQueueBookId !== currentBook.id;
     
     return (
       <div className="w-full max-w-3xl mx-auto px-6 py-10">
@@ -1907,14 +2307,72 @@ export function BookView({
             Back to My Books
           </button>
           <h1 className="text-3xl font-bold text-[var(--color-text-primary)] mb-1.5">{currentBook.title}</h1>
-          <div className="flex items-center gap-2">
+          <div className="flex items-center justify-between gap-2">
             <div className="flex items-center gap-1.5 text-sm font-medium text-[var(--color-text-secondary)]">
               {getStatusIcon(currentBook.status)}
               {getStatusText(currentBook.status)}
+              {currentBook.language && currentBook.language !== 'en' && (
+                <span className="ml-2 px-2 py-0.5 rounded bg-white/5 border border-[var(--color-border)] text-xs">
+                  {getLanguage(currentBook.language).nativeName}
+                </span>
+              )}
+            </div>
+            <div className="flex items-center gap-4">
+              <button
+                onClick={() => setTemplateName(templateName === null ? currentBook.title.substring(0, 60) : null)}
+                className="flex items-center gap-1.5 text-xs text-[var(--color-text-secondary)] hover:text-[var(--color-text-primary)] transition-colors"
+              >
+                <BookmarkPlus className="w-4 h-4" />
+                Save as Template
+              </button>
+              <button
+                onClick={() => setShowPrompts(true)}
+                className="flex items-center gap-1.5 text-xs text-[var(--color-text-secondary)] hover:text-[var(--color-text-primary)] transition-colors"
+              >
+                <MessageSquareText className="w-4 h-4" />
+                {currentBook.promptTemplates ? 'Custom prompts' : 'Prompts'}
+              </button>
             </div>
           </div>
+          {templateName !== null && (
+            <div className="mt-4 flex items-center gap-2 animate-fade-in">
+              <input
+                type="text"
+                value={templateName}
+                onChange={e => setTemplateName(e.target.value)}
+                onKeyDown={e => e.key === 'Enter' && handleSaveAsTemplate(currentBook)}
+                placeholder="Template name"
+                className="input-style text-sm py-1.5 flex-1"
+                autoFocus
+              />
+              <button onClick={() => handleSaveAsTemplate(currentBook)} disabled={!templateName.trim()} className="btn btn-primary btn-sm">
+                <Save className="w-4 h-4" /> Save
+              </button>
+              <button onClick={() => setTemplateName(null)} className="btn btn-secondary btn-sm">Cancel</button>
+            </div>
+          )}
         </div>
 
+        {compareModule && (
+          <ChapterCompareModal
+            module={compareModule}
+            onRestore={() => handleRestoreChapter(compareModule.id)}
+            onClose={() => setCompareModuleId(null)}
+          />
+        )}
+        {showPrompts && (
+          <BookPromptsModal
+            book={currentBook}
+            books={books}
+            settings={settings}
+            onSave={promptTemplates => {
+              onUpdateBook(currentBook.id, { promptTemplates });
+              setShowPrompts(false);
+            }}
+            onClose={() => setShowPrompts(false)}
+          />
+        )}
+
         {currentBook.status === 'completed' && (
           <div className="border-b border-[var(--color-border)] mb-8">
             <div className="flex items-center gap-6">
@@ -1942,7 +2400,12 @@ export function BookView({
         
         <div className="space-y-6">
             {detailTab === 'analytics' && currentBook.status === 'completed' ? (
-              <BookAnalytics book={currentBook} />
+              <BookAnalytics
+                book={currentBook}
+                onJumpToPassage={handleJumpToPassage}
+                onReviseChapters={handleRegenerateChapters}
+                isBusy={!!isGenerating || chapterJobId !== null}
+              />
             ) : detailTab === 'read' && currentBook.status === 'completed' ? (
               <ReadingMode
                 content={currentBook.finalBook || ''}
@@ -1956,6 +2419,8 @@ export function BookView({
                 theme={theme}
                 bookId={currentBook.id}
                 currentModuleIndex={0}
+                modules={currentBook.modules}
+                jumpTo={readingJump}
               />
             ) : (
               <>
@@ -1967,7 +2432,7 @@ export function BookView({
                       stats={generationStats}
                       onCancel={() => {
                         if (window.confirm('Cancel generation? Progress will be saved.')) {
-                          bookService.cancelActiveRequests(currentBook.id);
+                          generationEngine.cancelActiveRequests(currentBook.id);
                         }
                       }}
                       onPause={handlePauseGeneration}
@@ -2026,6 +2491,16 @@ export function BookView({
                           </>
                         )}
                       </button>
+                      {onQueueBook && (
+                        <button
+                          onClick={() => onQueueBook(currentBook, buildSessionFromBook(currentBook))}
+                          disabled={localIsGenerating}
+                          className="btn btn-secondary w-full py-2.5 mt-3"
+                        >
+                          <ListOrdered className="w-4 h-4" />
+                          {isQueued ? 'Queued • View Queue' : 'Add to Queue'}
+                        </button>
+                      )}
                     </div>
                   )}
                 
@@ -2048,6 +2523,15 @@ export function BookView({
                         <Box className="w-5 h-5" />
                         Assemble Final Book
                       </button>
+                      <label className="flex items-center justify-center gap-2 text-xs text-[var(--color-text-secondary)] cursor-pointer">
+                        <input
+                          type="checkbox"
+                          checked={!currentBook.bypassCache}
+                          onChange={e => onUpdateBook(currentBook.id, { bypassCache: !e.target.checked })}
+                          className="w-3.5 h-3.5 accent-blue-500"
+                        />
+                        Reuse cached introduction, summary and glossary
+                      </label>
                     </div>
                   )}
                 
@@ -2113,7 +2597,8 @@ export function BookView({
                       <button
                         onClick={() => {
                           if (currentBook.finalBook) {
-                            const blob = new Blob([currentBook.finalBook], { type: 'text/markdown;charset=utf-8' });
+                            const markdown = buildBookWithQuizzes(currentBook.finalBook, currentBook.modules);
+                            const blob = new Blob([markdown], { type: 'text/markdown;charset=utf-8' });
                             const url = URL.createObjectURL(blob);
                             const a = document.createElement('a');
                             a.href = url;
@@ -2157,13 +2642,74 @@ export function BookView({
                     )}
                   </div>
                 )}
+
+                {currentBook.status === 'completed' && detailTab === 'overview' && (
+                  <div className="bg-[var(--color-card)] border border-[var(--color-border)] rounded-lg p-7">
+                    <div className="flex flex-wrap items-center justify-between gap-4">
+                      <div className="flex items-center gap-3">
+                        <div className="w-10 h-10 flex items-center justify-center bg-purple-500/10 rounded-lg">
+                          <Layers className="w-5 h-5 text-purple-500" />
+                        </div>
+                        <div>
+                          <h3 className="text-lg font-bold text-[var(--color-text-primary)]">Flashcards</h3>
+                          <p className="text-sm text-[var(--color-text-secondary)] mt-0.5">
+                            {currentBook.flashcards?.length
+                              ? `${currentBook.flashcards.length} cards • ${countDueFlashcards(currentBook)} due today`
+                              : 'Review cards from each chapter and the glossary, scheduled for spaced repetition'}
+                          </p>
+                        </div>
+                      </div>
+                      <div className="flex flex-wrap items-center gap-2">
+                        {(currentBook.flashcards?.length || 0) > 0 && (
+                          <>
+                            <button onClick={() => onOpenReview(currentBook.id)} className="btn btn-primary btn-sm">
+                              <Layers className="w-4 h-4" /> Review
+                            </button>
+                            <button onClick={() => handleExportFlashcards('csv')} className="btn btn-secondary btn-sm">
+                              <Download className="w-4 h-4" /> CSV
+                            </button>
+                            <button onClick={() => handleExportFlashcards('anki')} className="btn btn-secondary btn-sm">
+                              <Download className="w-4 h-4" /> Anki
+                            </button>
+                          </>
+                        )}
+                        <button
+                          onClick={handleCreateFlashcards}
+                          disabled={isCreatingFlashcards}
+                          className={`btn btn-sm ${currentBook.flashcards?.length ? 'btn-secondary' : 'btn-primary'}`}
+                        >
+                          {isCreatingFlashcards
+                            ? <><Loader2 className="w-4 h-4 animate-spin" /> Creating...</>
+                            : currentBook.flashcards?.length
+                            ? <><RefreshCw className="w-4 h-4" /> Add Missing</>
+                            : <><Sparkles className="w-4 h-4" /> Create Flashcards</>}
+                        </button>
+                      </div>
+                    </div>
+                  </div>
+                )}
                 
                 {currentBook.roadmap && (
                     <div className="bg-[var(--color-card)] border border-[var(--color-border)] rounded-lg p-7">
-                      <div className="flex items-center gap-3 mb-5">
-                        <ListChecks className="w-5 h-5 text-purple-400" />
-                        <h3 className="text-lg font-bold text-[var(--color-text-primary)]">Learning Roadmap</h3>
+                      <div className="flex items-center justify-between gap-3 mb-5">
+                        <div className="flex items-center gap-3">
+                          <ListChecks className="w-5 h-5 text-purple-400" />
+                          <h3 className="text-lg font-bold text-[var(--color-text-primary)]">Learning Roadmap</h3>
+                        </div>
+                        {canEditRoadmap && !isEditingRoadmap && (
+                          <button onClick={() => setIsEditingRoadmap(true)} className="btn btn-secondary btn-sm">
+                            <Edit className="w-4 h-4" /> Edit Roadmap
+                          </button>
+                        )}
                       </div>
+                      {isEditingRoadmap && canEditRoadmap ? (
+                        <RoadmapEditor
+                          roadmap={currentBook.roadmap}
+                          onSave={handleSaveRoadmap}
+                          onCancel={() => setIsEditingRoadmap(false)}
+                          onRegenerateObjectives={handleRegenerateObjectives}
+                        />
+                      ) : (
                       <div className="space-y-3">
                         {currentBook.roadmap.modules.map((module, index) => {
                           const completedModule = currentBook.modules.find(
@@ -2174,7 +2720,7 @@ export function BookView({
                           return (
                             <div
                               key={module.id}
-                              className={`flex items-center gap-3.5 p-3.5 rounded-lg border transition-all ${
+                              className={`flex flex-wrap items-center gap-3.5 p-3.5 rounded-lg border transition-all ${
                                 isActive
                                   ? 'bg-blue-500/10 border-blue-500/40'
                                   : completedModule?.status === 'completed'
@@ -2211,10 +2757,20 @@ export function BookView({
                                 </h4>
                                 <p className="text-sm text-[var(--color-text-secondary)] mt-0.5">{module.estimatedTime}</p>
                               </div>
+                              {currentBook.status === 'completed' && completedModule?.status === 'completed' && (
+                                <ChapterActions
+                                  module={completedModule}
+                                  disabled={!!isGenerating || chapterJobId !== null}
+                                  isWorking={chapterJobId === completedModule.id}
+                                  onRegenerate={instructions => handleRegenerateChapters([{ moduleId: completedModule.id, instructions }])}
+                                  onCompare={() => setCompareModuleId(completedModule.id)}
+                                />
+                              )}
                             </div>
                           );
                         })}
                       </div>
+                      )}
                     </div>
                   )}
               </>
@@ -0,0 +1,163 @@
+// src/components/ChapterQuiz.tsx
+import { useState } from 'react';
+import { CheckCircle, XCircle, RotateCcw, Puzzle } from 'lucide-react';
+import { ModuleQuiz, QuizQuestion } from '../types';
+
+interface ChapterQuizProps {
+  title: string;
+  quiz: ModuleQuiz;
+  colors: { text: string; secondary: string; border: string; accent: string };
+}
+
+// Short answers can't be marked automatically; the reader compares with the model answer
+type ShortAnswerVerdict = 'correct' | 'incorrect';
+
+const isAnswerCorrect = (question: QuizQuestion, answer: string | undefined, verdict?: ShortAnswerVerdict) =>
+  question.type === 'short-answer' ? verdict === 'correct' : answer === question.answer;
+
+export function ChapterQuiz({ title, quiz, colors }: ChapterQuizProps) {
+  const [answers, setAnswers] = useState<Record<string, string>>({});
+  const [verdicts, setVerdicts] = useState<Record<string, ShortAnswerVerdict>>({});
+  const [submitted, setSubmitted] = useState(false);
+
+  const { questions } = quiz;
+  const answeredCount = questions.filter(q => answers[q.id]?.trim()).length;
+  const pendingVerdicts = questions.filter(q => q.type === 'short-answer' && !verdicts[q.id]).length;
+  const score = questions.filter(q => isAnswerCorrect(q, answers[q.id], verdicts[q.id])).length;
+
+  const reset = () => {
+    setAnswers({});
+    setVerdicts({});
+    setSubmitted(false);
+  };
+
+  const choiceStyle = (question: QuizQuestion, choice: string) => {
+    const selected = answers[question.id] === choice;
+    if (!submitted) {
+      return { borderColor: selected ? colors.accent : colors.border, background: selected ? `${colors.accent}22` : 'transparent' };
+    }
+    if (choice === question.answer) return { borderColor: '#22c55e', background: '#22c55e1a' };
+    if (selected) return { borderColor: '#ef4444', background: '#ef44441a' };
+    return { borderColor: colors.border, background: 'transparent', opacity: 0.6 };
+  };
+
+  const renderChoices = (question: QuizQuestion, choices: string[]) => (
+    <div className="space-y-2">
+      {choices.map((choice, index) => (
+        <button
+          key={choice}
+          onClick={() => !submitted && setAnswers(prev => ({ ...prev, [question.id]: choice }))}
+          disabled={submitted}
+          className="w-full text-left px-3 py-2 rounded-lg border text-sm transition-colors"
+          style={{ ...choiceStyle(question, choice), color: colors.text }}
+        >
+          {question.type === 'multiple-choice' && (
+            <span className="font-semibold mr-2" style={{ color: colors.secondary }}>{String.fromCharCode(65 + index)}.</span>
+          )}
+          {choice}
+        </button>
+      ))}
+    </div>
+  );
+
+  return (
+    <section className="not-prose my-10 rounded-xl border p-5 sm:p-6 space-y-6" style={{ borderColor: colors.border, color: colors.text }}>
+      <div className="flex items-center justify-between gap-3">
+        <h3 className="flex items-center gap-2 text-lg font-semibold">
+          <Puzzle size={18} style={{ color: colors.accent }} /> Quiz: {title}
+        </h3>
+        <span className="text-xs" style={{ color: colors.secondary }}>
+          {questions.length} questions
+        </span>
+      </div>
+
+      {questions.map((question, index) => {
+        const correct = isAnswerCorrect(question, answers[question.id], verdicts[question.id]);
+        return (
+          <div key={question.id} className="space-y-3">
+            <p className="font-medium text-sm sm:text-base">
+              {index + 1}. {question.question}
+            </p>
+
+            {question.type === 'multiple-choice' && renderChoices(question, question.options || [])}
+            {question.type === 'true-false' && renderChoices(question, ['True', 'False'])}
+            {question.type === 'short-answer' && (
+              <textarea
+                value={answers[question.id] || ''}
+                onChange={e => setAnswers(prev => ({ ...prev, [question.id]: e.target.value }))}
+                disabled={submitted}
+                rows={2}
+                placeholder="Your answer"
+                className="w-full px-3 py-2 rounded-lg border bg-transparent text-sm resize-y focus:outline-none"
+                style={{ borderColor: colors.border, color: colors.text }}
+              />
+            )}
+
+            {submitted && (
+              <div className="text-sm rounded-lg px-3 py-2 space-y-2" style={{ background: `${colors.border}55` }}>
+                {question.type === 'short-answer' ? (
+                  <>
+                    <p><span className="font-semibold">Model answer:</span> {question.answer}</p>
+                    <div className="flex items-center gap-2">
+                      <span style={{ color: colors.secondary }}>Did you get it?</span>
+                      {(['correct', 'incorrect'] as const).map(verdict => (
+                        <button
+                          key={verdict}
+                          onClick={() => setVerdicts(prev => ({ ...prev, [question.id]: verdict }))}
+                          className="px-2 py-0.5 rounded border text-xs"
+                          style={{
+                            borderColor: verdicts[question.id] === verdict ? colors.accent : colors.border,
+                            color: colors.text
+                          }}
+                        >
+                          {verdict === 'correct' ? 'Yes' : 'No'}
+                        </button>
+                      ))}
+                    </div>
+                  </>
+                ) : (
+                  <p className="flex items-center gap-1.5 font-semibold" style={{ color: correct ? '#22c55e' : '#ef4444' }}>
+                    {correct ? <CheckCircle size={14} /> : <XCircle size={14} />}
+                    {correct ? 'Correct' : `Answer: ${question.answer}`}
+                  </p>
+                )}
+                <p style={{ color: colors.secondary }}>{question.explanation}</p>
+              </div>
+            )}
+          </div>
+        );
+      })}
+
+      <div className="flex flex-wrap items-center justify-between gap-3 pt-2 border-t" style={{ borderColor: colors.border }}>
+        {submitted ? (
+          <p className="text-sm font-semibold pt-3">
+            Score: {score} / {questions.length}
+            {pendingVerdicts > 0 && (
+              <span className="font-normal" style={{ color: colors.secondary }}> • mark {pendingVerdicts} short {pendingVerdicts === 1 ? 'answer' : 'answers'}</span>
+            )}
+          </p>
+        ) : (
+          <p className="text-sm pt-3" style={{ color: colors.secondary }}>
+            {answeredCount} of {questions.length} answered
+          </p>
+        )}
+        <div className="pt-3">
+          {submitted ? (
+            <button onClick={reset} className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg border text-sm" style={{ borderColor: colors.border, color: colors.text }}>
+              <RotateCcw size={14} /> Try again
+            </button>
+          ) : (
+            <button
+              onClick={() => setSubmitted(true)}
+              disabled={answeredCount === 0}
+              className="px-4 py-1.5 rounded-lg text-sm font-semibold text-white disabled:opacity-40"
+              style={{ background: colors.accent }}
+            >
+              Check answers
+            </button>
+          )}
+        </div>
+      </div>
+    </section>
+  );
+}
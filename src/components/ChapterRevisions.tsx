@@ -0,0 +1,143 @@
+// src/components/ChapterRevisions.tsx
+import { useState } from 'react';
+import { RefreshCw, Edit, GitCompare, Loader2, X, RotateCcw } from 'lucide-react';
+import { BookModule } from '../types';
+
+const REVISION_PRESETS = ['Add more code examples', 'Make it shorter', 'Simplify the language', 'Add a worked example'];
+
+interface ChapterActionsProps {
+  module: BookModule;
+  disabled: boolean;
+  isWorking: boolean;
+  onRegenerate: (instructions?: string) => void;
+  onCompare: () => void;
+}
+
+// Regenerate, revise and compare buttons for a written chapter of a finished book
+export function ChapterActions({ module, disabled, isWorking, onRegenerate, onCompare }: ChapterActionsProps) {
+  const [showRevise, setShowRevise] = useState(false);
+  const [instructions, setInstructions] = useState('');
+
+  const submitRevision = () => {
+    onRegenerate(instructions.trim());
+    setShowRevise(false);
+    setInstructions('');
+  };
+
+  const iconButton = 'p-1.5 rounded-md text-[var(--color-text-secondary)] hover:text-[var(--color-text-primary)] hover:bg-white/5 transition-colors disabled:opacity-30 disabled:pointer-events-none';
+
+  return (
+    <>
+      <div className="flex items-center gap-1 shrink-0">
+        {isWorking ? (
+          <Loader2 size={16} className="animate-spin text-blue-400 mx-1.5" />
+        ) : (
+          <>
+            {module.previousVersion && (
+              <button onClick={onCompare} disabled={disabled} className={iconButton} title="Compare with the previous version">
+                <GitCompare size={15} />
+              </button>
+            )}
+            <button
+              onClick={() => window.confirm(`Write "${module.title}" again from scratch?`) && onRegenerate()}
+              disabled={disabled}
+              className={iconButton}
+              title="Regenerate chapter"
+            >
+              <RefreshCw size={15} />
+            </button>
+            <button onClick={() => setShowRevise(prev => !prev)} disabled={disabled} className={iconButton} title="Revise chapter">
+              <Edit size={15} />
+            </button>
+          </>
+        )}
+      </div>
+
+      {showRevise && !isWorking && (
+        <div className="basis-full space-y-2 pt-1">
+          <textarea
+            value={instructions}
+            onChange={e => setInstructions(e.target.value)}
+            rows={2}
+            autoFocus
+            placeholder="What should change? e.g. add more code examples"
+            className="input-style w-full text-sm resize-y"
+          />
+          <div className="flex flex-wrap items-center gap-1.5">
+            {REVISION_PRESETS.map(preset => (
+              <button
+                key={preset}
+                onClick={() => setInstructions(prev => prev.trim() ? `${prev.trim()}\n${preset}` : preset)}
+                className="px-2 py-1 rounded-md border border-[var(--color-border)] text-xs text-[var(--color-text-secondary)] hover:text-[var(--color-text-primary)] transition-colors"
+              >
+                {preset}
+              </button>
+            ))}
+            <div className="flex items-center gap-2 ml-auto">
+              <button onClick={() => setShowRevise(false)} className="btn btn-secondary btn-sm">Cancel</button>
+              <button onClick={submitRevision} disabled={!instructions.trim() || disabled} className="btn btn-primary btn-sm">
+                <Edit className="w-4 h-4" /> Revise
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </>
+  );
+}
+
+interface ChapterCompareModalProps {
+  module: BookModule;
+  onRestore: () => void;
+  onClose: () => void;
+}
+
+export function ChapterCompareModal({ module, onRestore, onClose }: ChapterCompareModalProps) {
+  const previous = module.previousVersion;
+  if (!previous) return null;
+
+  const columns = [
+    { label: 'Previous', content: previous.content, wordCount: previous.wordCount, instructions: previous.revisionInstructions },
+    { label: 'Current', content: module.content, wordCount: module.wordCount, instructions: module.revisionInstructions }
+  ];
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/70 backdrop-blur-sm animate-fade-in" onClick={onClose}>
+      <div className="relative w-full max-w-6xl bg-[var(--color-sidebar)] border border-[var(--color-border)] rounded-2xl shadow-2xl flex flex-col max-h-[90vh] animate-fade-in-up" onClick={e => e.stopPropagation()}>
+        <div className="p-5 flex items-center justify-between border-b border-[var(--color-border)]">
+          <div>
+            <h2 className="text-xl font-bold text-[var(--color-text-primary)]">{module.title}</h2>
+            <p className="text-xs text-[var(--color-text-secondary)] mt-1">
+              Restoring swaps the two versions, so it can be undone the same way.
+            </p>
+          </div>
+          <button onClick={onClose} className="p-2 rounded-full hover:bg-white/10 transition-colors">
+            <X size={18} />
+          </button>
+        </div>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4 p-5 overflow-hidden min-h-0">
+          {columns.map(column => (
+            <div key={column.label} className="flex flex-col min-h-0">
+              <div className="flex items-baseline justify-between gap-3 mb-2">
+                <h3 className="text-sm font-semibold text-[var(--color-text-primary)]">{column.label}</h3>
+                <span className="text-xs text-[var(--color-text-secondary)]">{column.wordCount.toLocaleString()} words</span>
+              </div>
+              {column.instructions && (
+                <p className="text-xs text-blue-400 mb-2 truncate" title={column.instructions}>Revised: {column.instructions}</p>
+              )}
+              <pre className="flex-1 min-h-0 max-h-[60vh] overflow-y-auto whitespace-pre-wrap text-xs text-[var(--color-text-secondary)] bg-[var(--color-bg)] border border-[var(--color-border)] rounded-lg p-3 font-sans">
+                {column.content}
+              </pre>
+            </div>
+          ))}
+        </div>
+        <div className="p-4 flex justify-end gap-2 border-t border-[var(--color-border)]">
+          <button onClick={onClose} className="btn btn-secondary btn-sm">Close</button>
+          <button onClick={onRestore} className="btn btn-primary btn-sm">
+            <RotateCcw className="w-4 h-4" /> Restore Previous
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,155 @@
+// src/components/FlashcardReview.tsx
+import { useState } from 'react';
+import { ArrowLeft, Layers, CheckCircle } from 'lucide-react';
+import { BookProject, FlashcardGrade } from '../types';
+import { FLASHCARD_GRADES, getDueFlashcards, getNextDueDate, previewInterval, reviewFlashcard } from '../utils/flashcards';
+
+interface FlashcardReviewProps {
+  books: BookProject[];
+  bookId?: string; // Limits the session to one book's deck
+  onChangeBook: (bookId?: string) => void;
+  onUpdateBook: (bookId: string, updates: Partial<BookProject>) => void;
+  onSelectBook: (bookId: string) => void;
+  onBack: () => void;
+}
+
+interface ReviewItem {
+  bookId: string;
+  cardId: string;
+}
+
+// Snapshot of what's due when the session starts; grading a card never adds new ones mid-session
+const buildSession = (books: BookProject[], bookId?: string): ReviewItem[] =>
+  books
+    .filter(book => !bookId || book.id === bookId)
+    .flatMap(book => getDueFlashcards(book).map(card => ({ bookId: book.id, card })))
+    .sort((a, b) => a.card.dueAt.getTime() - b.card.dueAt.getTime())
+    .map(({ bookId, card }) => ({ bookId, cardId: card.id }));
+
+const formatInterval = (days: number) => days < 1 ? 'now' : days === 1 ? '1 day' : `${days} days`;
+
+export function FlashcardReview({ books, bookId, onChangeBook, onUpdateBook, onSelectBook, onBack }: FlashcardReviewProps) {
+  const [items, setItems] = useState<ReviewItem[]>(() => buildSession(books, bookId));
+  const [showAnswer, setShowAnswer] = useState(false);
+  const [reviewedCount, setReviewedCount] = useState(0);
+
+  const decks = books.filter(book => (book.flashcards?.length || 0) > 0);
+  // Cards deleted or regenerated since the session started are skipped
+  const pending = items.filter(item => books.find(b => b.id === item.bookId)?.flashcards?.some(c => c.id === item.cardId));
+  const current = pending[0];
+  const book = current && books.find(b => b.id === current.bookId);
+  const card = book?.flashcards?.find(c => c.id === current.cardId);
+  const chapter = card && book?.modules.find(m => m.roadmapModuleId === card.moduleId);
+  const scopedBooks = bookId ? books.filter(b => b.id === bookId) : books;
+  const nextDue = getNextDueDate(scopedBooks);
+
+  const handleChangeBook = (nextBookId?: string) => {
+    onChangeBook(nextBookId);
+    setItems(buildSession(books, nextBookId));
+    setShowAnswer(false);
+    setReviewedCount(0);
+  };
+
+  const handleGrade = (grade: FlashcardGrade) => {
+    if (!book || !card) return;
+    onUpdateBook(book.id, {
+      flashcards: (book.flashcards || []).map(c => c.id === card.id ? reviewFlashcard(c, grade) : c)
+    });
+    // A forgotten card comes back at the end of today's session
+    setItems(prev => {
+      const rest = prev.filter(item => item !== current);
+      return grade === 'again' ? [...rest, current] : rest;
+    });
+    setReviewedCount(prev => prev + 1);
+    setShowAnswer(false);
+  };
+
+  return (
+    <div className="w-full max-w-3xl mx-auto px-6 py-10">
+      <button
+        onClick={onBack}
+        className="flex items-center gap-2 text-sm text-[var(--color-text-secondary)] hover:text-[var(--color-text-primary)] transition-colors mb-8"
+      >
+        <ArrowLeft className="w-4 h-4" />
+        Back
+      </button>
+
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-8">
+        <div>
+          <h1 className="text-2xl font-bold text-[var(--color-text-primary)] flex items-center gap-2">
+            <Layers className="w-6 h-6" /> Daily Review
+          </h1>
+          <p className="text-[var(--color-text-secondary)] text-sm mt-1">
+            {pending.length === 0
+              ? `${reviewedCount} reviewed`
+              : `${pending.length} ${pending.length === 1 ? 'card' : 'cards'} left • ${reviewedCount} reviewed`}
+          </p>
+        </div>
+        {decks.length > 1 && (
+          <select
+            value={bookId || ''}
+            onChange={e => handleChangeBook(e.target.value || undefined)}
+            className="input-style text-sm max-w-xs"
+          >
+            <option value="">All books</option>
+            {decks.map(deck => <option key={deck.id} value={deck.id}>{deck.title}</option>)}
+          </select>
+        )}
+      </div>
+
+      {decks.length === 0 ? (
+        <div className="text-center py-16 border border-dashed border-[var(--color-border)] rounded-lg">
+          <Layers className="w-8 h-8 mx-auto mb-3 text-[var(--color-text-secondary)]" />
+          <p className="text-[var(--color-text-secondary)] text-sm">
+            No flashcards yet. Open a completed book and create its flashcards to start reviewing.
+          </p>
+        </div>
+      ) : !card || !book ? (
+        <div className="text-center py-16 border border-dashed border-[var(--color-border)] rounded-lg space-y-3">
+          <CheckCircle className="w-8 h-8 mx-auto text-green-400" />
+          <p className="text-[var(--color-text-primary)] font-semibold">All caught up</p>
+          <p className="text-[var(--color-text-secondary)] text-sm">
+            {nextDue ? `Next cards are due ${nextDue.toLocaleDateString()}.` : 'Nothing scheduled.'}
+          </p>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          <div className="flex items-center justify-between gap-3 text-xs text-[var(--color-text-secondary)]">
+            <button onClick={() => onSelectBook(book.id)} className="truncate hover:text-blue-400 transition-colors text-left">
+              {book.title}{chapter ? ` • ${chapter.title}` : ''}
+            </button>
+            <span className="shrink-0">{card.source === 'glossary' ? 'Glossary' : 'Chapter'}</span>
+          </div>
+
+          <div className="bg-[var(--color-card)] border border-[var(--color-border)] rounded-xl p-8 min-h-[16rem] flex flex-col justify-center gap-6 text-center">
+            <p className="text-xl font-semibold text-[var(--color-text-primary)] whitespace-pre-wrap">{card.front}</p>
+            {showAnswer && (
+              <p className="pt-6 border-t border-[var(--color-border)] text-[var(--color-text-primary)] whitespace-pre-wrap">
+                {card.back}
+              </p>
+            )}
+          </div>
+
+          {showAnswer ? (
+            <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+              {FLASHCARD_GRADES.map(({ id, label }) => (
+                <button
+                  key={id}
+                  onClick={() => handleGrade(id)}
+                  className={`btn btn-sm flex-col ${id === 'good' ? 'btn-primary' : 'btn-secondary'}`}
+                >
+                  <span>{label}</span>
+                  <span className="text-xs opacity-70">{formatInterval(previewInterval(card, id))}</span>
+                </button>
+              ))}
+            </div>
+          ) : (
+            <button onClick={() => setShowAnswer(true)} className="btn btn-primary w-full">
+              Show Answer
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
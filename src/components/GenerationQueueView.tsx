@@ -0,0 +1,249 @@
+// src/components/GenerationQueueView.tsx
+import React, { useMemo } from 'react';
+import {
+  ArrowLeft, ArrowUp, ArrowDown, Trash2, RotateCcw, Play, Pause,
+  Loader2, CheckCircle, AlertCircle, Clock, ListOrdered
+} from 'lucide-react';
+import { APISettings, BookProject, QueueJob, QueuePriority } from '../types';
+import { providerRegistry } from '../services/providers';
+import {
+  canMoveQueueJob, estimateJobSeconds, getStepDurations, isPendingJob, orderQueue
+} from '../services/generationQueue';
+
+interface GenerationQueueViewProps {
+  queue: QueueJob[];
+  books: BookProject[];
+  settings: APISettings;
+  isPaused: boolean;
+  runningLog?: string;
+  onTogglePaused: () => void;
+  onUpdateJob: (jobId: string, updates: Partial<QueueJob>) => void;
+  onMoveJob: (jobId: string, direction: -1 | 1) => void;
+  onRemoveJob: (jobId: string) => void;
+  onRetryJob: (jobId: string) => void;
+  onClearFinished: () => void;
+  onSelectBook: (bookId: string) => void;
+  onBack: () => void;
+}
+
+const formatEta = (seconds: number): string => {
+  if (seconds < 60) return `${Math.max(1, seconds)}s`;
+  const hours = Math.floor(seconds / 3600);
+  const mins = Math.round((seconds % 3600) / 60);
+  return hours > 0 ? `${hours}h ${mins}m` : `${mins}m`;
+};
+
+const STATUS_STYLES: Record<QueueJob['status'], { label: string; Icon: React.ElementType; className: string }> = {
+  queued: { label: 'Queued', Icon: Clock, className: 'text-[var(--color-text-secondary)]' },
+  running: { label: 'Running', Icon: Loader2, className: 'text-blue-400' },
+  paused: { label: 'Paused', Icon: Pause, className: 'text-yellow-400' },
+  completed: { label: 'Done', Icon: CheckCircle, className: 'text-green-400' },
+  error: { label: 'Failed', Icon: AlertCircle, className: 'text-red-400' },
+};
+
+export function GenerationQueueView({
+  queue,
+  books,
+  settings,
+  isPaused,
+  runningLog,
+  onTogglePaused,
+  onUpdateJob,
+  onMoveJob,
+  onRemoveJob,
+  onRetryJob,
+  onClearFinished,
+  onSelectBook,
+  onBack,
+}: GenerationQueueViewProps) {
+  const ordered = useMemo(() => orderQueue(queue), [queue]);
+  const pending = ordered.filter(isPendingJob);
+  const finished = ordered.filter(job => !isPendingJob(job));
+  const durations = useMemo(() => getStepDurations(books), [books]);
+
+  const modelOptions = useMemo(() =>
+    providerRegistry.list()
+      .filter(config => providerRegistry.isConfigured(settings, config.id))
+      .flatMap(config => providerRegistry.getModels(settings, config.id).map(model => ({
+        value: `${config.id}::${model.id}`,
+        label: `${config.name} • ${model.name}`
+      }))),
+    [settings]
+  );
+
+  // Waiting jobs start once everything ahead of them has finished
+  let startsIn = 0;
+  const etas = new Map<string, { startsIn: number; duration: number }>();
+  pending.forEach(job => {
+    const duration = estimateJobSeconds(job, books.find(b => b.id === job.bookId), durations, settings.moduleConcurrency || 1);
+    etas.set(job.id, { startsIn, duration });
+    if (job.status !== 'paused') startsIn += duration;
+  });
+
+  const renderJob = (job: QueueJob) => {
+    const book = books.find(b => b.id === job.bookId);
+    const { label, Icon, className } = STATUS_STYLES[job.status];
+    const eta = etas.get(job.id);
+    const isWaiting = job.status === 'queued';
+    const modelValue = job.modelTarget ? `${job.modelTarget.provider}::${job.modelTarget.model}` : '';
+
+    return (
+      <div key={job.id} className="bg-[var(--color-card)] border border-[var(--color-border)] rounded-lg p-4 space-y-3">
+        <div className="flex items-start justify-between gap-3">
+          <div className="min-w-0">
+            <button
+              onClick={() => book && onSelectBook(book.id)}
+              disabled={!book}
+              className="text-sm font-semibold text-[var(--color-text-primary)] hover:text-blue-400 transition-colors text-left truncate max-w-full"
+            >
+              {book?.title || job.session.goal}
+            </button>
+            <div className="flex flex-wrap items-center gap-x-3 gap-y-1 mt-1 text-xs text-[var(--color-text-secondary)]">
+              <span className={`flex items-center gap-1 ${className}`}>
+                <Icon className={`w-3.5 h-3.5 ${job.status === 'running' ? 'animate-spin' : ''}`} /> {label}
+              </span>
+              <span>{job.kind === 'full' ? 'Full book' : 'Roadmap only'}</span>
+              {eta && eta.duration > 0 && (
+                <span>
+                  {job.status === 'running' ? `~${formatEta(eta.duration)} left` : `~${formatEta(eta.duration)}`}
+                  {isWaiting && !isPaused && eta.startsIn > 0 && ` • starts in ~${formatEta(eta.startsIn)}`}
+                </span>
+              )}
+              {job.finishedAt && <span>{new Date(job.finishedAt).toLocaleString()}</span>}
+            </div>
+          </div>
+          <div className="flex items-center gap-1 shrink-0">
+            {isWaiting && (
+              <>
+                <button
+                  onClick={() => onMoveJob(job.id, -1)}
+                  disabled={!canMoveQueueJob(queue, job.id, -1)}
+                  className="p-1.5 rounded-md text-[var(--color-text-secondary)] hover:bg-white/5 disabled:opacity-30"
+                  title="Move up"
+                >
+                  <ArrowUp size={14} />
+                </button>
+                <button
+                  onClick={() => onMoveJob(job.id, 1)}
+                  disabled={!canMoveQueueJob(queue, job.id, 1)}
+                  className="p-1.5 rounded-md text-[var(--color-text-secondary)] hover:bg-white/5 disabled:opacity-30"
+                  title="Move down"
+                >
+                  <ArrowDown size={14} />
+                </button>
+              </>
+            )}
+            {(job.status === 'paused' || job.status === 'error') && (
+              <button
+                onClick={() => onRetryJob(job.id)}
+                className="p-1.5 rounded-md text-[var(--color-text-secondary)] hover:text-blue-400 hover:bg-white/5"
+                title={job.status === 'paused' ? 'Resume' : 'Retry'}
+              >
+                <RotateCcw size={14} />
+              </button>
+            )}
+            <button
+              onClick={() => onRemoveJob(job.id)}
+              className="p-1.5 rounded-md text-[var(--color-text-secondary)] hover:text-red-400 hover:bg-red-900/20"
+              title={job.status === 'running' ? 'Stop and remove' : 'Remove'}
+            >
+              <Trash2 size={14} />
+            </button>
+          </div>
+        </div>
+
+        {job.status === 'running' && runningLog && (
+          <p className="text-xs text-[var(--color-text-secondary)] truncate">{runningLog}</p>
+        )}
+        {job.error && job.status === 'error' && (
+          <p className="text-xs text-red-400 bg-red-500/5 border border-red-500/20 rounded-md px-3 py-2">{job.error}</p>
+        )}
+
+        {isWaiting && (
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+            <select
+              value={job.priority}
+              onChange={e => onUpdateJob(job.id, { priority: e.target.value as QueuePriority })}
+              className="input-style text-xs py-1.5"
+            >
+              <option value="high">High priority</option>
+              <option value="normal">Normal priority</option>
+              <option value="low">Low priority</option>
+            </select>
+            <select
+              value={modelValue}
+              onChange={e => {
+                const [provider, model] = e.target.value.split('::');
+                onUpdateJob(job.id, { modelTarget: e.target.value ? { provider, model } : undefined });
+              }}
+              className="input-style text-xs py-1.5"
+            >
+              <option value="">Book's own models</option>
+              {modelValue && !modelOptions.some(option => option.value === modelValue) && (
+                <option value={modelValue}>{job.modelTarget!.provider} • {job.modelTarget!.model}</option>
+              )}
+              {modelOptions.map(option => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="w-full max-w-3xl mx-auto px-6 py-10">
+      <button
+        onClick={onBack}
+        className="flex items-center gap-2 text-sm text-[var(--color-text-secondary)] hover:text-[var(--color-text-primary)] transition-colors mb-8"
+      >
+        <ArrowLeft className="w-4 h-4" />
+        Back
+      </button>
+
+      <div className="flex items-center justify-between gap-4 mb-8">
+        <div>
+          <h1 className="text-2xl font-bold text-[var(--color-text-primary)] flex items-center gap-2">
+            <ListOrdered className="w-6 h-6" /> Generation Queue
+          </h1>
+          <p className="text-[var(--color-text-secondary)] text-sm mt-1">
+            {pending.length === 0
+              ? 'Nothing waiting'
+              : `${pending.length} ${pending.length === 1 ? 'book' : 'books'} • ~${formatEta(startsIn)} total`}
+          </p>
+        </div>
+        <button onClick={onTogglePaused} className={`btn btn-sm ${isPaused ? 'btn-primary' : 'btn-secondary'}`}>
+          {isPaused ? <><Play className="w-4 h-4" /> Start Queue</> : <><Pause className="w-4 h-4" /> Hold Queue</>}
+        </button>
+      </div>
+
+      {isPaused && pending.length > 0 && (
+        <p className="text-xs text-yellow-300 bg-yellow-500/10 border border-yellow-500/20 rounded-lg px-3 py-2 mb-4">
+          The queue is on hold. The running book finishes, but no new book starts.
+        </p>
+      )}
+
+      <div className="space-y-3">
+        {pending.map(renderJob)}
+        {pending.length === 0 && (
+          <div className="text-center py-12 text-sm text-[var(--color-text-secondary)]">
+            Add books from the create form or a book's page to generate them one after another.
+          </div>
+        )}
+      </div>
+
+      {finished.length > 0 && (
+        <div className="mt-10">
+          <div className="flex items-center justify-between mb-3">
+            <h2 className="text-sm font-semibold text-[var(--color-text-secondary)] uppercase tracking-wider">Finished</h2>
+            <button onClick={onClearFinished} className="text-xs text-[var(--color-text-secondary)] hover:text-[var(--color-text-primary)]">
+              Clear finished
+            </button>
+          </div>
+          <div className="space-y-3">{finished.map(renderJob)}</div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,218 @@
+// src/components/PromptTemplateEditor.tsx
+import React, { useMemo, useRef, useState } from 'react';
+import { Download, Upload, RotateCcw, Eye, AlertTriangle } from 'lucide-react';
+import { BookProject, GenerationStage, PromptTemplates } from '../types';
+import {
+  PROMPT_STAGES, PROMPT_VARIABLES, resolvePromptTemplate, resolvePromptTemplates, renderPromptTemplate,
+  findUnknownVariables, buildPreviewVariables, createPromptPack, parsePromptPack
+} from '../services/promptTemplates';
+import { buildSessionFromBook } from '../utils/helpers';
+
+interface PromptTemplateEditorProps {
+  templates: PromptTemplates;
+  onChange: (templates: PromptTemplates) => void;
+  // Templates this level falls back to; the built-in ones when editing the global set
+  inherited?: PromptTemplates;
+  inheritedLabel: string;
+  books: BookProject[];
+  previewBookId?: string;
+  packName?: string;
+}
+
+export function PromptTemplateEditor({
+  templates,
+  onChange,
+  inherited,
+  inheritedLabel,
+  books,
+  previewBookId,
+  packName = 'pustakam-prompts',
+}: PromptTemplateEditorProps) {
+  const [stage, setStage] = useState<GenerationStage>('module');
+  const [showPreview, setShowPreview] = useState(false);
+  const [bookId, setBookId] = useState(previewBookId || books[0]?.id || '');
+  const [importError, setImportError] = useState<string | null>(null);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const fallback = resolvePromptTemplate(stage, inherited);
+  const value = templates[stage] ?? fallback;
+  const isOverridden = templates[stage] !== undefined;
+  const unknownVariables = findUnknownVariables(stage, value);
+  const previewBook = books.find(b => b.id === bookId);
+
+  const preview = useMemo(() => {
+    if (!showPreview || !previewBook) return '';
+    return renderPromptTemplate(value, buildPreviewVariables(stage, previewBook, buildSessionFromBook(previewBook)));
+  }, [showPreview, previewBook, stage, value]);
+
+  // Text identical to what would be inherited isn't kept as an override
+  const setStageText = (text: string) => {
+    const next = { ...templates };
+    if (text === fallback) delete next[stage];
+    else next[stage] = text;
+    onChange(next);
+  };
+
+  const resetStage = () => {
+    const next = { ...templates };
+    delete next[stage];
+    onChange(next);
+  };
+
+  const insertVariable = (name: string) => {
+    const textarea = textareaRef.current;
+    const token = `{${name}}`;
+    if (!textarea) return setStageText(value + token);
+
+    const { selectionStart, selectionEnd } = textarea;
+    setStageText(value.slice(0, selectionStart) + token + value.slice(selectionEnd));
+    requestAnimationFrame(() => {
+      textarea.focus();
+      textarea.setSelectionRange(selectionStart + token.length, selectionStart + token.length);
+    });
+  };
+
+  const handleExport = () => {
+    const pack = createPromptPack(resolvePromptTemplates(inherited, templates), packName);
+    const blob = new Blob([JSON.stringify(pack, null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `${packName}.json`;
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImport = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+
+    const reader = new FileReader();
+    reader.onload = (e) => {
+      try {
+        const imported = parsePromptPack(e.target?.result as string);
+        // Stages matching what would be inherited anyway stay un-overridden
+        const next = { ...templates };
+        Object.entries(imported).forEach(([id, text]) => {
+          const key = id as GenerationStage;
+          if (text === resolvePromptTemplate(key, inherited)) delete next[key];
+          else next[key] = text;
+        });
+        onChange(next);
+        setImportError(null);
+      } catch (error) {
+        setImportError(error instanceof Error ? error.message : 'Invalid file');
+      }
+    };
+    reader.readAsText(file);
+    if (fileInputRef.current) fileInputRef.current.value = '';
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap gap-1.5">
+        {PROMPT_STAGES.map(({ id, label }) => (
+          <button
+            key={id}
+            onClick={() => setStage(id)}
+            className={`px-3 py-1.5 rounded-md text-xs font-medium transition-colors ${
+              stage === id ? 'bg-white/10 text-white' : 'text-gray-400 hover:bg-white/5 hover:text-white'
+            }`}
+          >
+            {label}
+            {templates[id] !== undefined && <span className="ml-1.5 inline-block w-1.5 h-1.5 rounded-full bg-blue-400 align-middle" />}
+          </button>
+        ))}
+      </div>
+
+      <div className="flex items-center justify-between text-xs">
+        <span className={isOverridden ? 'text-blue-400' : 'text-gray-500'}>
+          {isOverridden ? 'Customized' : `Using ${inheritedLabel}`}
+        </span>
+        <button
+          onClick={resetStage}
+          disabled={!isOverridden}
+          className="flex items-center gap-1 text-gray-400 hover:text-white disabled:opacity-40 disabled:hover:text-gray-400"
+        >
+          <RotateCcw size={12} /> Reset to {inheritedLabel}
+        </button>
+      </div>
+
+      <textarea
+        ref={textareaRef}
+        value={value}
+        onChange={e => setStageText(e.target.value)}
+        rows={14}
+        spellCheck={false}
+        className="input-style w-full font-mono text-xs leading-relaxed resize-y"
+      />
+
+      <div>
+        <p className="text-xs text-gray-500 mb-2">
+          Click a variable to insert it. A line whose variables are all empty is left out of the prompt.
+        </p>
+        <div className="flex flex-wrap gap-1.5">
+          {PROMPT_VARIABLES[stage].map(variable => (
+            <button
+              key={variable.name}
+              onClick={() => insertVariable(variable.name)}
+              title={variable.description}
+              className="px-2 py-1 rounded bg-[var(--color-bg)] border border-[var(--color-border)] text-xs font-mono text-gray-300 hover:border-blue-500/50 hover:text-white transition-colors"
+            >
+              {`{${variable.name}}`}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {unknownVariables.length > 0 && (
+        <div className="flex items-start gap-2 text-xs text-yellow-300 bg-yellow-500/10 border border-yellow-500/20 rounded-lg px-3 py-2">
+          <AlertTriangle size={14} className="shrink-0 mt-0.5" />
+          <span>
+            Not available at this stage and sent as written: {unknownVariables.map(name => `{${name}}`).join(', ')}
+          </span>
+        </div>
+      )}
+
+      <div className="bg-[var(--color-bg)] border border-[var(--color-border)] rounded-lg p-3 space-y-3">
+        <div className="flex items-center justify-between gap-3">
+          <button
+            onClick={() => setShowPreview(prev => !prev)}
+            disabled={books.length === 0}
+            className="flex items-center gap-2 text-sm font-medium text-white disabled:text-gray-500"
+          >
+            <Eye size={14} /> {showPreview ? 'Hide preview' : 'Preview with a book'}
+          </button>
+          {showPreview && books.length > 1 && (
+            <select value={bookId} onChange={e => setBookId(e.target.value)} className="input-style text-xs py-1 max-w-[55%]">
+              {books.map(book => <option key={book.id} value={book.id}>{book.title}</option>)}
+            </select>
+          )}
+        </div>
+        {books.length === 0 && <p className="text-xs text-gray-500">Create a book to preview prompts with real content.</p>}
+        {showPreview && previewBook && (
+          <pre className="max-h-64 overflow-y-auto whitespace-pre-wrap text-xs text-gray-300 font-mono">{preview}</pre>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
+        <button onClick={handleExport} className="btn btn-secondary btn-sm w-full">
+          <Download size={14} /> Export Pack
+        </button>
+        <label className="btn btn-secondary btn-sm w-full cursor-pointer">
+          <Upload size={14} /> Import Pack
+          <input type="file" ref={fileInputRef} onChange={handleImport} accept=".json" className="hidden" />
+        </label>
+        <button
+          onClick={() => onChange({})}
+          disabled={Object.keys(templates).length === 0}
+          className="btn btn-secondary btn-sm w-full"
+        >
+          <RotateCcw size={14} /> Reset All
+        </button>
+      </div>
+      {importError && <p className="text-xs text-red-400">{importError}</p>}
+    </div>
+  );
+}
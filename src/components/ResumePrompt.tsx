@@ -0,0 +1,45 @@
+// src/components/ResumePrompt.tsx
+import { RotateCcw, X } from 'lucide-react';
+import { BookProject } from '../types';
+
+interface ResumePromptProps {
+  books: BookProject[];
+  onResume: (book: BookProject) => void;
+  onDismiss: () => void;
+}
+
+// Shown after a reload for books whose chapters were still being written
+export function ResumePrompt({ books, onResume, onDismiss }: ResumePromptProps) {
+  return (
+    <div className="fixed bottom-4 left-4 right-4 md:left-auto md:right-4 md:max-w-sm bg-[var(--color-card)] border border-[var(--color-border)] rounded-xl shadow-2xl p-4 z-50 animate-slide-up">
+      <div className="flex items-start justify-between gap-3 mb-3">
+        <div>
+          <h3 className="font-semibold text-[var(--color-text-primary)] text-base">Generation interrupted</h3>
+          <p className="text-sm text-[var(--color-text-secondary)] mt-1">
+            Pick up where the last session stopped. Half-written chapters continue from their saved text.
+          </p>
+        </div>
+        <button onClick={onDismiss} className="p-1 rounded-md text-[var(--color-text-secondary)] hover:bg-white/5" title="Dismiss">
+          <X size={16} />
+        </button>
+      </div>
+      <div className="space-y-2 max-h-60 overflow-y-auto">
+        {books.map(book => {
+          const done = book.modules.filter(m => m.status === 'completed').length;
+          const total = book.roadmap?.modules.length || 0;
+          return (
+            <div key={book.id} className="flex items-center gap-3 p-2.5 rounded-lg bg-[var(--color-sidebar)] border border-[var(--color-border)]">
+              <div className="flex-1 min-w-0">
+                <div className="text-sm font-medium text-[var(--color-text-primary)] truncate">{book.title}</div>
+                <div className="text-xs text-[var(--color-text-secondary)]">{done} of {total} chapters written</div>
+              </div>
+              <button onClick={() => onResume(book)} className="btn btn-primary btn-sm shrink-0">
+                <RotateCcw className="w-4 h-4" />Resume
+              </button>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,147 @@
+// src/components/RoadmapEditor.tsx
+import { useState } from 'react';
+import { ArrowUp, ArrowDown, Scissors, Merge, Wand2, Trash2, Plus, Loader2, Save, X, AlertTriangle } from 'lucide-react';
+import { BookRoadmap } from '../types';
+import {
+  addRoadmapModule, cleanRoadmap, mergeRoadmapModules, moveRoadmapModule, removeRoadmapModule,
+  splitRoadmapModule, updateRoadmapModule, validateRoadmapEdits
+} from '../utils/roadmapEditing';
+
+interface RoadmapEditorProps {
+  roadmap: BookRoadmap;
+  onSave: (roadmap: BookRoadmap) => void;
+  onCancel: () => void;
+  onRegenerateObjectives: (roadmap: BookRoadmap, moduleId: string) => Promise<string[]>;
+}
+
+export function RoadmapEditor({ roadmap, onSave, onCancel, onRegenerateObjectives }: RoadmapEditorProps) {
+  const [draft, setDraft] = useState<BookRoadmap>(roadmap);
+  const [regeneratingId, setRegeneratingId] = useState<string | null>(null);
+  const [regenerateError, setRegenerateError] = useState<string | null>(null);
+
+  const errors = validateRoadmapEdits(draft);
+
+  const handleRegenerate = async (moduleId: string) => {
+    setRegeneratingId(moduleId);
+    setRegenerateError(null);
+    try {
+      const objectives = await onRegenerateObjectives(cleanRoadmap(draft), moduleId);
+      setDraft(prev => updateRoadmapModule(prev, moduleId, { objectives }));
+    } catch (error) {
+      setRegenerateError(error instanceof Error ? error.message : 'Could not regenerate objectives');
+    } finally {
+      setRegeneratingId(null);
+    }
+  };
+
+  const iconButton = 'p-1.5 rounded-md text-[var(--color-text-secondary)] hover:text-[var(--color-text-primary)] hover:bg-white/5 transition-colors disabled:opacity-30 disabled:pointer-events-none';
+
+  return (
+    <div className="space-y-3">
+      {draft.modules.map((module, index) => (
+        <div key={module.id} className="p-3.5 rounded-lg border border-[var(--color-border)] bg-[var(--color-bg)] space-y-2.5">
+          <div className="flex items-center gap-2">
+            <span className="w-7 h-7 rounded-full flex items-center justify-center text-xs font-bold shrink-0 bg-[var(--color-card)] text-[var(--color-text-secondary)]">
+              {index + 1}
+            </span>
+            <input
+              value={module.title}
+              onChange={e => setDraft(prev => updateRoadmapModule(prev, module.id, { title: e.target.value }))}
+              placeholder="Module title"
+              className="input-style flex-1 min-w-0 text-sm font-medium"
+            />
+            <input
+              value={module.estimatedTime}
+              onChange={e => setDraft(prev => updateRoadmapModule(prev, module.id, { estimatedTime: e.target.value }))}
+              placeholder="1 hour"
+              title="Estimated time"
+              className="input-style w-28 text-sm"
+            />
+          </div>
+
+          <textarea
+            value={module.objectives.join('\n')}
+            onChange={e => setDraft(prev => updateRoadmapModule(prev, module.id, { objectives: e.target.value.split('\n') }))}
+            rows={Math.max(3, module.objectives.length)}
+            placeholder="One objective per line"
+            className="input-style w-full text-sm resize-y"
+          />
+
+          <div className="flex flex-wrap items-center gap-1">
+            <button onClick={() => setDraft(prev => moveRoadmapModule(prev, module.id, -1))} disabled={index === 0} className={iconButton} title="Move up">
+              <ArrowUp size={15} />
+            </button>
+            <button onClick={() => setDraft(prev => moveRoadmapModule(prev, module.id, 1))} disabled={index === draft.modules.length - 1} className={iconButton} title="Move down">
+              <ArrowDown size={15} />
+            </button>
+            <button
+              onClick={() => setDraft(prev => splitRoadmapModule(prev, module.id))}
+              disabled={module.objectives.filter(o => o.trim()).length < 2}
+              className={iconButton}
+              title="Split into two modules"
+            >
+              <Scissors size={15} />
+            </button>
+            <button
+              onClick={() => setDraft(prev => mergeRoadmapModules(prev, module.id))}
+              disabled={index === draft.modules.length - 1}
+              className={iconButton}
+              title="Merge with the next module"
+            >
+              <Merge size={15} />
+            </button>
+            <button onClick={() => setDraft(prev => addRoadmapModule(prev, module.id))} className={iconButton} title="Add a module after this one">
+              <Plus size={15} />
+            </button>
+            <button
+              onClick={() => handleRegenerate(module.id)}
+              disabled={regeneratingId !== null || !module.title.trim()}
+              className={`${iconButton} flex items-center gap-1.5 text-xs`}
+              title="Rewrite the objectives with AI"
+            >
+              {regeneratingId === module.id ? <Loader2 size={15} className="animate-spin" /> : <Wand2 size={15} />}
+              Objectives
+            </button>
+            <button
+              onClick={() => setDraft(prev => removeRoadmapModule(prev, module.id))}
+              disabled={draft.modules.length === 1}
+              className={`${iconButton} ml-auto hover:text-red-400`}
+              title="Delete module"
+            >
+              <Trash2 size={15} />
+            </button>
+          </div>
+        </div>
+      ))}
+
+      <button onClick={() => setDraft(prev => addRoadmapModule(prev))} className="btn btn-secondary btn-sm w-full">
+        <Plus className="w-4 h-4" /> Add Module
+      </button>
+
+      {(errors.length > 0 || regenerateError) && (
+        <div className="flex items-start gap-2 text-xs text-yellow-300 bg-yellow-500/10 border border-yellow-500/20 rounded-lg px-3 py-2">
+          <AlertTriangle size={14} className="shrink-0 mt-0.5" />
+          <span>{regenerateError || errors.join(' • ')}</span>
+        </div>
+      )}
+
+      <div className="flex items-center justify-between gap-3 pt-2">
+        <span className="text-xs text-[var(--color-text-secondary)]">
+          {draft.totalModules} modules • {draft.estimatedReadingTime}
+        </span>
+        <div className="flex items-center gap-2">
+          <button onClick={onCancel} className="btn btn-secondary btn-sm">
+            <X className="w-4 h-4" /> Cancel
+          </button>
+          <button
+            onClick={() => onSave(cleanRoadmap(draft))}
+            disabled={errors.length > 0 || regeneratingId !== null}
+            className="btn btn-primary btn-sm"
+          >
+            <Save className="w-4 h-4" /> Save Roadmap
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -3,51 +3,276 @@ import React from 'react';
 import { 
   X, Shield, Database, Download, Upload, Trash2, HelpCircle, Key, 
   Settings, ExternalLink, Eye, EyeOff, User, Zap, Globe, Cpu, 
-  BookOpen, AlertTriangle, Plus,
-  Brain, FileText, Search, Sparkles
+  BookOpen, AlertTriangle, Plus, Server, FlaskConical, Route,
+  Brain, FileText, Search, Sparkles, ArrowUp, ArrowDown, Lock, Unlock, MessageSquareText
 } from 'lucide-react';
-import { APISettings } from '../types';
+import { APISettings, ApiKeyEntry, FallbackPolicy, GenerationStage, MockProviderSettings, ProviderRateLimit, defaultFallbackPolicy } from '../types';
 import { storageUtils } from '../utils/storage';
+import { keyVault, VaultSecrets } from '../utils/keyVault';
+import { providerRegistry, defaultMockSettings } from '../services/providers';
+import { apiKeyPool } from '../services/apiKeyPool';
+import { responseCache, CachedResponse, DEFAULT_CACHE_LIMIT_MB } from '../services/responseCache';
+import { generateId } from '../utils/helpers';
 import { DisclaimerPage } from './DisclaimerPage';
+import { CustomSelect } from './CustomSelect';
+import { PromptTemplateEditor } from './PromptTemplateEditor';
 
 interface SettingsModalProps {
   isOpen: boolean;
   onClose: () => void;
   settings: APISettings;
   onSaveSettings: (settings: APISettings) => void;
+  onVaultUnlocked: (secrets: VaultSecrets) => void;
 }
 
-type ActiveTab = 'keys' | 'data' | 'about';
+type ActiveTab = 'keys' | 'routing' | 'prompts' | 'data' | 'about';
+
+type VaultState = 'off' | 'locked' | 'unlocked';
+
+const getVaultState = (): VaultState =>
+  !keyVault.isEnabled() ? 'off' : keyVault.isUnlocked() ? 'unlocked' : 'locked';
+
+const routingStages: Array<{ id: GenerationStage; label: string; description: string }> = [
+  { id: 'roadmap', label: 'Roadmap', description: 'Plans the book structure. A strong reasoning model pays off here.' },
+  { id: 'objectives', label: 'Objectives', description: 'Rewrites one module\'s objectives from the roadmap editor.' },
+  { id: 'module', label: 'Chapters', description: 'Writes every chapter. A fast, affordable model keeps long books cheap.' },
+  { id: 'quiz', label: 'Quizzes', description: 'Writes the end-of-chapter quiz when a book includes quizzes.' },
+  { id: 'memory', label: 'Book Memory', description: 'Notes what each chapter defined and promised, so later chapters stay consistent.' },
+  { id: 'introduction', label: 'Introduction', description: 'Front matter written during assembly.' },
+  { id: 'summary', label: 'Summary', description: 'Back matter written during assembly.' },
+  { id: 'glossary', label: 'Glossary', description: 'Extracts key terms. A small model is usually enough.' },
+  { id: 'flashcards', label: 'Flashcards', description: 'Writes review cards for a finished book on request.' }
+];
+
+const ROUTING_SEPARATOR = '::';
 
 interface ImportPreview {
   books: any[];
   settings: APISettings;
+  keyVault?: unknown; // Encrypted keys carried by the backup, if any
   conflicts: {
     duplicateBooks: number;
     settingsConflict: boolean;
   };
 }
 
-export function SettingsModal({ isOpen, onClose, settings, onSaveSettings }: SettingsModalProps) {
+export function SettingsModal({ isOpen, onClose, settings, onSaveSettings, onVaultUnlocked }: SettingsModalProps) {
   const [localSettings, setLocalSettings] = React.useState<APISettings>(settings);
   const [activeTab, setActiveTab] = React.useState<ActiveTab>('keys');
   const [visibleApis, setVisibleApis] = React.useState<Record<string, boolean>>({});
   const [importPreview, setImportPreview] = React.useState<ImportPreview | null>(null);
   const [showImportModal, setShowImportModal] = React.useState(false);
   const [showDisclaimer, setShowDisclaimer] = React.useState(false);
+  const [vaultState, setVaultState] = React.useState<VaultState>(getVaultState);
+  const [vaultPassphrase, setVaultPassphrase] = React.useState('');
+  const [vaultConfirm, setVaultConfirm] = React.useState('');
+  const [vaultError, setVaultError] = React.useState<string | null>(null);
+  const [vaultBusy, setVaultBusy] = React.useState(false);
+  const [cacheEntries, setCacheEntries] = React.useState<CachedResponse[] | null>(null);
   const fileInputRef = React.useRef<HTMLInputElement>(null);
 
   React.useEffect(() => setLocalSettings(settings), [settings, isOpen]);
+  React.useEffect(() => setVaultState(getVaultState()), [settings, isOpen]);
+
+  React.useEffect(() => {
+    if (isOpen && activeTab === 'data') responseCache.list().then(setCacheEntries);
+  }, [isOpen, activeTab]);
+
+  const cacheBytes = cacheEntries?.reduce((sum, entry) => sum + entry.size, 0) || 0;
+
+  const handleClearCache = async () => {
+    try {
+      await responseCache.clear();
+      setCacheEntries([]);
+    } catch (error) {
+      console.error('Failed to clear response cache:', error);
+      alert('Failed to clear the response cache.');
+    }
+  };
+
+  const resetVaultForm = () => {
+    setVaultPassphrase('');
+    setVaultConfirm('');
+    setVaultError(null);
+  };
+
+  // Encrypts the saved keys; unsaved edits in the form are sealed on the next save
+  const handleEnableVault = async () => {
+    if (vaultPassphrase !== vaultConfirm) {
+      setVaultError('Passphrases do not match');
+      return;
+    }
+    setVaultBusy(true);
+    try {
+      await keyVault.enable(vaultPassphrase, settings);
+      storageUtils.saveSettings(settings);
+      resetVaultForm();
+      setVaultState(getVaultState());
+    } catch (error) {
+      setVaultError(error instanceof Error ? error.message : 'Failed to encrypt keys');
+    } finally {
+      setVaultBusy(false);
+    }
+  };
+
+  const handleUnlockVault = async () => {
+    setVaultBusy(true);
+    try {
+      const secrets = await keyVault.unlock(vaultPassphrase);
+      setLocalSettings(p => keyVault.applySecrets(p, secrets));
+      onVaultUnlocked(secrets);
+      resetVaultForm();
+      setVaultState(getVaultState());
+    } catch (error) {
+      setVaultError(error instanceof Error ? error.message : 'Failed to unlock');
+    } finally {
+      setVaultBusy(false);
+    }
+  };
+
+  const handleDisableVault = () => {
+    // While locked the only copy of the keys is the encrypted one, and disabling would save blanks over it
+    if (!keyVault.isUnlocked()) {
+      setVaultError('Unlock the vault before removing encryption');
+      setVaultState(getVaultState());
+      return;
+    }
+    if (!window.confirm('Remove encryption? Your API keys will be stored in plain text in this browser.')) return;
+    keyVault.disable();
+    storageUtils.saveSettings(settings);
+    setVaultState(getVaultState());
+  };
+
+  const mockSettings = { ...defaultMockSettings, ...localSettings.mockSettings };
+
+  const updateMockSettings = (updates: Partial<MockProviderSettings>) => {
+    setLocalSettings(p => ({ ...p, mockSettings: { ...defaultMockSettings, ...p.mockSettings, ...updates } }));
+  };
+
+  const getRoutingValue = (stage: GenerationStage) => {
+    const target = localSettings.stageRouting?.[stage];
+    return target ? `${target.provider}${ROUTING_SEPARATOR}${target.model}` : '';
+  };
+
+  const getModelOptions = () => {
+    const options: Array<{ value: string; label: string }> = [];
+    providerRegistry.list()
+      .filter(adapter => providerRegistry.isConfigured(localSettings, adapter.id))
+      .forEach(adapter => {
+        providerRegistry.getModels(localSettings, adapter.id).forEach(model => {
+          options.push({ value: `${adapter.id}${ROUTING_SEPARATOR}${model.id}`, label: `${adapter.name} • ${model.name}` });
+        });
+      });
+    return options;
+  };
+
+  const getRoutingOptions = (stage: GenerationStage) => {
+    const options = [{ value: '', label: 'Default (header selection)' }, ...getModelOptions()];
+
+    // Keep a saved choice visible even if its provider has since lost its key
+    const current = getRoutingValue(stage);
+    if (current && !options.some(o => o.value === current)) {
+      options.push({ value: current, label: `${current.replace(ROUTING_SEPARATOR, ' • ')} (unavailable)` });
+    }
+    return options;
+  };
+
+  const updateRouting = (stage: GenerationStage, value: string) => {
+    setLocalSettings(p => {
+      const stageRouting = { ...p.stageRouting };
+      if (value) {
+        const [provider, ...rest] = value.split(ROUTING_SEPARATOR);
+        stageRouting[stage] = { provider, model: rest.join(ROUTING_SEPARATOR) };
+      } else {
+        delete stageRouting[stage];
+      }
+      return { ...p, stageRouting };
+    });
+  };
+
+  const fallbackPolicy = { ...defaultFallbackPolicy, ...localSettings.fallbackPolicy };
+
+  const updateFallbackPolicy = (updates: Partial<FallbackPolicy>) => {
+    setLocalSettings(p => ({ ...p, fallbackPolicy: { ...defaultFallbackPolicy, ...p.fallbackPolicy, ...updates } }));
+  };
+
+  const addFallbackTarget = (value: string) => {
+    if (!value) return;
+    const [provider, ...rest] = value.split(ROUTING_SEPARATOR);
+    updateFallbackPolicy({ chain: [...fallbackPolicy.chain, { provider, model: rest.join(ROUTING_SEPARATOR) }] });
+  };
+
+  const moveFallbackTarget = (index: number, offset: number) => {
+    const chain = [...fallbackPolicy.chain];
+    const [target] = chain.splice(index, 1);
+    chain.splice(index + offset, 0, target);
+    updateFallbackPolicy({ chain });
+  };
+
+  const removeFallbackTarget = (index: number) => {
+    updateFallbackPolicy({ chain: fallbackPolicy.chain.filter((_, i) => i !== index) });
+  };
+
+  const updateRateLimit = (providerId: string, field: keyof ProviderRateLimit, value: string) => {
+    setLocalSettings(p => ({
+      ...p,
+      rateLimits: {
+        ...p.rateLimits,
+        [providerId]: { ...providerRegistry.getRateLimit(p, providerId), [field]: Math.max(0, Math.floor(Number(value) || 0)) }
+      }
+    }));
+  };
+
+  const updateExtraKeys = (providerId: string, update: (keys: ApiKeyEntry[]) => ApiKeyEntry[]) => {
+    setLocalSettings(p => ({
+      ...p,
+      extraApiKeys: { ...p.extraApiKeys, [providerId]: update(p.extraApiKeys?.[providerId] || []) }
+    }));
+  };
+
+  const addExtraKey = (providerId: string) => {
+    updateExtraKeys(providerId, keys => [...keys, { id: generateId(), label: `Key ${keys.length + 2}`, key: '' }]);
+  };
+
+  const updateExtraKey = (providerId: string, id: string, updates: Partial<ApiKeyEntry>) => {
+    updateExtraKeys(providerId, keys => keys.map(entry => entry.id === id ? { ...entry, ...updates } : entry));
+  };
+
+  const removeExtraKey = (providerId: string, id: string) => {
+    updateExtraKeys(providerId, keys => keys.filter(entry => entry.id !== id));
+  };
+
+  const renderKeyHealth = (keyId: string) => {
+    const health = apiKeyPool.getHealth(keyId);
+    const cooldown = apiKeyPool.getCooldown(keyId);
+    if (!health.successes && !health.failures) return null;
+
+    return (
+      <span className="text-xs text-gray-500 shrink-0" title={health.lastError ? `Last error: ${health.lastError}` : undefined}>
+        <span className="text-green-400">✓ {health.successes}</span>
+        {' · '}
+        <span className={health.failures ? 'text-red-400' : ''}>✗ {health.failures}</span>
+        {cooldown > 0 && <span className="text-yellow-400"> · cooling {Math.ceil(cooldown / 60000)}m</span>}
+      </span>
+    );
+  };
 
   const handleSave = () => { 
-    onSaveSettings(localSettings); 
+    // The custom endpoint has no model list, so keep the selection in sync with the typed name
+    const customModel = localSettings.customModel?.trim();
+    const nextSettings = localSettings.selectedProvider === 'custom' && customModel
+      ? { ...localSettings, selectedModel: customModel }
+      : localSettings;
+    onSaveSettings(nextSettings); 
     onClose(); 
   };
 
   const handleExportData = () => {
+    // Keys never leave in plain text; a vault travels in its encrypted form
     const data = { 
       books: storageUtils.getBooks(), 
-      settings: storageUtils.getSettings(),
+      settings: keyVault.stripSecrets(storageUtils.getSettings()),
+      keyVault: keyVault.getRecord() || undefined,
       exportDate: new Date().toISOString(),
       version: '1.0.0'
     };
@@ -69,7 +294,9 @@ export function SettingsModal({ isOpen, onClose, settings, onSaveSettings }: Set
       try {
         const importData = JSON.parse(e.target?.result as string);
         const existingBooks = storageUtils.getBooks();
-        const existingSettings = storageUtils.getSettings();
+        // The stored copy has its keys blanked while the vault is on; these are the decrypted ones.
+        // A locked vault is never resealed on save, so its encrypted keys are left as they are.
+        const existingSettings = settings;
         
         const duplicateBooks = importData.books ? 
           importData.books.filter((importBook: any) => 
@@ -82,6 +309,7 @@ export function SettingsModal({ isOpen, onClose, settings, onSaveSettings }: Set
         setImportPreview({
           books: importData.books || [],
           settings: importData.settings || existingSettings,
+          keyVault: importData.keyVault,
           conflicts: {
             duplicateBooks,
             settingsConflict
@@ -102,13 +330,19 @@ export function SettingsModal({ isOpen, onClose, settings, onSaveSettings }: Set
     try {
       if (mode === 'replace') {
         storageUtils.saveBooks(importPreview.books);
+        // Backups without a vault (older ones may hold plain keys) replace it too
+        if (!importPreview.keyVault || !keyVault.importRecord(importPreview.keyVault)) {
+          keyVault.disable();
+        }
         if (importPreview.settings) {
           setLocalSettings(importPreview.settings);
           storageUtils.saveSettings(importPreview.settings);
         }
       } else {
         const existingBooks = storageUtils.getBooks();
-        const existingSettings = storageUtils.getSettings();
+        // The stored copy has its keys blanked while the vault is on; these are the decrypted ones.
+        // A locked vault is never resealed on save, so its encrypted keys are left as they are.
+        const existingSettings = settings;
         
         const mergedBooks = [...existingBooks];
         importPreview.books.forEach(importBook => {
@@ -145,9 +379,10 @@ export function SettingsModal({ isOpen, onClose, settings, onSaveSettings }: Set
     }
   };
 
-  const handleClearData = () => {
+  const handleClearData = async () => {
     if (window.confirm('This will permanently delete all books and settings. This action cannot be undone. Are you sure?')) {
       storageUtils.clearAllData();
+      await responseCache.clear().catch(error => console.error('Failed to clear response cache:', error));
       alert('All data has been cleared. The app will now reload.');
       window.location.reload();
     }
@@ -169,32 +404,16 @@ export function SettingsModal({ isOpen, onClose, settings, onSaveSettings }: Set
     </button>
   );
 
-  const apiConfigs = [
-    {
-      id: 'googleApiKey' as keyof APISettings,
-      name: 'Google AI',
-      url: 'https://aistudio.google.com/app/apikey',
-      description: 'For Gemini models (recommended for most users)'
-    },
-    {
-      id: 'mistralApiKey' as keyof APISettings,
-      name: 'Mistral AI',
-      url: 'https://console.mistral.ai/api-keys',
-      description: 'For Mistral and Mixtral models'
-    },
-    {
-      id: 'zhipuApiKey' as keyof APISettings,
-      name: 'ZhipuAI',
-      url: 'https://open.bigmodel.cn/usercenter/apikeys',
-      description: 'For GLM models (Chinese AI provider)'
-    },
-    {
-      id: 'groqApiKey' as keyof APISettings,
-      name: 'Groq',
-      url: 'https://console.groq.com/keys',
-      description: 'For Llama, GPT OSS, and Kimi models'
-    }
-  ];
+  const apiConfigs = providerRegistry.list()
+    .filter(adapter => adapter.apiKeyField)
+    .map(adapter => ({
+      id: adapter.apiKeyField!,
+      providerId: adapter.id,
+      name: adapter.name,
+      url: adapter.apiKeyUrl,
+      description: adapter.description,
+      optional: !adapter.capabilities.requiresApiKey
+    }));
 
   return (
     <>
@@ -212,8 +431,10 @@ export function SettingsModal({ isOpen, onClose, settings, onSaveSettings }: Set
           </div>
 
           {/* Tabs */}
-          <div className="p-2 grid grid-cols-3 gap-2 border-b border-[var(--color-border)]">
+          <div className="p-2 grid grid-cols-5 gap-2 border-b border-[var(--color-border)]">
             <TabButton id="keys" label="API Keys" Icon={Shield} />
+            <TabButton id="routing" label="Routing" Icon={Route} />
+            <TabButton id="prompts" label="Prompts" Icon={MessageSquareText} />
             <TabButton id="data" label="Data" Icon={Database} />
             <TabButton id="about" label="About" Icon={HelpCircle} />
           </div>
@@ -234,6 +455,46 @@ export function SettingsModal({ isOpen, onClose, settings, onSaveSettings }: Set
                     </p>
                   </div>
 
+                  {/* Passphrase vault for the keys below */}
+                  <div className="bg-[var(--color-bg)] border border-[var(--color-border)] rounded-lg p-4 space-y-3">
+                    <div className="flex items-center gap-2">
+                      {vaultState === 'locked' ? <Lock size={16} className="text-yellow-400" /> : <Unlock size={16} className="text-gray-400" />}
+                      <h4 className="font-semibold text-white">Key Vault</h4>
+                      {vaultState === 'unlocked' && <span className="text-xs bg-green-500/20 text-green-400 px-2 py-0.5 rounded">Encrypted</span>}
+                      {vaultState === 'locked' && <span className="text-xs bg-yellow-500/20 text-yellow-400 px-2 py-0.5 rounded">Locked</span>}
+                    </div>
+                    {vaultState === 'off' && (
+                      <>
+                        <p className="text-xs text-gray-500">
+                          Encrypt your saved keys with a passphrase (PBKDF2 + AES-GCM). You'll enter it once each time you open Pustakam.
+                        </p>
+                        <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                          <input type="password" value={vaultPassphrase} onChange={e => setVaultPassphrase(e.target.value)} placeholder="Passphrase" className="input-style" />
+                          <input type="password" value={vaultConfirm} onChange={e => setVaultConfirm(e.target.value)} placeholder="Confirm passphrase" className="input-style" />
+                        </div>
+                        <button onClick={handleEnableVault} disabled={vaultBusy || !vaultPassphrase} className="btn btn-secondary w-full">
+                          <Lock size={14} /> Encrypt Saved Keys
+                        </button>
+                      </>
+                    )}
+                    {vaultState === 'locked' && (
+                      <>
+                        <p className="text-xs text-gray-500">Unlock the vault to use or edit your keys. There is no way to recover a forgotten passphrase.</p>
+                        <div className="flex gap-2">
+                          <input type="password" value={vaultPassphrase} onChange={e => setVaultPassphrase(e.target.value)} onKeyDown={e => e.key === 'Enter' && handleUnlockVault()} placeholder="Passphrase" className="input-style flex-1" />
+                          <button onClick={handleUnlockVault} disabled={vaultBusy || !vaultPassphrase} className="btn btn-secondary">Unlock</button>
+                        </div>
+                      </>
+                    )}
+                    {vaultState === 'unlocked' && (
+                      <div className="flex items-center justify-between gap-3">
+                        <p className="text-xs text-gray-500">Keys are stored encrypted and re-sealed whenever you save.</p>
+                        <button onClick={handleDisableVault} className="text-xs text-red-400 hover:text-red-300 shrink-0">Remove encryption</button>
+                      </div>
+                    )}
+                    {vaultError && <p className="text-xs text-red-400">{vaultError}</p>}
+                  </div>
+
                   {/* Current Model Selection */}
                   <div className="bg-[var(--color-bg)] border border-[var(--color-border)] rounded-lg p-4">
                     <h4 className="font-semibold mb-2 text-white">Current Selection</h4>
@@ -251,9 +512,11 @@ export function SettingsModal({ isOpen, onClose, settings, onSaveSettings }: Set
                         <div className="flex items-center justify-between">
                           <label htmlFor={api.id} className="text-sm font-medium text-gray-300 flex items-center gap-2">
                             {api.name} 
-                            <a href={api.url} target="_blank" rel="noopener noreferrer" className="text-blue-400 hover:text-blue-300" title="Get API Key">
-                              <ExternalLink size={12} />
-                            </a>
+                            {api.url && (
+                              <a href={api.url} target="_blank" rel="noopener noreferrer" className="text-blue-400 hover:text-blue-300" title="Get API Key">
+                                <ExternalLink size={12} />
+                              </a>
+                            )}
                             {hasKey && <span className="text-xs bg-green-500/20 text-green-400 px-2 py-0.5 rounded">Connected</span>}
                           </label>
                         </div>
@@ -263,9 +526,10 @@ export function SettingsModal({ isOpen, onClose, settings, onSaveSettings }: Set
                           <input 
                             id={api.id} 
                             type={visibleApis[api.id] ? 'text' : 'password'} 
-                            value={localSettings[api.id] as string} 
+                            value={(localSettings[api.id] as string) || ''} 
                             onChange={e => setLocalSettings(p => ({ ...p, [api.id]: e.target.value }))} 
-                            placeholder={`Enter your ${api.name} API key`} 
+                            disabled={vaultState === 'locked'}
+                            placeholder={vaultState === 'locked' ? 'Unlock the vault to edit' : api.optional ? `${api.name} API key (optional)` : `Enter your ${api.name} API key`} 
                             className="input-style pl-9 pr-10" 
                           />
                           <button 
@@ -277,13 +541,340 @@ export function SettingsModal({ isOpen, onClose, settings, onSaveSettings }: Set
                             {visibleApis[api.id] ? <EyeOff size={16} /> : <Eye size={16} />}
                           </button>
                         </div>
+                        {hasKey && <div className="flex justify-end">{renderKeyHealth(`${api.providerId}:primary`)}</div>}
+
+                        {/* Extra keys rotate with the primary one */}
+                        {(localSettings.extraApiKeys?.[api.providerId] || []).map(entry => (
+                          <div key={entry.id} className="flex items-center gap-2">
+                            <input 
+                              type="text" 
+                              value={entry.label} 
+                              onChange={e => updateExtraKey(api.providerId, entry.id, { label: e.target.value })} 
+                              disabled={vaultState === 'locked'}
+                              placeholder="Label" 
+                              className="input-style w-24 shrink-0" 
+                            />
+                            <input 
+                              type={visibleApis[entry.id] ? 'text' : 'password'} 
+                              value={entry.key} 
+                              onChange={e => updateExtraKey(api.providerId, entry.id, { key: e.target.value })} 
+                              disabled={vaultState === 'locked'}
+                              placeholder={`Another ${api.name} API key`} 
+                              className="input-style flex-1 min-w-0" 
+                            />
+                            {renderKeyHealth(entry.id)}
+                            <button 
+                              type="button" 
+                              onClick={() => setVisibleApis(p => ({...p, [entry.id]: !p[entry.id]}))} 
+                              className="p-1 text-gray-400 hover:text-white transition-colors" 
+                              title="Toggle visibility"
+                            >
+                              {visibleApis[entry.id] ? <EyeOff size={14} /> : <Eye size={14} />}
+                            </button>
+                            <button 
+                              type="button" 
+                              onClick={() => removeExtraKey(api.providerId, entry.id)} 
+                              className="p-1 text-gray-400 hover:text-red-400 transition-colors" 
+                              title="Remove key"
+                            >
+                              <Trash2 size={14} />
+                            </button>
+                          </div>
+                        ))}
+                        {hasKey && vaultState !== 'locked' && (
+                          <button 
+                            type="button" 
+                            onClick={() => addExtraKey(api.providerId)} 
+                            className="text-xs text-blue-400 hover:text-blue-300 flex items-center gap-1"
+                            title="Keys are used in turn; one that hits a rate limit or quota sits out until it recovers"
+                          >
+                            <Plus size={12} /> Add another key
+                          </button>
+                        )}
                       </div>
                     );
                   })}
+
+                  {/* Custom OpenAI-compatible endpoint */}
+                  <div className="bg-[var(--color-bg)] border border-[var(--color-border)] rounded-lg p-4 space-y-3">
+                    <div className="flex items-center gap-2">
+                      <Server size={16} className="text-gray-400" />
+                      <h4 className="font-semibold text-white">Custom Endpoint</h4>
+                      {providerRegistry.isConfigured(localSettings, 'custom') && <span className="text-xs bg-green-500/20 text-green-400 px-2 py-0.5 rounded">Ready</span>}
+                    </div>
+                    <p className="text-xs text-gray-500">
+                      Point Pustakam at a server that exposes <code>/v1/chat/completions</code>. Requests go straight from your browser to this URL.
+                    </p>
+                    <div className="space-y-2">
+                      <label htmlFor="customBaseUrl" className="text-sm font-medium text-gray-300">Base URL</label>
+                      <input 
+                        id="customBaseUrl" 
+                        type="text" 
+                        value={localSettings.customBaseUrl || ''} 
+                        onChange={e => setLocalSettings(p => ({ ...p, customBaseUrl: e.target.value }))} 
+                        placeholder="http://localhost:11434/v1" 
+                        className="input-style" 
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <label htmlFor="customModel" className="text-sm font-medium text-gray-300">Model Name</label>
+                      <input 
+                        id="customModel" 
+                        type="text" 
+                        value={localSettings.customModel || ''} 
+                        onChange={e => setLocalSettings(p => ({ ...p, customModel: e.target.value }))} 
+                        placeholder="e.g., llama3.1:8b" 
+                        className="input-style" 
+                      />
+                    </div>
+                  </div>
+
+                  {/* Mock provider for offline demos */}
+                  <div className="bg-[var(--color-bg)] border border-[var(--color-border)] rounded-lg p-4 space-y-3">
+                    <label className="flex items-center gap-3 cursor-pointer">
+                      <input 
+                        type="checkbox" 
+                        checked={mockSettings.enabled} 
+                        onChange={e => updateMockSettings({ enabled: e.target.checked })} 
+                        className="w-4 h-4 accent-blue-500" 
+                      />
+                      <FlaskConical size={16} className="text-gray-400" />
+                      <span className="font-semibold text-white">Mock Provider</span>
+                    </label>
+                    <p className="text-xs text-gray-500">
+                      Streams canned, deterministic books with no network or key. Useful for demos and for testing retry, pause and skip.
+                    </p>
+                    {mockSettings.enabled && (
+                      <div className="grid grid-cols-1 sm:grid-cols-3 gap-3 animate-fade-in">
+                        <div className="space-y-1">
+                          <label htmlFor="mockDelay" className="text-xs font-medium text-gray-300">Chunk delay (ms)</label>
+                          <input 
+                            id="mockDelay" 
+                            type="number" 
+                            min={0} 
+                            value={mockSettings.chunkDelayMs} 
+                            onChange={e => updateMockSettings({ chunkDelayMs: Math.max(0, Number(e.target.value) || 0) })} 
+                            className="input-style" 
+                          />
+                        </div>
+                        <div className="space-y-1">
+                          <label htmlFor="mockFailureMode" className="text-xs font-medium text-gray-300">Inject failure</label>
+                          <select 
+                            id="mockFailureMode" 
+                            value={mockSettings.failureMode} 
+                            onChange={e => updateMockSettings({ failureMode: e.target.value as MockProviderSettings['failureMode'] })} 
+                            className="input-style"
+                          >
+                            <option value="none">None</option>
+                            <option value="rate_limit">429 rate limit</option>
+                            <option value="timeout">Timeout</option>
+                            <option value="short_content">Short content</option>
+                            <option value="truncated">Truncated (max tokens)</option>
+                          </select>
+                        </div>
+                        <div className="space-y-1">
+                          <label htmlFor="mockFailures" className="text-xs font-medium text-gray-300">Failures per chapter</label>
+                          <input 
+                            id="mockFailures" 
+                            type="number" 
+                            min={0} 
+                            value={mockSettings.failuresPerChapter} 
+                            onChange={e => updateMockSettings({ failuresPerChapter: Math.max(0, Number(e.target.value) || 0) })} 
+                            className="input-style" 
+                          />
+                        </div>
+                        <p className="sm:col-span-3 text-xs text-gray-500">
+                          Each request retries up to 3 times on its own, so use 3 or more failures to reach the fallback chain or retry prompt.
+                        </p>
+                      </div>
+                    )}
+                  </div>
+                </div>
+              </div>
+            )}
+
+            {/* Routing Tab */}
+            {activeTab === 'routing' && (
+              <div className="space-y-6 animate-fade-in">
+                <div className="space-y-4">
+                  <h3 className="text-lg font-semibold text-white">Model Routing</h3>
+                  <div className="bg-blue-500/10 border border-blue-500/20 rounded-lg p-4">
+                    <p className="text-sm text-blue-300 mb-2">
+                      Choose a model for each generation stage. Stages left on default use the model picked in the header.
+                    </p>
+                    <p className="text-xs text-gray-400">
+                      New books keep the routing they were created with, so resuming a book uses the same models.
+                    </p>
+                  </div>
+
+                  {routingStages.map(stage => (
+                    <div key={stage.id} className="space-y-2">
+                      <label className="text-sm font-medium text-gray-300">{stage.label}</label>
+                      <p className="text-xs text-gray-500">{stage.description}</p>
+                      <CustomSelect 
+                        value={getRoutingValue(stage.id)} 
+                        onChange={value => updateRouting(stage.id, value)} 
+                        options={getRoutingOptions(stage.id)} 
+                      />
+                    </div>
+                  ))}
+                </div>
+
+                <div className="space-y-2">
+                  <h3 className="text-lg font-semibold text-white">Parallel Chapters</h3>
+                  <p className="text-sm text-gray-400">
+                    Write several chapters at once on providers with generous rate limits. Chapters whose predecessors are still being written get the planned objectives as context instead.
+                  </p>
+                  <CustomSelect 
+                    value={String(localSettings.moduleConcurrency || 1)} 
+                    onChange={value => setLocalSettings(p => ({ ...p, moduleConcurrency: Number(value) }))} 
+                    options={[1, 2, 3, 4].map(n => ({ value: String(n), label: n === 1 ? '1 chapter at a time' : `${n} chapters at a time` }))} 
+                  />
+                  {fallbackPolicy.mode === 'interactive' && (localSettings.moduleConcurrency || 1) > 1 && (
+                    <p className="text-xs text-yellow-400">Ask-me-each-time retries run one chapter at a time.</p>
+                  )}
+                </div>
+
+                <div className="space-y-3">
+                  <h3 className="text-lg font-semibold text-white">Rate Limits</h3>
+                  <p className="text-sm text-gray-400">
+                    Every call to a provider waits its turn so roadmap, chapter and assembly requests stay under these limits. Use 0 for no limit. Defaults match each provider's free tier.
+                  </p>
+                  {providerRegistry.list()
+                    .filter(adapter => providerRegistry.isConfigured(localSettings, adapter.id))
+                    .map(adapter => {
+                      const limit = providerRegistry.getRateLimit(localSettings, adapter.id);
+                      return (
+                        <div key={adapter.id} className="grid grid-cols-3 gap-3 items-end">
+                          <span className="text-sm font-medium text-gray-300 pb-2">{adapter.name}</span>
+                          <div className="space-y-1">
+                            <label htmlFor={`rpm-${adapter.id}`} className="text-xs font-medium text-gray-400">Requests / min</label>
+                            <input 
+                              id={`rpm-${adapter.id}`} 
+                              type="number" 
+                              min={0} 
+                              value={limit.requestsPerMinute} 
+                              onChange={e => updateRateLimit(adapter.id, 'requestsPerMinute', e.target.value)} 
+                              className="input-style" 
+                            />
+                          </div>
+                          <div className="space-y-1">
+                            <label htmlFor={`tpm-${adapter.id}`} className="text-xs font-medium text-gray-400">Tokens / min</label>
+                            <input 
+                              id={`tpm-${adapter.id}`} 
+                              type="number" 
+                              min={0} 
+                              step={1000} 
+                              value={limit.tokensPerMinute} 
+                              onChange={e => updateRateLimit(adapter.id, 'tokensPerMinute', e.target.value)} 
+                              className="input-style" 
+                            />
+                          </div>
+                        </div>
+                      );
+                    })}
+                </div>
+
+                <div className="space-y-4">
+                  <h3 className="text-lg font-semibold text-white">When a Chapter Fails</h3>
+                  <p className="text-sm text-gray-400">
+                    Automatic mode retries each model below in order and keeps going without waiting for you, so long runs can finish unattended.
+                  </p>
+
+                  <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+                    <div className="space-y-1">
+                      <label htmlFor="fallbackMode" className="text-xs font-medium text-gray-300">Mode</label>
+                      <select 
+                        id="fallbackMode" 
+                        value={fallbackPolicy.mode} 
+                        onChange={e => updateFallbackPolicy({ mode: e.target.value as FallbackPolicy['mode'] })} 
+                        className="input-style"
+                      >
+                        <option value="automatic">Automatic fallback</option>
+                        <option value="interactive">Ask me each time</option>
+                      </select>
+                    </div>
+                    <div className="space-y-1">
+                      <label htmlFor="fallbackAttempts" className="text-xs font-medium text-gray-300">Attempts per model</label>
+                      <input 
+                        id="fallbackAttempts" 
+                        type="number" 
+                        min={1} 
+                        max={10} 
+                        disabled={fallbackPolicy.mode !== 'automatic'} 
+                        value={fallbackPolicy.maxAttemptsPerModel} 
+                        onChange={e => updateFallbackPolicy({ maxAttemptsPerModel: Math.min(10, Math.max(1, Number(e.target.value) || 1)) })} 
+                        className="input-style" 
+                      />
+                    </div>
+                    <div className="space-y-1">
+                      <label htmlFor="fallbackExhausted" className="text-xs font-medium text-gray-300">If every model fails</label>
+                      <select 
+                        id="fallbackExhausted" 
+                        value={fallbackPolicy.onExhausted} 
+                        disabled={fallbackPolicy.mode !== 'automatic'} 
+                        onChange={e => updateFallbackPolicy({ onExhausted: e.target.value as FallbackPolicy['onExhausted'] })} 
+                        className="input-style"
+                      >
+                        <option value="skip">Skip the chapter</option>
+                        <option value="stop">Stop generation</option>
+                      </select>
+                    </div>
+                  </div>
+
+                  {fallbackPolicy.mode === 'automatic' && (
+                    <div className="space-y-2 animate-fade-in">
+                      <label className="text-sm font-medium text-gray-300">Fallback models</label>
+                      <p className="text-xs text-gray-500">
+                        Tried after the chapter model. Models whose provider is no longer configured are passed over.
+                      </p>
+                      {fallbackPolicy.chain.map((target, index) => (
+                        <div key={`${target.provider}-${target.model}-${index}`} className="flex items-center gap-2 bg-[var(--color-bg)] border border-[var(--color-border)] rounded-lg px-3 py-2">
+                          <span className="text-xs text-gray-500 w-4">{index + 1}</span>
+                          <span className="flex-1 text-sm text-gray-300 truncate">
+                            {providerRegistry.get(target.provider)?.name || target.provider} • {target.model}
+                          </span>
+                          <button onClick={() => moveFallbackTarget(index, -1)} disabled={index === 0} className="p-1 text-gray-400 hover:text-white disabled:opacity-30" title="Move up">
+                            <ArrowUp size={14} />
+                          </button>
+                          <button onClick={() => moveFallbackTarget(index, 1)} disabled={index === fallbackPolicy.chain.length - 1} className="p-1 text-gray-400 hover:text-white disabled:opacity-30" title="Move down">
+                            <ArrowDown size={14} />
+                          </button>
+                          <button onClick={() => removeFallbackTarget(index)} className="p-1 text-gray-400 hover:text-red-400" title="Remove">
+                            <Trash2 size={14} />
+                          </button>
+                        </div>
+                      ))}
+                      <CustomSelect 
+                        value="" 
+                        onChange={addFallbackTarget} 
+                        options={getModelOptions()} 
+                        placeholder="Add a fallback model…" 
+                      />
+                    </div>
+                  )}
                 </div>
               </div>
             )}
 
+            {/* Prompts Tab */}
+            {activeTab === 'prompts' && (
+              <div className="space-y-4 animate-fade-in">
+                <div>
+                  <h3 className="text-lg font-semibold text-white">Prompt Templates</h3>
+                  <p className="text-sm text-gray-400 mt-1">
+                    The instructions sent to the model at each stage. Changes apply to every book unless the book has its own templates.
+                  </p>
+                </div>
+                <PromptTemplateEditor
+                  templates={localSettings.promptTemplates || {}}
+                  onChange={promptTemplates => setLocalSettings(p => ({ ...p, promptTemplates }))}
+                  inheritedLabel="default"
+                  books={storageUtils.getBooks()}
+                />
+              </div>
+            )}
+
             {/* Data Tab */}
             {activeTab === 'data' && (
               <div className="space-y-6 animate-fade-in">
@@ -314,6 +905,44 @@ export function SettingsModal({ isOpen, onClose, settings, onSaveSettings }: Set
                   </div>
                 </div>
 
+                {/* Response Cache */}
+                <div className="bg-[var(--color-bg)] border border-[var(--color-border)] rounded-lg p-4 space-y-3">
+                  <div className="flex items-center justify-between">
+                    <h4 className="font-semibold text-white">Response Cache</h4>
+                    <span className="text-xs text-gray-400">
+                      {cacheEntries ? `${cacheEntries.length} responses • ${(cacheBytes / 1024).toFixed(1)} KB` : 'Loading...'}
+                    </span>
+                  </div>
+                  <p className="text-xs text-gray-500">
+                    Roadmaps, introductions, summaries and glossaries are kept in IndexedDB so identical requests aren't paid for twice. Turn it off per book from the book's assembly step.
+                  </p>
+                  <CustomSelect 
+                    value={String(localSettings.responseCacheLimitMB ?? DEFAULT_CACHE_LIMIT_MB)} 
+                    onChange={value => setLocalSettings(p => ({ ...p, responseCacheLimitMB: Number(value) }))} 
+                    options={[10, 25, 50, 100].map(mb => ({ value: String(mb), label: `Keep up to ${mb} MB` }))} 
+                  />
+                  {cacheEntries && cacheEntries.length > 0 && (
+                    <div className="max-h-40 overflow-y-auto divide-y divide-[var(--color-border)] text-xs">
+                      {cacheEntries.map(entry => (
+                        <div key={entry.key} className="flex items-center justify-between gap-3 py-1.5">
+                          <div className="min-w-0">
+                            <div className="text-gray-300 capitalize">{entry.stage}</div>
+                            <div className="text-gray-500 truncate">{providerRegistry.get(entry.provider)?.name || entry.provider} • {entry.model}</div>
+                          </div>
+                          <div className="text-right text-gray-500 shrink-0">
+                            <div>{(entry.size / 1024).toFixed(1)} KB</div>
+                            <div>{new Date(entry.lastUsedAt).toLocaleDateString()}</div>
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                  <button onClick={handleClearCache} disabled={!cacheEntries?.length} className="btn btn-secondary w-full">
+                    <Trash2 size={16} />
+                    Clear Cache
+                  </button>
+                </div>
+
                 {/* Danger Zone */}
                 <div>
                   <h3 className="font-semibold mb-2 text-red-400">Danger Zone</h3>
@@ -422,6 +1051,7 @@ export function SettingsModal({ isOpen, onClose, settings, onSaveSettings }: Set
                 <div className="text-sm text-gray-300 space-y-1">
                   <div>📚 Books: <span className="font-medium">{importPreview.books.length}</span></div>
                   <div>⚙️ Settings: <span className="font-medium">{importPreview.settings ? 'Yes' : 'No'}</span></div>
+                  <div>🔒 Encrypted API keys: <span className="font-medium">{importPreview.keyVault ? 'Yes (replace only)' : 'No'}</span></div>
                 </div>
               </div>
 
@@ -1,14 +1,15 @@
 // src/components/TopHeader.tsx - COMPLETE FILE WITH FIXED DROPDOWNS
 import React, { useState, useMemo, useEffect } from 'react';
-import { Settings, Brain, Check, AlertCircle, ChevronDown, BookOpen, Trash2, Plus, Search, Clock, Sun, Moon } from 'lucide-react';
+import { Settings, Brain, Check, AlertCircle, ChevronDown, BookOpen, Trash2, Plus, Search, Clock, Sun, Moon, ListOrdered } from 'lucide-react';
 import { APISettings, ModelProvider, BookProject } from '../types';
+import { providerRegistry } from '../services/providers';
 
 // --- Helper Icons & Configs ---
 
-const GoogleIcon = ({ theme }: { theme?: 'light' | 'dark' }) => (
+const ProviderIcon = ({ src, alt, theme }: { src: string; alt: string; theme?: 'light' | 'dark' }) => (
   <img 
-    src="/gemini.svg" 
-    alt="Google AI" 
+    src={src} 
+    alt={alt} 
     className="w-5 h-5" 
     style={{ 
       filter: theme === 'light' ? 'brightness(0) saturate(100%)' : 'brightness(0) invert(1)',
@@ -16,98 +17,6 @@ const GoogleIcon = ({ theme }: { theme?: 'light' | 'dark' }) => (
     }} 
   />
 );
-const MistralIcon = ({ theme }: { theme?: 'light' | 'dark' }) => (
-  <img 
-    src="/mistral.svg" 
-    alt="Mistral AI" 
-    className="w-5 h-5" 
-    style={{ 
-      filter: theme === 'light' ? 'brightness(0) saturate(100%)' : 'brightness(0) invert(1)',
-      opacity: 0.95 
-    }} 
-  />
-);
-const ZhipuIcon = ({ theme }: { theme?: 'light' | 'dark' }) => (
-  <img 
-    src="/zhipu.svg" 
-    alt="ZhipuAI" 
-    className="w-5 h-5" 
-    style={{ 
-      filter: theme === 'light' ? 'brightness(0) saturate(100%)' : 'brightness(0) invert(1)',
-      opacity: 0.95 
-    }} 
-  />
-);
-const GroqIcon = ({ theme }: { theme?: 'light' | 'dark' }) => (
-  <img 
-    src="/groq.svg" 
-    alt="Groq" 
-    className="w-5 h-5" 
-    style={{ 
-      filter: theme === 'light' ? 'brightness(0) saturate(100%)' : 'brightness(0) invert(1)',
-      opacity: 0.95 
-    }} 
-  />
-);
-
-const modelConfig = {
-  google: {
-    name: "Google AI", 
-    icon: (props: { theme?: 'light' | 'dark' }) => <GoogleIcon {...props} />, 
-    models: [
-      { id: 'gemini-2.0-flash-lite', name: 'Gemini 2.0 Flash Lite', description: 'Fast, lightweight model' },
-      { id: 'gemini-2.5-flash-lite', name: 'Gemini 2.5 Flash Lite', description: 'Enhanced lightweight model' },
-      { id: 'gemini-2.0-flash', name: 'Gemini 2.0 Flash', description: 'Balanced speed and capability' },
-      { id: 'gemini-2.5-flash', name: 'Gemini 2.5 Flash', description: 'Latest flash model' },
-      { id: 'gemma-3-27b-it', name: 'Gemma 3 27B IT', description: 'High-quality instruction-tuned model' },
-      { id: 'gemini-2.5-pro', name: 'Gemini 2.5 Pro', description: 'Most capable model' },
-    ]
-  },
-  mistral: {
-    name: "Mistral AI", 
-    icon: (props: { theme?: 'light' | 'dark' }) => <MistralIcon {...props} />, 
-    models: [
-      { id: 'mistral-small-latest', name: 'Mistral Small', description: 'Fast and cost-effective' },
-      { id: 'mistral-medium-latest', name: 'Mistral Medium', description: 'Balanced performance' },
-      { id: 'mistral-large-latest', name: 'Mistral Large', description: 'Most powerful model' },
-      { id: 'pixtral-large-latest', name: 'Pixtral Large', description: 'Multimodal capabilities' },
-    ]
-  },
-  zhipu: { 
-    name: "ZhipuAI", 
-    icon: (props: { theme?: 'light' | 'dark' }) => <ZhipuIcon {...props} />, 
-    models: [{ id: 'glm-4.5-flash', name: 'GLM 4.5 Flash', description: 'Chinese AI model' }] 
-  },
-  groq: {
-    name: "Groq", 
-    icon: (props: { theme?: 'light' | 'dark' }) => <GroqIcon {...props} />, 
-    models: [
-      { id: 'llama-3.3-70b-versatile', name: 'Llama 3.3 70B Versatile', description: 'Powerful & versatile' },
-      { 
-        id: 'groq/compound', 
-        name: 'Compound', 
-        description: 'Advanced reasoning • Citations • Search'
-      },
-      { 
-        id: 'groq/compound-mini', 
-        name: 'Compound Mini', 
-        description: 'Fast reasoning • Citations'
-      },
-      { 
-        id: 'openai/gpt-oss-120b', 
-        name: 'GPT OSS 120B', 
-        description: 'Large OSS • Advanced reasoning'
-      },
-      { 
-        id: 'openai/gpt-oss-20b', 
-        name: 'GPT OSS 20B', 
-        description: 'Medium OSS • Reasoning support'
-      },
-      { id: 'moonshotai/kimi-k2-instruct-0905', name: 'Kimi K2 Instruct (0905)', description: 'Moonshot AI instruction model' },
-      { id: 'moonshotai/kimi-k2-instruct', name: 'Kimi K2 Instruct', description: 'Moonshot AI latest' },
-    ]
-  }
-};
 
 interface TopHeaderProps {
   settings: APISettings;
@@ -118,11 +27,13 @@ interface TopHeaderProps {
   onSelectBook: (id: string | null) => void;
   onDeleteBook: (id: string) => void;
   onNewBook: () => void;
+  queueCount: number;
+  onOpenQueue: () => void;
   theme: 'light' | 'dark';
   onToggleTheme: () => void;
 }
 
-export function TopHeader({ settings, books, currentBookId, onModelChange, onOpenSettings, onSelectBook, onDeleteBook, onNewBook, theme, onToggleTheme }: TopHeaderProps) {
+export function TopHeader({ settings, books, currentBookId, onModelChange, onOpenSettings, onSelectBook, onDeleteBook, onNewBook, queueCount, onOpenQueue, theme, onToggleTheme }: TopHeaderProps) {
   const [modelDropdownOpen, setModelDropdownOpen] = useState(false);
   const [libraryOpen, setLibraryOpen] = useState(false);
   const [searchQuery, setSearchQuery] = useState('');
@@ -137,22 +48,13 @@ export function TopHeader({ settings, books, currentBookId, onModelChange, onOpe
   const sortedBooks = useMemo(() => books.filter(book => book.title.toLowerCase().includes(searchQuery.toLowerCase()))
     .sort((a, b) => new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime()), [books, searchQuery]);
 
-  const hasApiKeyForProvider = (provider: ModelProvider): boolean => {
-    switch (provider) {
-      case 'google': return !!settings.googleApiKey;
-      case 'mistral': return !!settings.mistralApiKey;
-      case 'zhipu': return !!settings.zhipuApiKey;
-      case 'groq': return !!settings.groqApiKey;
-      default: return false;
-    }
-  };
+  const hasApiKeyForProvider = (provider: ModelProvider): boolean => providerRegistry.isConfigured(settings, provider);
 
   const { provider: currentProvider, model: currentModel } = useMemo(() => {
-    const providerKey = settings.selectedProvider as ModelProvider;
-    const provider = modelConfig[providerKey];
-    const model = provider?.models.find(m => m.id === settings.selectedModel);
+    const provider = providerRegistry.get(settings.selectedProvider);
+    const model = providerRegistry.getModels(settings, settings.selectedProvider).find(m => m.id === settings.selectedModel);
     return { provider, model };
-  }, [settings.selectedProvider, settings.selectedModel]);
+  }, [settings]);
 
   const formatTime = (date: Date) => {
     const days = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
@@ -197,24 +99,29 @@ export function TopHeader({ settings, books, currentBookId, onModelChange, onOpe
           <div className="relative">
             <button onClick={() => setModelDropdownOpen(!modelDropdownOpen)} className="flex items-center gap-2.5 px-3.5 py-2 bg-white/5 border border-white/10 rounded-lg hover:bg-white/10 hover:border-white/20 transition-all top-header-button">
               <span className="text-[var(--color-text-primary)]">
-                {currentProvider ? <currentProvider.icon theme={theme} /> : <Brain size={18} />}
+                {currentProvider?.icon ? <ProviderIcon src={currentProvider.icon} alt={currentProvider.name} theme={theme} /> : <Brain size={18} />}
               </span>
               <span className="hidden md:inline text-sm font-medium text-[var(--color-text-secondary)]">{currentModel?.name || "Select Model"}</span>
               <ChevronDown size={14} className={`text-[var(--color-text-secondary)] transition-transform ${modelDropdownOpen ? 'rotate-180' : ''}`} />
             </button>
             {modelDropdownOpen && (
               <div className="absolute top-full right-0 mt-2 w-80 bg-[var(--color-sidebar)] backdrop-blur-xl border border-[var(--color-border)] rounded-xl shadow-2xl z-50 max-h-[32rem] overflow-y-auto animate-fade-in-up model-dropdown">
-                {(Object.entries(modelConfig) as [ModelProvider, any][]).map(([provider, config]) => (
-                  <div key={provider} className="p-3 border-b border-[var(--color-border)] last:border-b-0">
+                {providerRegistry.list().map((config) => (
+                  <div key={config.id} className="p-3 border-b border-[var(--color-border)] last:border-b-0">
                     <div className="flex items-center gap-2.5 px-2 py-2 text-xs font-semibold text-[var(--color-text-secondary)] uppercase tracking-wider">
-                      <span className="text-[var(--color-text-primary)]"><config.icon theme={theme} /></span> {config.name}
-                      {!hasApiKeyForProvider(provider) && <div className="ml-auto flex items-center gap-1.5 text-red-400 normal-case"><AlertCircle size={12} /> No Key</div>}
+                      <span className="text-[var(--color-text-primary)]">{config.icon ? <ProviderIcon src={config.icon} alt={config.name} theme={theme} /> : <Brain size={18} />}</span> {config.name}
+                      {!hasApiKeyForProvider(config.id) && <div className="ml-auto flex items-center gap-1.5 text-red-400 normal-case"><AlertCircle size={12} /> {config.capabilities.requiresApiKey ? 'No Key' : 'Not Set Up'}</div>}
                     </div>
                     <div className="space-y-1 mt-2">
-                      {config.models.map((model: any) => {
-                        const isSelected = settings.selectedModel === model.id && settings.selectedProvider === provider;
+                      {providerRegistry.getModels(settings, config.id).length === 0 && (
+                        <button onClick={() => { onOpenSettings(); setModelDropdownOpen(false); }} className="w-full text-left rounded-lg p-3 text-xs text-[var(--color-text-secondary)] hover:bg-white/5 border border-transparent">
+                          Set a model name in Settings
+                        </button>
+                      )}
+                      {providerRegistry.getModels(settings, config.id).map((model) => {
+                        const isSelected = settings.selectedModel === model.id && settings.selectedProvider === config.id;
                         return (
-                          <button key={model.id} onClick={() => { if (hasApiKeyForProvider(provider)) { onModelChange(model.id, provider); setModelDropdownOpen(false); } else { onOpenSettings(); } }} disabled={!hasApiKeyForProvider(provider)} className={`w-full text-left rounded-lg transition-all p-3 ${isSelected ? 'bg-blue-500/20 border border-blue-500/40 selected' : hasApiKeyForProvider(provider) ? 'hover:bg-white/5 border border-transparent' : 'text-gray-600 cursor-not-allowed border border-transparent'}`} >
+                          <button key={model.id} onClick={() => { if (hasApiKeyForProvider(config.id)) { onModelChange(model.id, config.id); setModelDropdownOpen(false); } else { onOpenSettings(); } }} disabled={!hasApiKeyForProvider(config.id)} className={`w-full text-left rounded-lg transition-all p-3 ${isSelected ? 'bg-blue-500/20 border border-blue-500/40 selected' : hasApiKeyForProvider(config.id) ? 'hover:bg-white/5 border border-transparent' : 'text-gray-600 cursor-not-allowed border border-transparent'}`} >
                             <div className="flex justify-between items-center">
                               <div>
                                 <div className={`text-sm font-medium ${isSelected ? 'text-blue-300' : 'text-[var(--color-text-primary)]'}`}>{model.name}</div>
@@ -232,6 +139,16 @@ export function TopHeader({ settings, books, currentBookId, onModelChange, onOpe
             )}
           </div>
 
+          {/* --- Generation Queue --- */}
+          <button onClick={onOpenQueue} className="relative p-2.5 bg-white/5 border border-white/10 rounded-lg hover:bg-white/10 hover:border-white/20 transition-all top-header-button" title="Generation Queue">
+            <ListOrdered size={18} className="text-[var(--color-text-secondary)]" />
+            {queueCount > 0 && (
+              <span className="absolute -top-1.5 -right-1.5 min-w-[18px] h-[18px] px-1 flex items-center justify-center rounded-full bg-blue-500 text-[10px] font-semibold text-white">
+                {queueCount}
+              </span>
+            )}
+          </button>
+
           {/* --- Library Dropdown --- */}
           <div className="relative">
             <button onClick={() => setLibraryOpen(!libraryOpen)} className="p-2.5 bg-white/5 border border-white/10 rounded-lg hover:bg-white/10 hover:border-white/20 transition-all top-header-button" title="Library & Settings">
@@ -0,0 +1,59 @@
+// src/components/VaultUnlockModal.tsx
+import React from 'react';
+import { Lock, Loader2 } from 'lucide-react';
+import { keyVault, VaultSecrets } from '../utils/keyVault';
+
+interface VaultUnlockModalProps {
+  onUnlock: (secrets: VaultSecrets) => void;
+  onSkip: () => void;
+}
+
+export function VaultUnlockModal({ onUnlock, onSkip }: VaultUnlockModalProps) {
+  const [passphrase, setPassphrase] = React.useState('');
+  const [error, setError] = React.useState<string | null>(null);
+  const [isUnlocking, setIsUnlocking] = React.useState(false);
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!passphrase || isUnlocking) return;
+
+    setIsUnlocking(true);
+    setError(null);
+    try {
+      onUnlock(await keyVault.unlock(passphrase));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to unlock');
+      setIsUnlocking(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-60 flex items-center justify-center p-4 bg-black/80 backdrop-blur-sm animate-fade-in">
+      <form onSubmit={handleSubmit} className="bg-[var(--color-sidebar)] border border-[var(--color-border)] rounded-2xl shadow-2xl w-full max-w-md p-6 animate-fade-in-up">
+        <div className="flex items-center gap-3 mb-4">
+          <Lock size={20} className="text-blue-400" />
+          <h3 className="text-xl font-bold">Unlock API Keys</h3>
+        </div>
+        <p className="text-sm text-gray-400 mb-6">
+          Your API keys are encrypted. Enter your passphrase to use them for this session.
+        </p>
+        <input
+          type="password"
+          autoFocus
+          value={passphrase}
+          onChange={e => setPassphrase(e.target.value)}
+          placeholder="Passphrase"
+          className="input-style mb-2"
+        />
+        {error && <p className="text-sm text-red-400 mb-2">{error}</p>}
+        <div className="flex gap-3 mt-4">
+          <button type="button" onClick={onSkip} className="flex-1 btn btn-secondary">Not now</button>
+          <button type="submit" disabled={!passphrase || isUnlocking} className="flex-1 btn btn-primary flex items-center justify-center gap-2">
+            {isUnlocking && <Loader2 size={16} className="animate-spin" />}
+            Unlock
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,114 @@
+// src/services/apiKeyPool.ts
+import { ApiKeyEntry } from '../types';
+import { KeyValueStorage } from './generationProtocol';
+
+const HEALTH_KEY = 'pustakam-key-health';
+const RATE_LIMIT_COOLDOWN = 60 * 1000;
+const QUOTA_COOLDOWN = 15 * 60 * 1000;
+const INVALID_KEY_COOLDOWN = 60 * 60 * 1000;
+
+export interface ApiKeyHealth {
+  successes: number;
+  failures: number;
+  cooldownUntil: number;
+  lastError?: string;
+}
+
+const emptyHealth = (): ApiKeyHealth => ({ successes: 0, failures: 0, cooldownUntil: 0 });
+
+// How long a key sits out after a failed call; 0 means the failure wasn't the key's fault
+export function getKeyCooldown(status: number, message: string, retryAfter: number | null): number {
+  if (status === 401 || status === 403) return INVALID_KEY_COOLDOWN;
+  if (status !== 429 && !/quota|rate limit|too many requests/i.test(message)) return 0;
+  if (retryAfter !== null) return retryAfter;
+  return /quota|billing|insufficient|exhausted/i.test(message) ? QUOTA_COOLDOWN : RATE_LIMIT_COOLDOWN;
+}
+
+// Round-robin over a provider's keys, skipping any that are cooling down
+class ApiKeyPool {
+  private storage: KeyValueStorage | undefined = globalThis.localStorage;
+  private health: Record<string, ApiKeyHealth> = this.load();
+  private cursors = new Map<string, number>();
+
+  // The generation worker records health in a mirrored copy of localStorage
+  setStorage(storage: KeyValueStorage) {
+    this.storage = storage;
+    this.reload();
+  }
+
+  // Picks up counts recorded by the worker
+  reload() {
+    this.health = this.load();
+  }
+
+  private load(): Record<string, ApiKeyHealth> {
+    if (!this.storage) return {};
+    try {
+      const stored = this.storage.getItem(HEALTH_KEY);
+      return stored ? JSON.parse(stored) : {};
+    } catch (error) {
+      console.error('Error loading key health:', error);
+      return {};
+    }
+  }
+
+  private save() {
+    try {
+      this.storage?.setItem(HEALTH_KEY, JSON.stringify(this.health));
+    } catch (error) {
+      console.error('Error saving key health:', error);
+    }
+  }
+
+  getHealth(keyId: string): ApiKeyHealth {
+    return this.health[keyId] || emptyHealth();
+  }
+
+  getCooldown(keyId: string): number {
+    return Math.max(0, this.getHealth(keyId).cooldownUntil - Date.now());
+  }
+
+  hasAvailable(keys: ApiKeyEntry[]): boolean {
+    return keys.some(entry => this.getCooldown(entry.id) === 0);
+  }
+
+  pick(providerId: string, keys: ApiKeyEntry[]): ApiKeyEntry | null {
+    if (keys.length === 0) return null;
+
+    const start = this.cursors.get(providerId) || 0;
+    for (let i = 0; i < keys.length; i++) {
+      const index = (start + i) % keys.length;
+      if (this.getCooldown(keys[index].id) === 0) {
+        this.cursors.set(providerId, (index + 1) % keys.length);
+        return keys[index];
+      }
+    }
+
+    // Every key is cooling down, so use the one that recovers first
+    return keys.reduce((best, entry) => this.getCooldown(entry.id) < this.getCooldown(best.id) ? entry : best);
+  }
+
+  recordSuccess(keyId: string) {
+    const health = this.getHealth(keyId);
+    this.health[keyId] = { ...health, successes: health.successes + 1, cooldownUntil: 0 };
+    this.save();
+  }
+
+  recordFailure(keyId: string, message: string, cooldownMs = 0) {
+    const health = this.getHealth(keyId);
+    this.health[keyId] = {
+      successes: health.successes,
+      failures: health.failures + 1,
+      cooldownUntil: cooldownMs > 0 ? Math.max(health.cooldownUntil, Date.now() + cooldownMs) : health.cooldownUntil,
+      lastError: message
+    };
+    this.save();
+  }
+
+  reset(keyId: string) {
+    delete this.health[keyId];
+    this.save();
+  }
+}
+
+export const apiKeyPool = new ApiKeyPool();
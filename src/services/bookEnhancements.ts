@@ -1,5 +1,6 @@
 // src/services/bookEnhancements.ts
-import { BookProject } from '../types';
+import { BookProject, BookSession, QuizQuestionType } from '../types';
+import { ModelPricing } from './providers';
 import { generateId } from '../utils/helpers';
 
 export interface BookTemplate {
@@ -15,6 +16,7 @@ export interface BookTemplate {
   };
   estimatedModules: number;
   targetAudience: string;
+  isCustom?: boolean; // Saved by the user from one of their books
 }
 
 export interface BookAnalytics {
@@ -24,6 +26,24 @@ export interface BookAnalytics {
   topics: string[];
 }
 
+export interface ModelUsageTotals {
+  provider: string;
+  model: string;
+  calls: number;
+  promptTokens: number;
+  completionTokens: number;
+}
+
+export interface BookUsageSummary {
+  calls: number;
+  cacheHits: number; // Calls answered from the response cache, not counted in `calls`
+  promptTokens: number;
+  completionTokens: number;
+  durationMs: number;
+  estimated: boolean; // At least one call was counted from text length
+  byModel: ModelUsageTotals[];
+}
+
 export interface BookSharingOptions {
   shareableLink?: string;
   collaborators?: string[];
@@ -108,6 +128,41 @@ class BookEnhancementService {
     ];
   }
 
+  // Pre-fills the create form; the goal, reasoning and any audience the user typed are kept.
+  // An audience that came from the previously picked template is replaced.
+  applyTemplate(session: BookSession, template: BookTemplate, previous?: BookTemplate): BookSession {
+    const typedAudience = session.targetAudience?.trim() && session.targetAudience !== previous?.targetAudience;
+    return {
+      ...session,
+      targetAudience: typedAudience ? session.targetAudience : template.targetAudience,
+      preferences: { ...template.preferences },
+      templateId: template.id,
+      systemPrompt: template.systemPrompt,
+      estimatedModules: template.estimatedModules
+    };
+  }
+
+  createTemplateFromBook(book: BookProject, name: string, description?: string): BookTemplate {
+    const category: BookTemplate['category'] =
+      book.category === 'art' ? 'creative' : book.category;
+
+    return {
+      id: generateId(),
+      name,
+      description: description || `Based on "${book.title}"`,
+      category,
+      systemPrompt: book.systemPrompt || book.reasoning || '',
+      preferences: book.preferences || {
+        includeExamples: true,
+        includePracticalExercises: false,
+        includeQuizzes: false
+      },
+      estimatedModules: book.roadmap?.modules.length || book.estimatedModules || 8,
+      targetAudience: book.targetAudience || '',
+      isCustom: true
+    };
+  }
+
   // Analyze book content for metrics and insights
   analyzeBook(book: BookProject): BookAnalytics {
     if (!book.finalBook || !book.modules.length) {
@@ -154,6 +209,36 @@ class BookEnhancementService {
     };
   }
 
+  // Roll up every AI call made for the book, chapters included
+  summarizeUsage(book: BookProject): BookUsageSummary {
+    const allRecords = [...(book.usage || []), ...book.modules.flatMap(m => m.usage || [])];
+    const records = allRecords.filter(r => !r.cached);
+    const byModel = new Map<string, ModelUsageTotals>();
+
+    records.forEach(record => {
+      const key = `${record.provider}::${record.model}`;
+      const totals = byModel.get(key) || { provider: record.provider, model: record.model, calls: 0, promptTokens: 0, completionTokens: 0 };
+      totals.calls++;
+      totals.promptTokens += record.promptTokens;
+      totals.completionTokens += record.completionTokens;
+      byModel.set(key, totals);
+    });
+
+    return {
+      calls: records.length,
+      cacheHits: allRecords.length - records.length,
+      promptTokens: records.reduce((sum, r) => sum + r.promptTokens, 0),
+      completionTokens: records.reduce((sum, r) => sum + r.completionTokens, 0),
+      durationMs: records.reduce((sum, r) => sum + r.durationMs, 0),
+      estimated: records.some(r => r.estimated),
+      byModel: Array.from(byModel.values())
+    };
+  }
+
+  estimateCost(totals: ModelUsageTotals, pricing: ModelPricing): number {
+    return (totals.promptTokens * pricing.input + totals.completionTokens * pricing.output) / 1_000_000;
+  }
+
   private extractTopics(book: BookProject): string[] {
     if (!book.roadmap) return [];
     
@@ -239,8 +324,10 @@ _Use this space for your personal notes and insights_
   // Generate study materials from book content
   generateStudyMaterials(book: BookProject): {
     summary: string;
-    practiceQuestions: Array<{ question: string; type: 'multiple-choice' | 'short-answer' }>;
+    practiceQuestions: Array<{ question: string; type: QuizQuestionType }>;
   } {
+    const quizQuestions = book.modules.flatMap(m => m.quiz?.questions || []);
+
     const summary = `
 # ${book.title} - Study Summary
 
@@ -249,19 +336,25 @@ ${book.roadmap?.modules.map(m => `- ${m.objectives.join(', ')}`).join('\n') || '
 
 ## Important Topics
 ${this.analyzeBook(book).topics.map(topic => `- ${topic}`).join('\n')}
-
+${quizQuestions.length > 0 ? `
+## Practice Questions
+${quizQuestions.map((q, i) => `${i + 1}. ${q.question}`).join('\n')}
+` : ''}
     `.trim();
 
-    const practiceQuestions = [
-      {
-        question: `What are the main objectives covered in "${book.title}"?`,
-        type: 'short-answer' as const
-      },
-      {
-        question: `How would you apply the concepts from this book in a real-world scenario?`,
-        type: 'short-answer' as const
-      }
-    ];
+    // Books without chapter quizzes fall back to two general questions
+    const practiceQuestions = quizQuestions.length > 0
+      ? quizQuestions.map(q => ({ question: q.question, type: q.type }))
+      : [
+          {
+            question: `What are the main objectives covered in "${book.title}"?`,
+            type: 'short-answer' as const
+          },
+          {
+            question: `How would you apply the concepts from this book in a real-world scenario?`,
+            type: 'short-answer' as const
+          }
+        ];
 
     return { summary, practiceQuestions };
   }
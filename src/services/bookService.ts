@@ -2,12 +2,60 @@
 // FILE: src/services/bookService.ts (COMPLETE FIXED VERSION)
 // ============================================================================
 
-import { BookProject, BookRoadmap, BookModule, RoadmapModule, BookSession } from '../types/book';
-import { APISettings, ModelProvider } from '../types';
+import { BookProgressUpdate, BookProject, BookRoadmap, BookModule, ChapterRewrite, ChapterMemory, Flashcard, ModuleQuiz, RoadmapModule, BookSession, GenerationStage, ModelTarget, StageModelRouting, TokenUsage } from '../types/book';
+import { APISettings, ApiKeyEntry, FallbackPolicy, defaultFallbackPolicy } from '../types';
 import { generateId } from '../utils/helpers';
+import { countWords, getLanguage } from '../utils/languages';
+import { buildBookWithQuizzes } from '../utils/bookQuizzes';
+import { createFlashcard, findModuleForTerm, parseGlossaryEntries } from '../utils/flashcards';
+import { replaceChapterInBook, sumWords, toModuleVersion } from '../utils/chapterRevisions';
+import { providerRegistry, ProviderAdapter, ProviderError, ProviderStreamDelta, AlternativeModel, JsonSchema } from './providers';
+import { requestScheduler, parseRetryAfter } from './requestScheduler';
+import { apiKeyPool, getKeyCooldown } from './apiKeyPool';
+import { responseCache, CachedResponse, DEFAULT_CACHE_LIMIT_MB } from './responseCache';
+import { KeyValueStorage } from './generationProtocol';
+import { ROADMAP_RESPONSE_SCHEMA, OBJECTIVES_RESPONSE_SCHEMA, parseRoadmap, parseObjectives } from './roadmapSchema';
+import { JsonParseResult, buildJsonRepairPrompt } from './jsonSchema';
+import { QUIZ_RESPONSE_SCHEMA, parseQuiz } from './quizSchema';
+import { FLASHCARD_RESPONSE_SCHEMA, FlashcardDraft, parseFlashcards } from './flashcardSchema';
+import { MEMORY_RESPONSE_SCHEMA, parseMemory } from './memorySchema';
+import {
+  resolvePromptTemplate, renderPromptTemplate, buildRoadmapVariables, buildObjectivesVariables,
+  buildModuleVariables, buildRevisionVariables, buildQuizVariables, buildMemoryVariables,
+  buildFlashcardVariables, buildIntroductionVariables, buildSummaryVariables, buildGlossaryVariables
+} from './promptTemplates';
 
 const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
 
+const FALLBACK_EXHAUSTED = 'FALLBACK_EXHAUSTED';
+
+// Carries the usage of a chapter's failed attempts to the module recorded for the failure
+class ModuleGenerationError extends Error {
+  constructor(message: string, readonly usage: TokenUsage[]) {
+    super(message);
+    this.name = 'ModuleGenerationError';
+  }
+}
+
+interface GenerationResult {
+  content: string;
+  usage: TokenUsage;
+  cacheKey?: string; // Set when the response came from, or was stored in, the response cache
+}
+
+// The parts of an assembled book written by the AI around the chapters
+interface BookSections {
+  introduction: string;
+  summary: string;
+  glossary: string;
+}
+
+// Rough rule of thumb for English prose when a provider reports no usage
+const estimateTokens = (text: string) => Math.ceil(text.length / 4);
+
+// Output reserved against a provider's tokens-per-minute budget until real usage is known
+const EXPECTED_OUTPUT_TOKENS = 4000;
+
 interface GenerationCheckpoint {
   bookId: string;
   completedModuleIds: string[];
@@ -16,16 +64,23 @@ interface GenerationCheckpoint {
   lastSuccessfulIndex: number;
   timestamp: string;
   totalWordsGenerated: number;
+  partialModules?: Record<string, string>; // Text streamed so far for chapters still in flight, by roadmap module id
+  bookMemory?: Record<string, ChapterMemory>; // What each finished chapter established, by roadmap module id
+}
+
+export interface ModuleProgress {
+  id: string;
+  title: string;
+  attempt: number;
+  progress: number;
+  generatedText?: string;
+  wordCount?: number;
+  continuations?: number; // Times the model hit its output limit and was asked to keep going
 }
 
 export interface GenerationStatus {
-  currentModule?: {
-    id: string;
-    title: string;
-    attempt: number;
-    progress: number;
-    generatedText?: string;
-  };
+  currentModule?: ModuleProgress;
+  activeModules?: ModuleProgress[]; // Every module in flight when chapters run in parallel
   totalProgress: number;
   status: 'idle' | 'generating' | 'completed' | 'error' | 'paused' | 'waiting_retry';
   logMessage?: string;
@@ -50,24 +105,39 @@ class BookGenerationService {
     selectedModel: 'gemini-2.5-flash'
   };
 
-  private onProgressUpdate?: (bookId: string, updates: Partial<BookProject>) => void;
+  // Checkpoints and pause flags; the generation worker swaps in a copy mirrored to the page
+  private storage: KeyValueStorage = globalThis.localStorage;
+  private onProgressUpdate?: (bookId: string, updates: BookProgressUpdate) => void;
   private onGenerationStatusUpdate?: (bookId: string, status: GenerationStatus) => void;
   private requestTimeout = 360000;
   private activeRequests = new Map<string, AbortController>();
   private checkpoints = new Map<string, GenerationCheckpoint>();
   private currentGeneratedTexts = new Map<string, string>();
+  private partialSavedAt = new Map<string, number>();
+  private inFlightModules = new Map<string, Map<string, ModuleProgress>>();
   private userRetryDecisions = new Map<string, 'retry' | 'switch' | 'skip'>();
   
   private readonly MAX_MODULE_RETRIES = 5;
   private readonly RETRY_DELAY_BASE = 3000;
   private readonly MAX_RETRY_DELAY = 30000;
-  private readonly RATE_LIMIT_DELAY = 5000;
+  private readonly MAX_CONTINUATIONS = 3;
+  private readonly PARTIAL_SAVE_INTERVAL = 2000;
 
   updateSettings(settings: APISettings) {
     this.settings = settings;
   }
 
-  setProgressCallback(callback: (bookId: string, updates: Partial<BookProject>) => void) {
+  setStorage(storage: KeyValueStorage) {
+    this.storage = storage;
+  }
+
+  // Forgets a deleted or restarted book's checkpoint and pause flag
+  clearBookState(bookId: string) {
+    this.clearCheckpoint(bookId);
+    this.resumeGeneration(bookId);
+  }
+
+  setProgressCallback(callback: (bookId: string, updates: BookProgressUpdate) => void) {
     this.onProgressUpdate = callback;
   }
 
@@ -75,7 +145,7 @@ class BookGenerationService {
     this.onGenerationStatusUpdate = callback;
   }
 
-  private updateProgress(bookId: string, updates: Partial<BookProject>) {
+  private updateProgress(bookId: string, updates: BookProgressUpdate) {
     if (this.onProgressUpdate) {
       this.onProgressUpdate(bookId, { ...updates, updatedAt: new Date() });
     }
@@ -87,12 +157,22 @@ class BookGenerationService {
     }
   }
 
-  private getCurrentGeneratedText(bookId: string): string {
-    return this.currentGeneratedTexts.get(bookId) || '';
+  private trackModuleProgress(bookId: string, progress: ModuleProgress): ModuleProgress[] {
+    const modules = this.inFlightModules.get(bookId) || new Map<string, ModuleProgress>();
+    modules.set(progress.id, progress);
+    this.inFlightModules.set(bookId, modules);
+    return Array.from(modules.values());
+  }
+
+  private untrackModule(bookId: string, moduleId: string): ModuleProgress[] {
+    const modules = this.inFlightModules.get(bookId);
+    modules?.delete(moduleId);
+    return modules ? Array.from(modules.values()) : [];
   }
 
-  private clearCurrentGeneratedText(bookId: string): void {
-    this.currentGeneratedTexts.delete(bookId);
+  private getInFlightWords(bookId: string): number {
+    const modules = this.inFlightModules.get(bookId);
+    return modules ? Array.from(modules.values()).reduce((sum, m) => sum + (m.wordCount || 0), 0) : 0;
   }
 
   private saveCheckpoint(
@@ -101,7 +181,8 @@ class BookGenerationService {
     failedModuleIds: string[], 
     lastIndex: number,
     moduleRetryCount: Record<string, number> = {},
-    totalWordsGenerated: number = 0
+    totalWordsGenerated: number = 0,
+    bookMemory?: Record<string, ChapterMemory>
   ) {
     const checkpoint: GenerationCheckpoint = {
       bookId,
@@ -110,13 +191,15 @@ class BookGenerationService {
       moduleRetryCount,
       lastSuccessfulIndex: lastIndex,
       timestamp: new Date().toISOString(),
-      totalWordsGenerated
+      totalWordsGenerated,
+      partialModules: this.checkpoints.get(bookId)?.partialModules,
+      bookMemory
     };
     
     this.checkpoints.set(bookId, checkpoint);
     
     try {
-      localStorage.setItem(`checkpoint_${bookId}`, JSON.stringify(checkpoint));
+      this.storage.setItem(`checkpoint_${bookId}`, JSON.stringify(checkpoint));
       console.log(`✓ Checkpoint saved: ${completedModuleIds.length} completed, ${failedModuleIds.length} failed`);
     } catch (error) {
       console.warn('Failed to save checkpoint to localStorage:', error);
@@ -129,7 +212,7 @@ class BookGenerationService {
     }
     
     try {
-      const stored = localStorage.getItem(`checkpoint_${bookId}`);
+      const stored = this.storage.getItem(`checkpoint_${bookId}`);
       if (stored) {
         const checkpoint: GenerationCheckpoint = JSON.parse(stored);
         
@@ -149,10 +232,40 @@ class BookGenerationService {
     return null;
   }
 
+  // Written while a chapter streams, so a reload or crash can continue the text instead of restarting it
+  private savePartialText(bookId: string, moduleId: string, text: string | null) {
+    if (!text && !this.getPartialText(bookId, moduleId)) return;
+
+    const checkpoint: GenerationCheckpoint = this.loadCheckpoint(bookId) || {
+      bookId,
+      completedModuleIds: [],
+      failedModuleIds: [],
+      moduleRetryCount: {},
+      lastSuccessfulIndex: -1,
+      timestamp: '',
+      totalWordsGenerated: 0
+    };
+    const partialModules = { ...checkpoint.partialModules };
+    if (text) partialModules[moduleId] = text;
+    else delete partialModules[moduleId];
+
+    const next = { ...checkpoint, partialModules, timestamp: new Date().toISOString() };
+    this.checkpoints.set(bookId, next);
+    try {
+      this.storage.setItem(`checkpoint_${bookId}`, JSON.stringify(next));
+    } catch (error) {
+      console.warn('Failed to save partial chapter:', error);
+    }
+  }
+
+  private getPartialText(bookId: string, moduleId: string): string {
+    return this.loadCheckpoint(bookId)?.partialModules?.[moduleId] || '';
+  }
+
   private clearCheckpoint(bookId: string) {
     this.checkpoints.delete(bookId);
     try {
-      localStorage.removeItem(`checkpoint_${bookId}`);
+      this.storage.removeItem(`checkpoint_${bookId}`);
       console.log('✓ Checkpoint cleared');
     } catch (error) {
       console.warn('Failed to clear checkpoint:', error);
@@ -161,7 +274,7 @@ class BookGenerationService {
 
   pauseGeneration(bookId: string) {
     try {
-      localStorage.setItem(`pause_flag_${bookId}`, 'true');
+      this.storage.setItem(`pause_flag_${bookId}`, 'true');
       console.log('⏸ Pause flag set for book:', bookId);
     } catch (error) {
       console.warn('Failed to set pause flag:', error);
@@ -176,7 +289,7 @@ class BookGenerationService {
 
   resumeGeneration(bookId: string) {
     try {
-      localStorage.removeItem(`pause_flag_${bookId}`);
+      this.storage.removeItem(`pause_flag_${bookId}`);
       console.log('▶ Pause flag cleared for book:', bookId);
     } catch (error) {
       console.warn('Failed to clear pause flag:', error);
@@ -185,7 +298,7 @@ class BookGenerationService {
 
   isPaused(bookId: string): boolean {
     try {
-      const pauseFlag = localStorage.getItem(`pause_flag_${bookId}`);
+      const pauseFlag = this.storage.getItem(`pause_flag_${bookId}`);
       return pauseFlag === 'true';
     } catch (error) {
       console.warn('Failed to check pause flag:', error);
@@ -193,31 +306,41 @@ class BookGenerationService {
     }
   }
 
-  validateSettings(): { isValid: boolean; errors: string[] } {
+  validateSettings(target: ModelTarget = this.getDefaultModelTarget()): { isValid: boolean; errors: string[] } {
     const errors: string[] = [];
-    if (!this.settings.selectedProvider) errors.push('No AI provider selected');
-    if (!this.settings.selectedModel) errors.push('No model selected');
-    const apiKey = this.getApiKeyForProvider(this.settings.selectedProvider);
-    if (!apiKey) errors.push(`No API key configured for ${this.settings.selectedProvider}`);
+    if (!target.provider) errors.push('No AI provider selected');
+    if (!target.model) errors.push('No model selected');
+    if (!providerRegistry.has(target.provider)) {
+      errors.push(`Unsupported provider: ${target.provider}`);
+    } else if (!providerRegistry.isConfigured(this.settings, target.provider)) {
+      const adapter = providerRegistry.get(target.provider)!;
+      errors.push(adapter.capabilities.requiresApiKey
+        ? `No API key configured for ${target.provider}`
+        : `${adapter.name} is not configured`);
+    }
     return { isValid: errors.length === 0, errors };
   }
 
-  private getApiKeyForProvider(provider: string): string | null {
-    switch (provider) {
-      case 'google': return this.settings.googleApiKey || null;
-      case 'mistral': return this.settings.mistralApiKey || null;
-      case 'zhipu': return this.settings.zhipuApiKey || null;
-      case 'groq': return this.settings.groqApiKey || null;
-      default: return null;
-    }
+  private getDefaultModelTarget(): ModelTarget {
+    return { provider: this.settings.selectedProvider, model: this.settings.selectedModel };
   }
 
-  private getApiKey(): string {
-    const key = this.getApiKeyForProvider(this.settings.selectedProvider);
-    if (!key) {
-      throw new Error(`${this.settings.selectedProvider} API key not configured`);
+  // Routed models that are no longer usable fall back to the global selection
+  private resolveModelTarget(stage?: GenerationStage, routing?: StageModelRouting): ModelTarget {
+    const routed = stage ? routing?.[stage] : undefined;
+    if (!routed) return this.getDefaultModelTarget();
+
+    if (providerRegistry.isConfigured(this.settings, routed.provider) &&
+        providerRegistry.isValidModel(routed.provider, routed.model)) {
+      return routed;
     }
-    return key;
+
+    console.warn(`Routed model ${routed.provider}/${routed.model} for ${stage} is unavailable, using default`);
+    return this.getDefaultModelTarget();
+  }
+
+  private getApiKeyForProvider(provider: string): ApiKeyEntry | null {
+    return apiKeyPool.pick(provider, providerRegistry.getApiKeys(this.settings, provider));
   }
 
   private isRateLimitError(error: any): boolean {
@@ -225,6 +348,7 @@ class BookGenerationService {
     const statusCode = error?.status || error?.response?.status;
     
     return (
+      (error instanceof ProviderError && error.kind === 'rate_limit') ||
       statusCode === 429 ||
       statusCode === 503 ||
       errorMessage.includes('rate limit') ||
@@ -245,20 +369,27 @@ class BookGenerationService {
 
   private shouldRetry(error: any, attempt: number): boolean {
     if (attempt >= this.MAX_MODULE_RETRIES) return false;
-    
+    return this.isRetryableError(error);
+  }
+
+  private isRetryableError(error: unknown): boolean {
     if (this.isRateLimitError(error) || this.isNetworkError(error)) {
       return true;
     }
+    if (error instanceof ProviderError) {
+      return error.kind !== 'fatal';
+    }
     
-    const errorMessage = error?.message?.toLowerCase() || '';
+    const errorMessage = (error as Error | undefined)?.message?.toLowerCase() || '';
     const retryableErrors = ['timeout', 'overloaded', 'unavailable', 'internal error', 'bad gateway'];
     
     return retryableErrors.some(msg => errorMessage.includes(msg));
   }
 
   private calculateRetryDelay(attempt: number, isRateLimit: boolean): number {
+    // The provider's scheduler already holds the next request until its cooldown ends
     if (isRateLimit) {
-      return this.RATE_LIMIT_DELAY * Math.pow(1.5, attempt);
+      return 0;
     }
     
     const exponentialDelay = this.RETRY_DELAY_BASE * Math.pow(2, attempt - 1);
@@ -266,42 +397,30 @@ class BookGenerationService {
     return Math.min(exponentialDelay + jitter, this.MAX_RETRY_DELAY);
   }
 
-  private getAlternativeProviders(): Array<{provider: ModelProvider; model: string; name: string}> {
-    const alternatives: Array<{provider: ModelProvider; model: string; name: string}> = [];
-    
-    if (this.settings.googleApiKey && this.settings.selectedProvider !== 'google') {
-      alternatives.push({
-        provider: 'google',
-        model: 'gemini-2.5-flash',
-        name: 'Google Gemini 2.5 Flash'
-      });
-    }
-    
-    if (this.settings.mistralApiKey && this.settings.selectedProvider !== 'mistral') {
-      alternatives.push({
-        provider: 'mistral',
-        model: 'mistral-small-latest',
-        name: 'Mistral Small'
-      });
-    }
-    
-    if (this.settings.zhipuApiKey && this.settings.selectedProvider !== 'zhipu') {
-      alternatives.push({
-        provider: 'zhipu',
-        model: 'glm-4.5-flash',
-        name: 'GLM 4.5 Flash'
-      });
-    }
+  private getAlternativeProviders(): AlternativeModel[] {
+    return providerRegistry.getAlternatives(this.settings);
+  }
 
-   if (this.settings.groqApiKey && this.settings.selectedProvider !== 'groq') {
-      alternatives.push({
-        provider: 'groq',
-        model: 'groq/compound',
-        name: 'Groq Compound'
-      });
-    }
-    
-    return alternatives;
+  // Interactive retries prompt about one module at a time, so they run serially
+  private getModuleConcurrency(): number {
+    if (this.getFallbackPolicy().mode === 'interactive') return 1;
+    return Math.min(4, Math.max(1, Math.floor(this.settings.moduleConcurrency || 1)));
+  }
+
+  private getFallbackPolicy(): FallbackPolicy {
+    return { ...defaultFallbackPolicy, ...this.settings.fallbackPolicy };
+  }
+
+  // The chapter's own model first, then each usable chain entry not already listed
+  private buildFallbackChain(session: BookSession): ModelTarget[] {
+    const primary = this.resolveModelTarget('module', session.modelRouting);
+    const candidates = [primary, ...this.getFallbackPolicy().chain];
+    const chain = candidates.filter((target, index) =>
+      providerRegistry.isConfigured(this.settings, target.provider) &&
+      providerRegistry.isValidModel(target.provider, target.model) &&
+      candidates.findIndex(t => t.provider === target.provider && t.model === target.model) === index
+    );
+    return chain.length > 0 ? chain : [primary];
   }
 
   private async waitForUserRetryDecision(
@@ -341,13 +460,108 @@ class BookGenerationService {
     this.userRetryDecisions.set(bookId, decision);
   }
 
-  private async generateWithAI(prompt: string, bookId?: string, onChunk?: (chunk: string) => void, session?: BookSession): Promise<string> {
-    const validation = this.validateSettings();
+  // Roadmap and assembly calls depend only on their prompt, so identical requests are answered from the cache
+  private async generateWithCache(
+    prompt: string,
+    bookId: string | undefined,
+    session: BookSession | undefined,
+    stage: GenerationStage,
+    responseSchema?: JsonSchema
+  ): Promise<GenerationResult> {
+    if (session?.bypassCache) {
+      return this.generateWithAI(prompt, bookId, undefined, session, stage, undefined, responseSchema);
+    }
+
+    const { provider, model } = this.resolveModelTarget(stage, session?.modelRouting);
+    let cacheKey: string;
+    let cached: CachedResponse | null;
+    try {
+      cacheKey = await responseCache.buildKey({
+        provider,
+        model,
+        stage,
+        prompt,
+        params: { advancedSettings: session?.advancedSettings, responseSchema }
+      });
+      cached = await responseCache.get(cacheKey);
+    } catch (error) {
+      // The cache is only a shortcut; without it (no secure context, storage blocked) the call is made uncached
+      console.warn('Response cache unavailable, generating without it:', error);
+      return this.generateWithAI(prompt, bookId, undefined, session, stage, undefined, responseSchema);
+    }
+
+    if (cached) {
+      return {
+        content: cached.content,
+        cacheKey,
+        usage: { stage, provider, model, promptTokens: 0, completionTokens: 0, durationMs: 0, cached: true }
+      };
+    }
+
+    const result = await this.generateWithAI(prompt, bookId, undefined, session, stage, undefined, responseSchema);
+    await responseCache.put(
+      { key: cacheKey, provider, model, stage, content: result.content },
+      this.settings.responseCacheLimitMB ?? DEFAULT_CACHE_LIMIT_MB
+    );
+    return { ...result, cacheKey };
+  }
+
+  // A malformed answer is repaired in place rather than spending a whole attempt. Each
+  // call's usage goes into `usage` as it returns, so it is kept when this throws.
+  private async generateValidatedJson<T>(
+    requestId: string,
+    session: BookSession,
+    stage: GenerationStage,
+    schema: JsonSchema,
+    parse: (content: string) => JsonParseResult<T>,
+    basePrompt: string,
+    usage: TokenUsage[],
+    maxRepairs = 1
+  ): Promise<T> {
+    let prompt = basePrompt;
+    let errors: string[] = [];
+
+    for (let repair = 0; repair <= maxRepairs; repair++) {
+      const response = await this.generateWithCache(prompt, requestId, session, stage, schema);
+      usage.push(response.usage);
+
+      const result = parse(response.content);
+      if (result.value) return result.value;
+
+      // Never serve an unusable answer again
+      if (response.cacheKey) await responseCache.delete(response.cacheKey);
+
+      errors = result.errors;
+      console.warn(`${stage} response for ${requestId} failed validation (repair ${repair}/${maxRepairs}):`, errors);
+      prompt = buildJsonRepairPrompt(basePrompt, response.content, errors);
+    }
+
+    throw new Error(`Invalid ${stage}: ${errors.join('; ')}`);
+  }
+
+  private async generateWithAI(
+    prompt: string,
+    bookId: string | undefined,
+    onChunk: ((chunk: string) => void) | undefined,
+    session: BookSession | undefined,
+    stage: GenerationStage,
+    onContinuation?: (count: number) => void,
+    responseSchema?: JsonSchema,
+    resumeFrom?: string,
+    onAttemptStart?: (textSoFar: string) => void
+  ): Promise<GenerationResult> {
+    const target = this.resolveModelTarget(stage, session?.modelRouting);
+    const validation = this.validateSettings(target);
     if (!validation.isValid) {
       throw new Error(`Configuration error: ${validation.errors.join(', ')}`);
     }
 
-    if (!navigator.onLine) {
+    const adapter = providerRegistry.get(target.provider);
+    if (!adapter) {
+      throw new Error(`Unsupported provider: ${target.provider}`);
+    }
+
+    if (!adapter.capabilities.offline && !navigator.onLine) {
       throw new Error('No internet connection');
     }
 
@@ -355,145 +569,147 @@ class BookGenerationService {
     const abortController = new AbortController();
     this.activeRequests.set(requestId, abortController);
 
-    const timeoutId = setTimeout(() => {
-      abortController.abort();
-      this.activeRequests.delete(requestId);
-    }, this.requestTimeout);
+    // Each continuation gets a fresh timeout
+    let timeoutId: ReturnType<typeof setTimeout> | undefined;
+    const armTimeout = () => {
+      clearTimeout(timeoutId);
+      timeoutId = setTimeout(() => {
+        abortController.abort();
+        this.activeRequests.delete(requestId);
+      }, this.requestTimeout);
+    };
+    armTimeout();
+
+    const startedAt = Date.now();
 
     try {
-      let result: string;
-      switch (this.settings.selectedProvider) {
-        case 'google': 
-          result = await this.generateWithGoogle(prompt, abortController.signal, onChunk); 
-          break;
-        case 'mistral': 
-          result = await this.generateWithMistral(prompt, abortController.signal, onChunk); 
-          break;
-        case 'zhipu': 
-          result = await this.generateWithZhipu(prompt, abortController.signal, onChunk); 
-          break;
-        case 'groq':
-          result = await this.generateWithGroq(prompt, abortController.signal, onChunk, session); 
+      // Text saved from an interrupted run is treated like a cut-off answer and continued
+      let content = resumeFrom || '';
+      let promptTokens = 0;
+      let completionTokens = 0;
+      let estimated = false;
+      let continuations = 0;
+
+      // Answers cut off by the output limit are resumed until the model finishes on its own
+      while (true) {
+        const previous = content;
+        const result = await this.generateWithAdapter(
+          adapter, target.model, prompt, abortController.signal, onChunk, session, stage, previous || undefined, responseSchema,
+          () => onAttemptStart?.(previous)
+        );
+
+        content += result.text;
+        promptTokens += result.usage?.promptTokens ?? estimateTokens(prompt + previous);
+        completionTokens += result.usage?.completionTokens ?? estimateTokens(result.text);
+        estimated = estimated || !result.usage;
+
+        if (result.finishReason !== 'length') break;
+        if (continuations >= this.MAX_CONTINUATIONS) {
+          console.warn(`Output still truncated after ${continuations} continuations (${stage})`);
           break;
-        default: 
-          throw new Error(`Unsupported provider: ${this.settings.selectedProvider}`);
+        }
+
+        continuations++;
+        onContinuation?.(continuations);
+        armTimeout();
       }
-      return result;
+
+      return {
+        content,
+        usage: {
+          stage,
+          provider: target.provider,
+          model: target.model,
+          promptTokens,
+          completionTokens,
+          durationMs: Date.now() - startedAt,
+          estimated
+        }
+      };
     } finally {
       clearTimeout(timeoutId);
       this.activeRequests.delete(requestId);
     }
   }
 
-  private async generateWithGoogle(prompt: string, signal?: AbortSignal, onChunk?: (chunk: string) => void): Promise<string> {
-    const apiKey = this.getApiKey();
-    const model = this.settings.selectedModel;
+  private async generateWithAdapter(
+    adapter: ProviderAdapter,
+    model: string,
+    prompt: string,
+    signal?: AbortSignal,
+    onChunk?: (chunk: string) => void,
+    session?: BookSession,
+    stage?: GenerationStage,
+    continuation?: string,
+    responseSchema?: JsonSchema,
+    onAttemptStart?: () => void
+  ): Promise<ProviderStreamDelta> {
+    const keys = providerRegistry.getApiKeys(this.settings, adapter.id);
+    if (adapter.capabilities.requiresApiKey && keys.length === 0) {
+      throw new Error(`${adapter.id} API key not configured`);
+    }
+
     const maxRetries = 3;
     let attempt = 0;
 
     while (attempt < maxRetries) {
+      // Picked per attempt so a rate-limited key hands over to the next one
+      const keyEntry = this.getApiKeyForProvider(adapter.id);
+      // A retried stream starts over, so whatever the failed attempt streamed is thrown away
+      onAttemptStart?.();
+      // Whatever is still reserved when the attempt ends is handed back in `finally`
+      let reservedTokens = 0;
+
       try {
-        const streamEndpoint = `https://generativelanguage.googleapis.com/v1beta/models/${model}:streamGenerateContent?key=${apiKey}&alt=sse`;
-        
-        const response = await fetch(streamEndpoint, {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({
-            contents: [{ parts: [{ text: prompt }] }],
-            generationConfig: { temperature: 0.7, topK: 40, topP: 0.95, maxOutputTokens: 8192 }
-          }),
-          signal
-        });
+        const context = {
+          prompt,
+          model,
+          apiKey: keyEntry?.key ?? null,
+          settings: this.settings,
+          advancedSettings: session?.advancedSettings,
+          stage,
+          continuation,
+          responseSchema
+        };
 
-        if (response.status === 429 || response.status === 503) {
-          const delay = Math.pow(2, attempt) * 1000 + Math.random() * 1000;
-          await sleep(delay);
-          attempt++;
-          continue;
-        }
+        const estimatedTokens = estimateTokens(prompt + (continuation || '')) + EXPECTED_OUTPUT_TOKENS;
+        await requestScheduler.acquire(adapter.id, providerRegistry.getRateLimit(this.settings, adapter.id), estimatedTokens, signal);
+        reservedTokens = estimatedTokens;
 
-        if (!response.ok) {
-          const errorData = await response.json().catch(() => ({}));
-          throw new Error(errorData?.error?.message || `HTTP ${response.status}`);
+        if ('stream' in adapter) {
+          const result = await adapter.stream(context, signal, onChunk);
+          if (!result.text) throw new Error('No content generated');
+          requestScheduler.settle(adapter.id, estimateTokens(prompt) + estimateTokens(result.text) - reservedTokens);
+          reservedTokens = 0;
+          return result;
         }
 
-        if (!response.body) throw new Error('Response body is null');
-
-        const reader = response.body.getReader();
-        const decoder = new TextDecoder();
-        let fullContent = '';
-        let buffer = '';
-
-        while (true) {
-          const { done, value } = await reader.read();
-          if (done) break;
+        const request = adapter.buildRequest(context);
+        const response = await fetch(request.url, { ...request.init, signal });
 
-          buffer += decoder.decode(value, { stream: true });
-          const lines = buffer.split('\n');
-          buffer = lines.pop() || '';
-
-          for (const line of lines) {
-            const trimmedLine = line.trim();
-            if (trimmedLine.startsWith('data: ')) {
-              const jsonStr = trimmedLine.substring(6);
-              if (jsonStr === '[DONE]') continue;
-
-              try {
-                const data = JSON.parse(jsonStr);
-                const textPart = data?.candidates?.[0]?.content?.parts?.[0]?.text || '';
-                if (textPart) {
-                  fullContent += textPart;
-                  if (onChunk) onChunk(textPart);
-                }
-              } catch (parseError) {}
+        if (!response.ok) {
+          const errorData = await response.json().catch(() => ({}));
+          const classification = adapter.classifyError(response.status, errorData);
+          const retryAfter = parseRetryAfter(response.headers.get('Retry-After'));
+          const keyCooldown = getKeyCooldown(response.status, classification.message, retryAfter);
+          if (keyEntry) apiKeyPool.recordFailure(keyEntry.id, classification.message, keyCooldown);
+
+          if (classification.kind === 'rate_limit') {
+            // Another healthy key can go straight away; otherwise everyone waits out the cooldown
+            if (!apiKeyPool.hasAvailable(keys)) {
+              requestScheduler.block(adapter.id, retryAfter ?? Math.pow(2, attempt) * 1000 + Math.random() * 1000);
             }
+            attempt++;
+            continue;
           }
-        }
-
-        if (!fullContent) throw new Error('No content generated');
-        return fullContent;
-
-      } catch (error) {
-        if (error instanceof Error && error.name === 'AbortError') throw error;
-        attempt++;
-        if (attempt >= maxRetries) throw error;
-        await sleep(Math.pow(2, attempt) * 1000);
-      }
-    }
-    throw new Error('Google API failed after retries');
-  }
 
-  private async generateWithMistral(prompt: string, signal?: AbortSignal, onChunk?: (chunk: string) => void): Promise<string> {
-    const apiKey = this.getApiKey();
-    const model = this.settings.selectedModel;
-    const maxRetries = 3;
-    let attempt = 0;
-
-    while (attempt < maxRetries) {
-      try {
-        const response = await fetch('https://api.mistral.ai/v1/chat/completions', {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json', 'Authorization': `Bearer ${apiKey}` },
-          body: JSON.stringify({
-            model: model,
-            messages: [{ role: 'user', content: prompt }],
-            temperature: 0.7,
-            max_tokens: 8192,
-            stream: true
-          }),
-          signal
-        });
-
-        if (response.status === 429) {
-          const delay = Math.pow(2, attempt) * 1000;
-          await sleep(delay);
-          attempt++;
-          continue;
-        }
+          // A rejected key is benched; retry with the next one if there is one
+          if (keyCooldown > 0 && apiKeyPool.hasAvailable(keys)) {
+            attempt++;
+            continue;
+          }
 
-        if (!response.ok) {
-          const errorData = await response.json().catch(() => ({}));
-          throw new Error(errorData?.error?.message || `Mistral API Error: ${response.status}`);
+          throw new Error(classification.message);
         }
 
         if (!response.body) throw new Error('Response body is null');
@@ -502,6 +718,8 @@ class BookGenerationService {
         const decoder = new TextDecoder();
         let fullContent = '';
         let buffer = '';
+        let usage: ProviderStreamDelta['usage'];
+        let finishReason: ProviderStreamDelta['finishReason'];
 
         while (true) {
           const { done, value } = await reader.read();
@@ -513,228 +731,67 @@ class BookGenerationService {
 
           for (const line of lines) {
             const trimmedLine = line.trim();
-            if (trimmedLine.startsWith('data: ')) {
-              const jsonStr = trimmedLine.substring(6);
-              if (jsonStr === '[DONE]') continue;
-
-              try {
-                const data = JSON.parse(jsonStr);
-                const textPart = data?.choices?.[0]?.delta?.content || '';
-                if (textPart) {
-                  fullContent += textPart;
-                  if (onChunk) onChunk(textPart);
-                }
-              } catch (parseError) {}
-            }
-          }
-        }
-
-        if (!fullContent) throw new Error('No content generated');
-        return fullContent;
-
-      } catch (error) {
-        if (error instanceof Error && error.name === 'AbortError') throw error;
-        attempt++;
-        if (attempt >= maxRetries) throw error;
-        await sleep(Math.pow(2, attempt) * 1000);
-      }
-    }
-    throw new Error('Mistral API failed after retries');
-  }
-
-  private async generateWithZhipu(prompt: string, signal?: AbortSignal, onChunk?: (chunk: string) => void): Promise<string> {
-    const apiKey = this.getApiKey();
-    const model = this.settings.selectedModel;
-    const maxRetries = 3;
-    let attempt = 0;
-
-    while (attempt < maxRetries) {
-      try {
-        const response = await fetch('https://open.bigmodel.cn/api/paas/v4/chat/completions', {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json', 'Authorization': `Bearer ${apiKey}` },
-          body: JSON.stringify({
-            model: model,
-            messages: [{ role: 'user', content: prompt }],
-            temperature: 0.7,
-            max_tokens: 8192,
-            stream: true
-          }),
-          signal
-        });
+            if (!trimmedLine.startsWith('data: ')) continue;
 
-        if (response.status === 429 || response.status === 503) {
-          const delay = Math.pow(2, attempt) * 1000;
-          await sleep(delay);
-          attempt++;
-          continue;
-        }
+            const jsonStr = trimmedLine.substring(6);
+            if (jsonStr === '[DONE]') continue;
 
-        if (!response.ok) {
-          const errorData = await response.json().catch(() => ({}));
-          throw new Error(errorData?.error?.message || `ZhipuAI API Error: ${response.status}`);
-        }
-
-        if (!response.body) throw new Error('Response body is null');
-
-        const reader = response.body.getReader();
-        const decoder = new TextDecoder();
-        let fullContent = '';
-        let buffer = '';
-
-        while (true) {
-          const { done, value } = await reader.read();
-          if (done) break;
-
-          buffer += decoder.decode(value, { stream: true });
-          const lines = buffer.split('\n');
-          buffer = lines.pop() || '';
+            let data: unknown;
+            try {
+              data = JSON.parse(jsonStr);
+            } catch {
+              continue;
+            }
 
-          for (const line of lines) {
-            const trimmedLine = line.trim();
-            if (trimmedLine.startsWith('data: ')) {
-              const jsonStr = trimmedLine.substring(6);
-              if (jsonStr === '[DONE]') continue;
-
-              try {
-                const data = JSON.parse(jsonStr);
-                const textPart = data?.choices?.[0]?.delta?.content || '';
-                if (textPart) {
-                  fullContent += textPart;
-                  if (onChunk) onChunk(textPart);
-                }
-              } catch (parseError) {}
+            const { text, usage: eventUsage, finishReason: eventFinishReason } = adapter.decodeStreamEvent(data);
+            if (eventUsage) usage = eventUsage;
+            if (eventFinishReason) finishReason = eventFinishReason;
+            if (text) {
+              fullContent += text;
+              if (onChunk) onChunk(text);
             }
           }
         }
 
         if (!fullContent) throw new Error('No content generated');
-        return fullContent;
+
+        const actualTokens = usage
+          ? usage.promptTokens + usage.completionTokens
+          : estimateTokens(prompt) + estimateTokens(fullContent);
+        requestScheduler.settle(adapter.id, actualTokens - reservedTokens);
+        reservedTokens = 0;
+        if (keyEntry) apiKeyPool.recordSuccess(keyEntry.id);
+
+        return { text: fullContent, usage, finishReason };
 
       } catch (error) {
         if (error instanceof Error && error.name === 'AbortError') throw error;
-        attempt++;
-        if (attempt >= maxRetries) throw error;
-        await sleep(Math.pow(2, attempt) * 1000);
-      }
-    }
-    throw new Error('ZhipuAI API failed after retries');
-  }
-
-  private async generateWithGroq(prompt: string, signal?: AbortSignal, onChunk?: (chunk: string) => void, session?: BookSession): Promise<string> {
-    const apiKey = this.getApiKey();
-    const model = this.settings.selectedModel;
-    const maxRetries = 3;
-    let attempt = 0;
-  
-    // ✅ NEW: Prioritize session settings, fallback to global settings
-    const advSettings = session?.advancedSettings || this.settings.advancedSettings;
-    const isCompoundModel = model.includes('compound');
-    const isOSSModel = model.includes('gpt-oss');
-  
-    while (attempt < maxRetries) {
-      try {
-        // ✅ NEW: Build request body with advanced parameters
-        const requestBody: any = {
-          model: model,
-          messages: [{ role: 'user', content: prompt }],
-          temperature: 0.7,
-          max_tokens: 8192,
-          stream: true
-        };
-  
-        // ✅ Add Compound-specific parameters
-        if (isCompoundModel && advSettings) {
-          if (advSettings.reasoningEffort) {
-            requestBody.reasoning_effort = advSettings.reasoningEffort;
-          }
-          if (advSettings.enableCitations) {
-            requestBody.enable_citations = true;
-          }
-          if (advSettings.enableSearchSettings) {
-            requestBody.search_settings = {
-              enabled: true
-            };
-          }
-        }
-  
-        // ✅ Add OSS-specific parameters
-        if (isOSSModel && advSettings?.ossReasoningEffort) {
-          requestBody.reasoning_effort = advSettings.ossReasoningEffort;
-        }
-  
-        const response = await fetch('https://api.groq.com/openai/v1/chat/completions', {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-            'Authorization': `Bearer ${apiKey}`
-          },
-          body: JSON.stringify(requestBody),
-          signal
-        });
-  
-        if (response.status === 429 || response.status === 503) {
-          const delay = Math.pow(2, attempt) * 1000;
-          await sleep(delay);
-          attempt++;
-          continue;
-        }
-  
-        if (!response.ok) {
-          const errorData = await response.json().catch(() => ({}));
-          throw new Error(errorData?.error?.message || `Groq API Error: ${response.status}`);
-        }
-  
-        if (!response.body) throw new Error('Response body is null');
-  
-        const reader = response.body.getReader();
-        const decoder = new TextDecoder();
-        let fullContent = '';
-        let buffer = '';
-  
-        while (true) {
-          const { done, value } = await reader.read();
-          if (done) break;
-  
-          buffer += decoder.decode(value, { stream: true });
-          const lines = buffer.split('\n');
-          buffer = lines.pop() || '';
-  
-          for (const line of lines) {
-            const trimmedLine = line.trim();
-            if (trimmedLine.startsWith('data: ')) {
-              const jsonStr = trimmedLine.substring(6);
-              if (jsonStr === '[DONE]') continue;
-  
-              try {
-                const data = JSON.parse(jsonStr);
-                const textPart = data?.choices?.[0]?.delta?.content || '';
-                if (textPart) {
-                  fullContent += textPart;
-                  if (onChunk) onChunk(textPart);
-                }
-              } catch (parseError) {}
+        // A local adapter's classified failure goes straight to the caller's retry, fallback
+        // and pause handling; a rate limit also benches the key and holds the provider's queue
+        if (error instanceof ProviderError) {
+          if (error.kind === 'rate_limit') {
+            if (keyEntry) apiKeyPool.recordFailure(keyEntry.id, error.message, getKeyCooldown(429, error.message, error.retryAfterMs ?? null));
+            if (!apiKeyPool.hasAvailable(keys)) {
+              requestScheduler.block(adapter.id, error.retryAfterMs ?? Math.pow(2, attempt) * 1000 + Math.random() * 1000);
             }
           }
+          throw error;
         }
-  
-        if (!fullContent) throw new Error('No content generated');
-        return fullContent;
-  
-      } catch (error) {
-        if (error instanceof Error && error.name === 'AbortError') throw error;
         attempt++;
         if (attempt >= maxRetries) throw error;
-        await sleep(Math.pow(2, attempt) * 1000);
+      } finally {
+        // Calls that didn't complete, rejected, aborted or cut off mid-stream, don't count against the token budget
+        if (reservedTokens) requestScheduler.settle(adapter.id, -reservedTokens);
       }
+      await sleep(Math.pow(2, attempt) * 1000);
     }
-    throw new Error('Groq API failed after retries');
+    throw new Error(`${adapter.name} API failed after retries`);
   }
 
   async generateRoadmap(session: BookSession, bookId: string): Promise<BookRoadmap> {
     try {
-      localStorage.removeItem(`pause_flag_${bookId}`);
-      localStorage.removeItem(`checkpoint_${bookId}`);
+      this.storage.removeItem(`pause_flag_${bookId}`);
+      this.storage.removeItem(`checkpoint_${bookId}`);
       console.log('✓ Cleared pause flags for new book');
     } catch (error) {
       console.warn('Failed to clear pause flags:', error);
@@ -744,19 +801,25 @@ class BookGenerationService {
 
     const maxAttempts = 2;
     let attempt = 0;
+    // Responses that fail validation still cost tokens
+    const usage: TokenUsage[] = [];
 
     while (attempt < maxAttempts) {
       try {
-        const prompt = this.buildRoadmapPrompt(session);
-        const response = await this.generateWithAI(prompt, bookId, undefined, session);
-        const roadmap = await this.parseRoadmapResponse(response, session);
-        
-        this.updateProgress(bookId, { status: 'roadmap_completed', progress: 10, roadmap });
+        const roadmap = await this.generateValidatedJson(
+          bookId, session, 'roadmap', ROADMAP_RESPONSE_SCHEMA,
+          content => parseRoadmap(content, session.complexityLevel),
+          this.buildRoadmapPrompt(session), usage, 2
+        );
+        this.updateProgress(bookId, { status: 'roadmap_completed', progress: 10, roadmap, usage: [...usage] });
         return roadmap;
       } catch (error) {
         attempt++;
         if (attempt >= maxAttempts) {
-          this.updateProgress(bookId, { status: 'error', error: 'Roadmap generation failed' });
+          const message = error instanceof Error && error.message.startsWith('Invalid roadmap')
+            ? error.message
+            : 'Roadmap generation failed';
+          this.updateProgress(bookId, { status: 'error', error: message, usage: [...usage] });
           throw error;
         }
         await sleep(2000);
@@ -765,116 +828,115 @@ class BookGenerationService {
     throw new Error('Roadmap generation failed');
   }
 
-  private buildRoadmapPrompt(session: BookSession): string {
-    const reasoningPrompt = session.reasoning
-      ? `\n- Reasoning/Motivation for the book: ${session.reasoning}`
-      : '';
-  
-    return `Create a comprehensive learning roadmap for: "${session.goal}"
-  
-  Requirements:
-  - Generate a suitable number of modules, with a minimum of 8. The final number should be based on the complexity and scope of the learning goal.
-  - Each module should have a clear title and 3-5 specific learning objectives
-  - Estimate realistic reading/study time for each module
-  - Target audience: ${session.targetAudience || 'general learners'}
-  - Complexity: ${session.complexityLevel || 'intermediate'}${reasoningPrompt}
-  
-  Return ONLY valid JSON:
-  {
-    "modules": [
-      {
-        "title": "Module Title",
-        "objectives": ["Objective 1", "Objective 2"],
-        "estimatedTime": "2-3 hours"
-      }
-    ],
-    "estimatedReadingTime": "20-25 hours",
-    "difficultyLevel": "intermediate"
-  }`;
-  }
-
-  private async parseRoadmapResponse(response: string, session: BookSession): Promise<BookRoadmap> {
-    let cleanedResponse = response.trim()
-      .replace(/```json\s*/g, '')
-      .replace(/```\s*/g, '')
-      .replace(/^[^{]*/, '')
-      .replace(/[^}]*$/, '');
-
-    let jsonMatch = cleanedResponse.match(/\{[\s\S]*\}/);
-    if (!jsonMatch) {
-      throw new Error('Invalid response format');
+  // For the roadmap editor: the roadmap passed in is the unsaved draft, and the
+  // caller decides whether to keep what comes back
+  async generateModuleObjectives(book: BookProject, session: BookSession, roadmap: BookRoadmap, moduleId: string): Promise<string[]> {
+    const roadmapModule = roadmap.modules.find(m => m.id === moduleId);
+    if (!roadmapModule) {
+      throw new Error('Module not found in roadmap');
     }
 
-    const roadmap = JSON.parse(jsonMatch[0]);
+    const template = resolvePromptTemplate('objectives', this.settings.promptTemplates, session.promptTemplates);
+    const basePrompt = renderPromptTemplate(template, buildObjectivesVariables(session, roadmap, roadmapModule));
+    // Asking again should give a different answer, not the cached one
+    const freshSession = { ...session, bypassCache: true };
+    const usage: TokenUsage[] = [];
 
-    if (!roadmap.modules || !Array.isArray(roadmap.modules)) {
-      throw new Error('Invalid roadmap: missing modules array');
+    try {
+      return await this.generateValidatedJson(
+        `${book.id}:${moduleId}:objectives`, freshSession, 'objectives', OBJECTIVES_RESPONSE_SCHEMA, parseObjectives, basePrompt, usage
+      );
+    } finally {
+      this.updateProgress(book.id, { addedUsage: usage });
     }
+  }
 
-    roadmap.modules = roadmap.modules.map((module: any, index: number) => ({
-      id: `module_${index + 1}`,
-      title: module.title?.trim() || `Module ${index + 1}`,
-      objectives: Array.isArray(module.objectives) ? module.objectives : [`Learn ${module.title}`],
-      estimatedTime: module.estimatedTime || '1-2 hours',
-      order: index + 1
-    }));
-
-    roadmap.totalModules = roadmap.modules.length;
-    roadmap.estimatedReadingTime = roadmap.estimatedReadingTime || `${roadmap.modules.length * 2} hours`;
-    roadmap.difficultyLevel = roadmap.difficultyLevel || session.complexityLevel || 'intermediate';
-
-    return roadmap;
+  private buildRoadmapPrompt(session: BookSession): string {
+    const template = resolvePromptTemplate('roadmap', this.settings.promptTemplates, session.promptTemplates);
+    return renderPromptTemplate(template, buildRoadmapVariables(session));
   }
 
   async generateModuleContentWithRetry(
     book: BookProject,
     roadmapModule: RoadmapModule,
     session: BookSession,
-    attemptNumber: number = 1
+    attemptNumber: number = 1,
+    fallbackAttempt: number = 0,
+    earlierUsage: TokenUsage[] = [] // Calls made by this chapter's failed attempts
   ): Promise<BookModule> {
     if (this.isPaused(book.id)) {
       throw new Error('GENERATION_PAUSED');
     }
 
+    const policy = this.getFallbackPolicy();
+    const fallbackChain = this.buildFallbackChain(session);
+    const attemptsPerModel = Math.max(1, policy.maxAttemptsPerModel);
+    const target = fallbackChain[Math.min(Math.floor(fallbackAttempt / attemptsPerModel), fallbackChain.length - 1)];
+    const routedSession: BookSession = { ...session, modelRouting: { ...session.modelRouting, module: target } };
+
     const totalWordsBefore = book.modules.reduce((sum, m) => sum + (m.status === 'completed' ? m.wordCount : 0), 0);
-    this.currentGeneratedTexts.set(book.id, '');
+    // Parallel modules each need their own stream buffer and abort handle
+    const requestId = `${book.id}:${roadmapModule.id}`;
+    const resumeText = this.getPartialText(book.id, roadmapModule.id);
+    const resumeWords = countWords(resumeText);
+    this.currentGeneratedTexts.set(requestId, resumeText);
+    this.partialSavedAt.set(requestId, Date.now());
+
+    const startProgress: ModuleProgress = {
+      id: roadmapModule.id,
+      title: roadmapModule.title,
+      attempt: attemptNumber,
+      progress: 0,
+      generatedText: resumeText.slice(-800),
+      wordCount: resumeWords
+    };
 
     this.updateGenerationStatus(book.id, {
-      currentModule: {
-        id: roadmapModule.id,
-        title: roadmapModule.title,
-        attempt: attemptNumber,
-        progress: 0,
-        generatedText: ''
-      },
+      currentModule: startProgress,
+      activeModules: this.trackModuleProgress(book.id, startProgress),
       totalProgress: 0,
       status: 'generating',
-      logMessage: `Starting: ${roadmapModule.title}`,
+      logMessage: resumeText
+        ? `↻ Resuming ${roadmapModule.title} from ${resumeWords} saved words`
+        : `Starting: ${roadmapModule.title}`,
       totalWordsGenerated: totalWordsBefore,
       aiStage: 'analyzing'
     });
 
+    const attemptStartedAt = Date.now();
+    let prompt = '';
+    let attemptUsage: TokenUsage | undefined;
+
     try {
       const previousModules = book.modules.filter(m => m.status === 'completed');
-      const isFirstModule = previousModules.length === 0;
+      const earlierModules = (book.roadmap?.modules || []).filter(m => m.order < roadmapModule.order);
       const moduleIndex = roadmapModule.order;
       const totalModules = book.roadmap?.totalModules || 0;
 
-      const prompt = this.buildModulePrompt(session, roadmapModule, previousModules, isFirstModule, moduleIndex, totalModules);
-      
-      const moduleContent = await this.generateWithAI(prompt, book.id, (chunk) => {
+      const currentModule = book.modules.find(m => m.roadmapModuleId === roadmapModule.id && m.status === 'completed');
+      prompt = session.revisionInstructions && currentModule
+        ? this.buildRevisionPrompt(session, roadmapModule, currentModule, session.revisionInstructions)
+        : this.buildModulePrompt(session, roadmapModule, previousModules, earlierModules, moduleIndex, totalModules);
+      let continuations = 0;
+
+      const { content: moduleContent, usage } = await this.generateWithAI(prompt, requestId, (chunk) => {
         if (this.isPaused(book.id)) {
-          const controller = this.activeRequests.get(book.id);
+          const controller = this.activeRequests.get(requestId);
           if (controller) {
             controller.abort();
           }
           return;
         }
 
-        const currentText = (this.currentGeneratedTexts.get(book.id) || '') + chunk;
-        this.currentGeneratedTexts.set(book.id, currentText);
+        const currentText = (this.currentGeneratedTexts.get(requestId) || '') + chunk;
+        this.currentGeneratedTexts.set(requestId, currentText);
+
+        if (Date.now() - (this.partialSavedAt.get(requestId) || 0) >= this.PARTIAL_SAVE_INTERVAL) {
+          this.partialSavedAt.set(requestId, Date.now());
+          this.savePartialText(book.id, roadmapModule.id, currentText);
+        }
         
-        const currentWordCount = currentText.split(/\s+/).filter(w => w.length > 0).length;
+        const currentWordCount = countWords(currentText);
         const estimatedWordTarget = 3000;
         const progress = Math.min(95, (currentWordCount / estimatedWordTarget) * 100);
         
@@ -883,22 +945,40 @@ class BookGenerationService {
         else if (currentWordCount >= estimatedWordTarget * 0.6) aiStage = 'examples';
         else if (currentWordCount >= estimatedWordTarget * 0.15) aiStage = 'writing';
         
+        const moduleProgress: ModuleProgress = {
+          id: roadmapModule.id,
+          title: roadmapModule.title,
+          attempt: attemptNumber,
+          progress,
+          generatedText: currentText.slice(-800),
+          wordCount: currentWordCount,
+          continuations
+        };
+        const activeModules = this.trackModuleProgress(book.id, moduleProgress);
+
         this.updateGenerationStatus(book.id, {
-          currentModule: {
-            id: roadmapModule.id,
-            title: roadmapModule.title,
-            attempt: attemptNumber,
-            progress,
-            generatedText: currentText.slice(-800)
-          },
+          currentModule: moduleProgress,
+          activeModules,
           totalProgress: 0,
           status: 'generating',
-          totalWordsGenerated: totalWordsBefore + currentWordCount,
+          totalWordsGenerated: totalWordsBefore + this.getInFlightWords(book.id),
           aiStage
         });
-      }, session);
+      }, routedSession, 'module', (count) => {
+        continuations = count;
+        this.updateGenerationStatus(book.id, {
+          status: 'generating',
+          totalProgress: 0,
+          logMessage: `↪ ${roadmapModule.title}: hit the output limit, continuing (${count}/${this.MAX_CONTINUATIONS})`
+        });
+      }, undefined, resumeText || undefined, (textSoFar) => {
+        this.currentGeneratedTexts.set(requestId, textSoFar);
+        this.partialSavedAt.set(requestId, Date.now());
+        this.savePartialText(book.id, roadmapModule.id, textSoFar || null);
+      });
 
-      const wordCount = moduleContent.split(/\s+/).filter(word => word.length > 0).length;
+      attemptUsage = usage;
+      const wordCount = countWords(moduleContent);
 
       if (wordCount < 300) {
         throw new Error(`Generated content too short (${wordCount} words)`);
@@ -911,10 +991,33 @@ class BookGenerationService {
         content: moduleContent.trim(),
         wordCount,
         status: 'completed',
-        generatedAt: new Date()
+        generatedAt: new Date(),
+        usage: [...earlierUsage, usage]
       };
 
-      this.currentGeneratedTexts.delete(book.id);
+      this.currentGeneratedTexts.delete(requestId);
+      this.partialSavedAt.delete(requestId);
+      this.savePartialText(book.id, roadmapModule.id, null);
+
+      if (session.preferences?.includeQuizzes) {
+        this.updateGenerationStatus(book.id, {
+          status: 'generating',
+          totalProgress: 0,
+          logMessage: `🧩 Writing quiz: ${roadmapModule.title}`
+        });
+        const { quiz, usage: quizUsage } = await this.generateModuleQuiz(`${requestId}:quiz`, session, module);
+        module.quiz = quiz;
+        module.usage = [...(module.usage || []), ...quizUsage];
+      }
+
+      this.updateGenerationStatus(book.id, {
+        status: 'generating',
+        totalProgress: 0,
+        logMessage: `🧠 Updating book memory: ${roadmapModule.title}`
+      });
+      const { memory, usage: memoryUsage } = await this.generateModuleMemory(`${requestId}:memory`, session, module);
+      module.memory = memory;
+      module.usage = [...(module.usage || []), ...memoryUsage];
 
       this.updateGenerationStatus(book.id, {
         currentModule: {
@@ -923,6 +1026,7 @@ class BookGenerationService {
           attempt: attemptNumber,
           progress: 100
         },
+        activeModules: this.untrackModule(book.id, roadmapModule.id),
         totalProgress: 0,
         status: 'generating',
         logMessage: `✓ Completed: ${roadmapModule.title}`,
@@ -932,13 +1036,64 @@ class BookGenerationService {
 
       return module;
     } catch (error) {
-      if (error instanceof Error && error.message === 'GENERATION_PAUSED') {
-        throw error;
+      const partialText = this.currentGeneratedTexts.get(requestId) || '';
+      this.currentGeneratedTexts.delete(requestId);
+      this.partialSavedAt.delete(requestId);
+      this.untrackModule(book.id, roadmapModule.id);
+
+      // A call that failed partway was still billed for what it streamed, so it's estimated from the text
+      const streamed = partialText.length > resumeText.length;
+      const failedUsage: TokenUsage[] = attemptUsage
+        ? [...earlierUsage, attemptUsage]
+        : streamed
+        ? [...earlierUsage, {
+          stage: 'module',
+          provider: target.provider,
+          model: target.model,
+          promptTokens: estimateTokens(prompt + resumeText),
+          completionTokens: estimateTokens(partialText.slice(resumeText.length)),
+          durationMs: Date.now() - attemptStartedAt,
+          estimated: true
+        }]
+        : earlierUsage;
+
+      // A pause aborts the stream mid-flight; that is not a module failure, so keep the text for the resume
+      if ((error instanceof Error && error.message === 'GENERATION_PAUSED') || this.isPaused(book.id)) {
+        this.savePartialText(book.id, roadmapModule.id, partialText);
+        throw new Error('GENERATION_PAUSED');
       }
 
+      // A failed attempt starts the chapter over
+      this.savePartialText(book.id, roadmapModule.id, null);
+
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-      
-      if (attemptNumber < this.MAX_MODULE_RETRIES && this.shouldRetry(error, attemptNumber)) {
+
+      if (policy.mode === 'automatic') {
+        // Errors that will not clear up on their own move straight to the next model
+        const nextAttempt = this.isRetryableError(error)
+          ? fallbackAttempt + 1
+          : (Math.floor(fallbackAttempt / attemptsPerModel) + 1) * attemptsPerModel;
+
+        if (nextAttempt < fallbackChain.length * attemptsPerModel) {
+          const nextTarget = fallbackChain[Math.floor(nextAttempt / attemptsPerModel)];
+          const switching = nextTarget !== target;
+
+          this.updateGenerationStatus(book.id, {
+            status: 'generating',
+            totalProgress: 0,
+            logMessage: switching
+              ? `↪ ${roadmapModule.title}: switching to ${this.getProviderDisplayName(nextTarget.provider)} ${nextTarget.model}`
+              : `↻ Retrying ${roadmapModule.title}: ${errorMessage}`
+          });
+
+          await sleep(switching ? 1000 : this.calculateRetryDelay(nextAttempt % attemptsPerModel, this.isRateLimitError(error)));
+          return this.generateModuleContentWithRetry(book, roadmapModule, session, attemptNumber + 1, nextAttempt, failedUsage);
+        }
+
+        if (policy.onExhausted === 'stop') {
+          throw new ModuleGenerationError(`${FALLBACK_EXHAUSTED}: ${errorMessage}`, failedUsage);
+        }
+      } else if (attemptNumber < this.MAX_MODULE_RETRIES && this.shouldRetry(error, attemptNumber)) {
         const decision = await this.waitForUserRetryDecision(
           book.id,
           roadmapModule.title,
@@ -949,7 +1104,7 @@ class BookGenerationService {
         if (decision === 'retry') {
           const delay = this.calculateRetryDelay(attemptNumber, this.isRateLimitError(error));
           await sleep(delay);
-          return this.generateModuleContentWithRetry(book, roadmapModule, session, attemptNumber + 1);
+          return this.generateModuleContentWithRetry(book, roadmapModule, session, attemptNumber + 1, 0, failedUsage);
         } else if (decision === 'switch') {
           throw new Error('USER_REQUESTED_MODEL_SWITCH');
         } else {
@@ -961,7 +1116,8 @@ class BookGenerationService {
             wordCount: 0,
             status: 'error',
             error: `Skipped by user after ${attemptNumber} attempts`,
-            generatedAt: new Date()
+            generatedAt: new Date(),
+            usage: failedUsage
           };
         }
       }
@@ -979,7 +1135,8 @@ class BookGenerationService {
         wordCount: 0,
         status: 'error',
         error: errorMessage,
-        generatedAt: new Date()
+        generatedAt: new Date(),
+        usage: failedUsage
       };
     }
   }
@@ -988,43 +1145,62 @@ class BookGenerationService {
     session: BookSession,
     roadmapModule: RoadmapModule,
     previousModules: BookModule[],
-    isFirstModule: boolean,
+    earlierModules: RoadmapModule[],
     moduleIndex: number,
     totalModules: number
   ): string {
-    const contextSummary = !isFirstModule && previousModules.length > 0 ?
-      `\n\nPREVIOUS MODULES CONTEXT:\n${previousModules.slice(-2).map(m =>
-        `${m.title}: ${m.content.substring(0, 300)}...`
-      ).join('\n\n')}` : '';
-  
-    const reasoningPrompt = session.reasoning
-      ? `\n- Book's Core Reasoning: ${session.reasoning}`
-      : '';
-  
-    return `Generate a comprehensive chapter for: "${roadmapModule.title}"
-  
-  CONTEXT:
-  - Learning Goal: ${session.goal}
-  - Module ${moduleIndex} of ${totalModules}
-  - Objectives: ${roadmapModule.objectives.join(', ')}
-  - Target Audience: ${session.targetAudience || 'general learners'}
-  - Complexity: ${session.complexityLevel || 'intermediate'}${reasoningPrompt}${contextSummary}
-  
-  REQUIREMENTS:
-  - Write 2000-4000 words
-  - ${isFirstModule ? 'Provide introduction' : 'Build upon previous content'}
-  - Use ## markdown headers
-  - Include bullet points and lists
-  ${session.preferences?.includeExamples ? '- Include practical examples' : ''}
-  ${session.preferences?.includePracticalExercises ? '- Add exercises at the end' : ''}
-  
-  STRUCTURE:
-  ## ${roadmapModule.title}
-  ### Introduction
-  ### Core Concepts
-  ### Practical Application
-  ${session.preferences?.includePracticalExercises ? '### Practice Exercises' : ''}
-  ### Key Takeaways`;
+    const template = resolvePromptTemplate('module', this.settings.promptTemplates, session.promptTemplates);
+    return renderPromptTemplate(
+      template,
+      buildModuleVariables(session, roadmapModule, previousModules, earlierModules, moduleIndex, totalModules)
+    );
+  }
+
+  private buildRevisionPrompt(session: BookSession, roadmapModule: RoadmapModule, module: BookModule, instructions: string): string {
+    const template = resolvePromptTemplate('revision', this.settings.promptTemplates, session.promptTemplates);
+    return renderPromptTemplate(template, buildRevisionVariables(session, roadmapModule, module, instructions));
+  }
+
+  private buildQuizPrompt(session: BookSession, module: BookModule): string {
+    const template = resolvePromptTemplate('quiz', this.settings.promptTemplates, session.promptTemplates);
+    return renderPromptTemplate(template, buildQuizVariables(session, module));
+  }
+
+  // A quiz is extra; when it can't be produced the chapter is kept without one
+  private async generateModuleQuiz(
+    requestId: string,
+    session: BookSession,
+    module: BookModule
+  ): Promise<{ quiz?: ModuleQuiz; usage: TokenUsage[] }> {
+    const basePrompt = this.buildQuizPrompt(session, module);
+    const usage: TokenUsage[] = [];
+
+    try {
+      const quiz = await this.generateValidatedJson(requestId, session, 'quiz', QUIZ_RESPONSE_SCHEMA, parseQuiz, basePrompt, usage);
+      return { quiz, usage };
+    } catch (error) {
+      console.warn(`Quiz generation failed for ${module.title}:`, error);
+    }
+    return { usage };
+  }
+
+  // Like the quiz, the memory is extra: without it later chapters see this one's opening instead
+  private async generateModuleMemory(
+    requestId: string,
+    session: BookSession,
+    module: BookModule
+  ): Promise<{ memory?: ChapterMemory; usage: TokenUsage[] }> {
+    const template = resolvePromptTemplate('memory', this.settings.promptTemplates, session.promptTemplates);
+    const basePrompt = renderPromptTemplate(template, buildMemoryVariables(session, module));
+    const usage: TokenUsage[] = [];
+
+    try {
+      const memory = await this.generateValidatedJson(requestId, session, 'memory', MEMORY_RESPONSE_SCHEMA, parseMemory, basePrompt, usage);
+      return { memory, usage };
+    } catch (error) {
+      console.warn(`Book memory update failed for ${module.title}:`, error);
+    }
+    return { usage };
   }
 
   async generateAllModulesWithRecovery(book: BookProject, session: BookSession): Promise<void> {
@@ -1035,21 +1211,29 @@ class BookGenerationService {
     this.resumeGeneration(book.id);
     
     const checkpoint = this.loadCheckpoint(book.id);
-    
-    let completedModules = [...book.modules.filter(m => m.status === 'completed')];
+    // The roadmap may have been edited since the checkpoint was written; modules
+    // removed from it are dropped rather than counted or assembled into the book
+    const roadmapIds = new Set(book.roadmap.modules.map(m => m.id));
+    const inRoadmap = (id: string) => roadmapIds.has(id);
+
+    const completedModules = [...book.modules.filter(m => m.status === 'completed' && inRoadmap(m.roadmapModuleId))];
     const completedModuleIds = new Set<string>();
     const failedModuleIds = new Set<string>();
     const moduleRetryCount: Record<string, number> = {};
 
     if (checkpoint) {
-      checkpoint.completedModuleIds.forEach(id => completedModuleIds.add(id));
-      checkpoint.failedModuleIds.forEach(id => failedModuleIds.add(id));
-      Object.assign(moduleRetryCount, checkpoint.moduleRetryCount || {});
+      checkpoint.completedModuleIds.filter(inRoadmap).forEach(id => completedModuleIds.add(id));
+      checkpoint.failedModuleIds.filter(inRoadmap).forEach(id => failedModuleIds.add(id));
+      Object.entries(checkpoint.moduleRetryCount || {}).forEach(([id, count]) => {
+        if (inRoadmap(id)) moduleRetryCount[id] = count;
+      });
 
-      completedModules.forEach(m => {
+      completedModules.forEach((m, index) => {
         if (m.roadmapModuleId) {
           completedModuleIds.add(m.roadmapModuleId);
         }
+        const memory = checkpoint.bookMemory?.[m.roadmapModuleId];
+        if (!m.memory && memory) completedModules[index] = { ...m, memory };
       });
     } else {
       completedModules.forEach(m => {
@@ -1074,225 +1258,169 @@ class BookGenerationService {
 
     this.updateProgress(book.id, { status: 'generating_content', progress: 15 });
 
-    for (let i = 0; i < modulesToGenerate.length; i++) {
-      const roadmapModule = modulesToGenerate[i];
-      
-      if (this.isPaused(book.id)) {
-        console.log('⏸ Generation paused, saving checkpoint...');
-        const totalWords = completedModules.reduce((sum, m) => 
-          sum + (m.status === 'completed' ? m.wordCount : 0), 0
-        );
-        
-        this.saveCheckpoint(
-          book.id,
-          Array.from(completedModuleIds),
-          Array.from(failedModuleIds),
-          i - 1,
-          moduleRetryCount,
-          totalWords
-        );
-        
-        this.updateProgress(book.id, {
-          status: 'generating_content',
-          modules: [...completedModules],
-          progress: 15 + ((completedModules.length / book.roadmap.modules.length) * 70)
-        });
-        
-        this.updateGenerationStatus(book.id, {
-          status: 'paused',
-          totalProgress: 0,
-          logMessage: '⏸ Generation paused - progress saved'
-        });
-        
-        return;
+    const roadmap = book.roadmap;
+    const roadmapOrder = (m: BookModule) => roadmap.modules.find(rm => rm.id === m.roadmapModuleId)?.order ?? 0;
+    const totalWordsSoFar = () => completedModules.reduce((sum, m) =>
+      sum + (m.status === 'completed' ? m.wordCount : 0), 0
+    );
+    const persistCheckpoint = (lastIndex: number) => this.saveCheckpoint(
+      book.id,
+      Array.from(completedModuleIds),
+      Array.from(failedModuleIds),
+      lastIndex,
+      moduleRetryCount,
+      totalWordsSoFar(),
+      Object.fromEntries(completedModules.flatMap(m => m.memory ? [[m.roadmapModuleId, m.memory]] : []))
+    );
+
+    const recordModule = (roadmapModule: RoadmapModule, newModule: BookModule, index: number) => {
+      if (newModule.status === 'completed') {
+        completedModuleIds.add(roadmapModule.id);
+        failedModuleIds.delete(roadmapModule.id);
+        delete moduleRetryCount[roadmapModule.id];
+      } else {
+        failedModuleIds.add(roadmapModule.id);
+        moduleRetryCount[roadmapModule.id] = (moduleRetryCount[roadmapModule.id] || 0) + 1;
       }
-      
-      this.clearCurrentGeneratedText(book.id);
 
-      try {
-        const retryCount = moduleRetryCount[roadmapModule.id] || 0;
-        
-        const newModule = await this.generateModuleContentWithRetry(
-          { ...book, modules: completedModules },
-          roadmapModule,
-          session,
-          retryCount + 1
-        );
+      // Parallel modules finish out of order, so keep the book in roadmap order
+      completedModules.push(newModule);
+      completedModules.sort((a, b) => roadmapOrder(a) - roadmapOrder(b));
+      persistCheckpoint(index);
+
+      const doneCount = completedModules.filter(m => m.status === 'completed').length;
+      this.updateProgress(book.id, {
+        modules: [...completedModules],
+        progress: Math.min(85, 15 + ((doneCount / roadmap.modules.length) * 70))
+      });
+    };
 
+    // Usage from an earlier run's failed attempt carries over to the module that replaces it
+    const failedUsage = (roadmapModuleId: string) =>
+      book.modules.find(m => m.roadmapModuleId === roadmapModuleId && m.status === 'error')?.usage || [];
+
+    let nextIndex = 0;
+    // Shared by all workers; the first one to hit a stop condition ends the run
+    const run: { stopReason: 'paused' | 'switch' | 'exhausted' | null; stoppedAt: string } = { stopReason: null, stoppedAt: '' };
+
+    // Each worker pulls the next unclaimed module until the queue is empty or the run stops
+    const runWorker = async () => {
+      while (!run.stopReason && nextIndex < modulesToGenerate.length) {
         if (this.isPaused(book.id)) {
-          console.log('⏸ Generation paused after module completion');
-          const totalWords = completedModules.reduce((sum, m) => 
-            sum + (m.status === 'completed' ? m.wordCount : 0), 0
-          );
-          
-          if (newModule.status === 'completed') {
-            completedModules.push(newModule);
-            completedModuleIds.add(roadmapModule.id);
-          }
-          
-          this.saveCheckpoint(
-            book.id,
-            Array.from(completedModuleIds),
-            Array.from(failedModuleIds),
-            i,
-            moduleRetryCount,
-            totalWords + (newModule.status === 'completed' ? newModule.wordCount : 0)
-          );
-          
-          this.updateProgress(book.id, {
-            status: 'generating_content',
-            modules: [...completedModules]
-          });
-          
-          this.updateGenerationStatus(book.id, {
-            status: 'paused',
-            totalProgress: 0,
-            logMessage: '⏸ Generation paused - progress saved'
-          });
-          
+          run.stopReason = 'paused';
           return;
         }
 
-        if (newModule.status === 'completed') {
-          completedModules.push(newModule);
-          completedModuleIds.add(roadmapModule.id);
-          failedModuleIds.delete(roadmapModule.id);
-          delete moduleRetryCount[roadmapModule.id];
-          
-          const totalWords = completedModules.reduce((sum, m) => 
-            sum + (m.status === 'completed' ? m.wordCount : 0), 0
-          );
-          
-          this.saveCheckpoint(
-            book.id,
-            Array.from(completedModuleIds),
-            Array.from(failedModuleIds),
-            i,
-            moduleRetryCount,
-            totalWords
-          );
-
-          const progress = 15 + ((completedModules.length / book.roadmap.modules.length) * 70);
-          
-          this.updateProgress(book.id, {
-            modules: [...completedModules],
-            progress: Math.min(85, progress)
-          });
+        const index = nextIndex++;
+        const roadmapModule = modulesToGenerate[index];
+        const retryCount = moduleRetryCount[roadmapModule.id] || 0;
 
-        } else {
-          failedModuleIds.add(roadmapModule.id);
-          moduleRetryCount[roadmapModule.id] = (moduleRetryCount[roadmapModule.id] || 0) + 1;
-          
-          const totalWords = completedModules.reduce((sum, m) => 
-            sum + (m.status === 'completed' ? m.wordCount : 0), 0
-          );
-          
-          this.saveCheckpoint(
-            book.id,
-            Array.from(completedModuleIds),
-            Array.from(failedModuleIds),
-            i,
-            moduleRetryCount,
-            totalWords
+        try {
+          const newModule = await this.generateModuleContentWithRetry(
+            { ...book, modules: [...completedModules] },
+            roadmapModule,
+            session,
+            retryCount + 1,
+            0,
+            failedUsage(roadmapModule.id)
           );
 
-          completedModules.push(newModule);
-          this.updateProgress(book.id, { modules: [...completedModules] });
-        }
+          recordModule(roadmapModule, newModule, index);
 
-        if (i < modulesToGenerate.length - 1) {
-          await sleep(1000);
-        }
+          if (this.isPaused(book.id)) {
+            console.log('⏸ Generation paused after module completion');
+            run.stopReason = 'paused';
+            return;
+          }
 
-      } catch (error) {
-        if (error instanceof Error) {
-          if (error.message === 'GENERATION_PAUSED') {
+          if (nextIndex < modulesToGenerate.length) {
+            await sleep(1000);
+          }
+        } catch (error) {
+          if (error instanceof Error && error.message === 'GENERATION_PAUSED') {
             console.log('⏸ Generation paused during module generation');
-            const totalWords = completedModules.reduce((sum, m) => 
-              sum + (m.status === 'completed' ? m.wordCount : 0), 0
-            );
-            
-            this.saveCheckpoint(
-              book.id,
-              Array.from(completedModuleIds),
-              Array.from(failedModuleIds),
-              i - 1,
-              moduleRetryCount,
-              totalWords
-            );
-            
-            this.updateProgress(book.id, {
-              status: 'generating_content',
-              modules: [...completedModules]
-            });
-          
-            this.updateGenerationStatus(book.id, {
-              status: 'paused',
-              totalProgress: 0,
-              logMessage: '⏸ Generation paused by user'
-            });
-          
+            run.stopReason = run.stopReason || 'paused';
             return;
-          } else if (error.message === 'USER_REQUESTED_MODEL_SWITCH') {
-            const totalWords = completedModules.reduce((sum, m) => 
-              sum + (m.status === 'completed' ? m.wordCount : 0), 0
-            );
-            
-            this.saveCheckpoint(
-              book.id,
-              Array.from(completedModuleIds),
-              Array.from(failedModuleIds),
-              i,
-              moduleRetryCount,
-              totalWords
-            );
-            
-            this.updateProgress(book.id, {
-              status: 'generating_content',
-              modules: [...completedModules]
-            });
-            
-            this.updateGenerationStatus(book.id, {
-              status: 'paused',
-              totalProgress: 0,
-              logMessage: '⚙️ Waiting for model switch...'
-            });
-            
+          }
+
+          if (error instanceof Error && error.message === 'USER_REQUESTED_MODEL_SWITCH') {
+            run.stopReason = 'switch';
+            return;
+          }
+
+          const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+          const exhausted = errorMessage.startsWith(FALLBACK_EXHAUSTED);
+
+          recordModule(roadmapModule, {
+            id: generateId(),
+            roadmapModuleId: roadmapModule.id,
+            title: roadmapModule.title,
+            content: '',
+            wordCount: 0,
+            status: 'error',
+            error: exhausted ? errorMessage.slice(FALLBACK_EXHAUSTED.length + 2) : errorMessage,
+            generatedAt: new Date(),
+            usage: error instanceof ModuleGenerationError ? error.usage : failedUsage(roadmapModule.id)
+          }, index);
+
+          if (exhausted) {
+            run.stopReason = 'exhausted';
+            run.stoppedAt = roadmapModule.title;
             return;
           }
         }
+      }
+    };
 
-        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-        
-        failedModuleIds.add(roadmapModule.id);
-        moduleRetryCount[roadmapModule.id] = (moduleRetryCount[roadmapModule.id] || 0) + 1;
-        
-        const totalWords = completedModules.reduce((sum, m) => 
-          sum + (m.status === 'completed' ? m.wordCount : 0), 0
-        );
-        
-        this.saveCheckpoint(
-          book.id,
-          Array.from(completedModuleIds),
-          Array.from(failedModuleIds),
-          i,
-          moduleRetryCount,
-          totalWords
-        );
+    const workerCount = Math.min(this.getModuleConcurrency(), modulesToGenerate.length);
+    await Promise.all(Array.from({ length: workerCount }, () => runWorker()));
+    this.inFlightModules.delete(book.id);
 
-        completedModules.push({
-          id: generateId(),
-          roadmapModuleId: roadmapModule.id,
-          title: roadmapModule.title,
-          content: '',
-          wordCount: 0,
-          status: 'error',
-          error: errorMessage,
-          generatedAt: new Date()
-        });
+    if (run.stopReason) {
+      persistCheckpoint(nextIndex - 1);
+    }
 
-        this.updateProgress(book.id, { modules: [...completedModules] });
-      }
+    if (run.stopReason === 'paused') {
+      this.updateProgress(book.id, {
+        status: 'generating_content',
+        modules: [...completedModules]
+      });
+
+      this.updateGenerationStatus(book.id, {
+        status: 'paused',
+        totalProgress: 0,
+        logMessage: '⏸ Generation paused - progress saved'
+      });
+      return;
+    }
+
+    if (run.stopReason === 'switch') {
+      this.updateProgress(book.id, {
+        status: 'generating_content',
+        modules: [...completedModules]
+      });
+
+      this.updateGenerationStatus(book.id, {
+        status: 'paused',
+        totalProgress: 0,
+        logMessage: '⚙️ Waiting for model switch...'
+      });
+      return;
+    }
+
+    if (run.stopReason === 'exhausted') {
+      this.updateProgress(book.id, {
+        status: 'error',
+        error: `Stopped at "${run.stoppedAt}": every fallback model failed`,
+        modules: [...completedModules]
+      });
+
+      this.updateGenerationStatus(book.id, {
+        status: 'error',
+        totalProgress: 0,
+        logMessage: `✗ Stopped: all fallback models failed for ${run.stoppedAt}`
+      });
+      return;
     }
 
     const hasFailures = completedModules.some(m => m.status === 'error');
@@ -1308,7 +1436,7 @@ class BookGenerationService {
     } else {
       this.clearCheckpoint(book.id);
       try {
-        localStorage.removeItem(`pause_flag_${book.id}`);
+        this.storage.removeItem(`pause_flag_${book.id}`);
         console.log('✓ All modules completed - cleared pause flags');
       } catch (error) {
         console.warn('Failed to clear pause flag:', error);
@@ -1365,7 +1493,10 @@ class BookGenerationService {
         const newModule = await this.generateModuleContentWithRetry(
           { ...book, modules: updatedModules },
           roadmapModule,
-          session
+          session,
+          1,
+          0,
+          failedModule.usage || []
         );
 
         if (this.isPaused(book.id)) {
@@ -1417,37 +1548,31 @@ class BookGenerationService {
 
   async assembleFinalBook(book: BookProject, session: BookSession): Promise<void> {
     this.updateProgress(book.id, { status: 'assembling', progress: 90 });
+    const usage: TokenUsage[] = [];
 
     try {
-      const [introduction, summary, glossary] = await Promise.all([
+      const results = await Promise.allSettled([
         this.generateBookIntroduction(session, book.roadmap!),
         this.generateBookSummary(session, book.modules),
-        this.generateGlossary(book.modules)
+        this.generateGlossary(book.modules, session)
       ]);
-
-      const totalWords = book.modules.reduce((sum, m) => sum + m.wordCount, 0);
-      const providerName = this.getProviderDisplayName();
-      const modelName = this.settings.selectedModel;
-
-      const finalBook = [
-        `# ${book.title}\n`,
-        `**Generated:** ${new Date().toLocaleDateString()}\n`,
-        `**Words:** ${totalWords.toLocaleString()}\n`,
-        `**Provider:** ${providerName} (${modelName})\n\n`,
-        `---\n\n## Table of Contents\n`,
-        this.generateTableOfContents(book.modules),
-        `\n\n---\n\n## Introduction\n\n${introduction}\n\n---\n\n`,
-        ...book.modules.map((m, i) => 
-          `${m.content}\n\n${i < book.modules.length - 1 ? '---\n\n' : ''}`
-        ),
-        `\n---\n\n## Summary\n\n${summary}\n\n---\n\n`,
-        `## Glossary\n\n${glossary}`
-      ].join('');
+      // Sections that were written still cost tokens when another one failed
+      results.forEach(result => { if (result.status === 'fulfilled') usage.push(result.value.usage); });
+      const failure = results.find((result): result is PromiseRejectedResult => result.status === 'rejected');
+      if (failure) throw failure.reason;
+
+      const [introductionResult, summaryResult, glossaryResult] = results.map(result => (result as PromiseFulfilledResult<GenerationResult>).value);
+      const totalWords = sumWords(book.modules);
+      const finalBook = this.buildFinalBookMarkdown(book, book.modules, session, {
+        introduction: introductionResult.content,
+        summary: summaryResult.content,
+        glossary: glossaryResult.content
+      });
 
       this.clearCheckpoint(book.id);
       
       try {
-        localStorage.removeItem(`pause_flag_${book.id}`);
+        this.storage.removeItem(`pause_flag_${book.id}`);
         console.log('✓ Cleared pause flag for completed book:', book.id);
       } catch (error) {
         console.warn('Failed to clear pause flag:', error);
@@ -1457,80 +1582,213 @@ class BookGenerationService {
         status: 'completed',
         progress: 100,
         finalBook,
-        totalWords
+        totalWords,
+        addedUsage: usage
       });
     } catch (error) {
-      this.updateProgress(book.id, { status: 'error', error: 'Book assembly failed' });
+      this.updateProgress(book.id, { status: 'error', error: 'Book assembly failed', addedUsage: usage });
       throw error;
     }
   }
 
-  private getProviderDisplayName(): string {
-    const names: Record<string, string> = { 
-      google: 'Google Gemini', 
-      mistral: 'Mistral AI', 
-      zhipu: 'ZhipuAI',
-      groq: 'Groq'
+  private buildFinalBookMarkdown(book: BookProject, modules: BookModule[], session: BookSession, sections: BookSections): string {
+    const totalWords = sumWords(modules);
+    const chapterTarget = this.resolveModelTarget('module', session.modelRouting);
+    const providerName = this.getProviderDisplayName(chapterTarget.provider);
+    const modelName = chapterTarget.model;
+    const { headings } = getLanguage(session.language);
+
+    return [
+      `# ${book.title}\n`,
+      `**Generated:** ${new Date().toLocaleDateString()}\n`,
+      `**Words:** ${totalWords.toLocaleString()}\n`,
+      `**Provider:** ${providerName} (${modelName})\n\n`,
+      `---\n\n## ${headings.contents}\n`,
+      this.generateTableOfContents(modules),
+      `\n\n---\n\n## ${headings.introduction}\n\n${sections.introduction}\n\n---\n\n`,
+      ...modules.map((m, i) => 
+        `${m.content}\n\n${i < modules.length - 1 ? '---\n\n' : ''}`
+      ),
+      `\n---\n\n## ${headings.summary}\n\n${sections.summary}\n\n---\n\n`,
+      `## ${headings.glossary}\n\n${sections.glossary}`
+    ].join('');
+  }
+
+  // Reads the AI-written sections back out of an assembled book, by the headings
+  // buildFinalBookMarkdown put around them
+  private extractBookSections(finalBook: string, language?: string): BookSections | null {
+    const { headings } = getLanguage(language);
+    const sectionAfter = (heading: string, from: 'first' | 'last') => {
+      const marker = `## ${heading}\n\n`;
+      const start = from === 'first' ? finalBook.indexOf(marker) : finalBook.lastIndexOf(marker);
+      if (start === -1) return null;
+      const body = finalBook.slice(start + marker.length);
+      const end = body.indexOf('\n\n---\n\n');
+      return (end === -1 ? body : body.slice(0, end)).trim();
     };
-    return names[this.settings.selectedProvider] || 'AI';
+
+    const introduction = sectionAfter(headings.introduction, 'first');
+    const summary = sectionAfter(headings.summary, 'last');
+    const glossary = sectionAfter(headings.glossary, 'last');
+    return introduction !== null && summary !== null && glossary !== null ? { introduction, summary, glossary } : null;
+  }
+
+  // Rewrites one chapter of a finished book, fresh or following the reader's
+  // instructions, and puts it back into finalBook without regenerating anything else
+  // Each chapter is rewritten into the book the previous one produced, so none of a batch's
+  // rewrites are lost. A failure stops the batch; the chapters before it stay rewritten.
+  async regenerateChapters(book: BookProject, session: BookSession, rewrites: ChapterRewrite[]): Promise<void> {
+    let current = book;
+    for (const { moduleId, instructions } of rewrites) {
+      current = { ...current, ...await this.regenerateChapter(current, session, moduleId, instructions) };
+    }
+  }
+
+  private async regenerateChapter(
+    book: BookProject,
+    session: BookSession,
+    moduleId: string,
+    instructions?: string
+  ): Promise<Pick<BookProject, 'modules' | 'finalBook' | 'totalWords'>> {
+    const existing = book.modules.find(m => m.id === moduleId);
+    const roadmapModule = book.roadmap?.modules.find(rm => rm.id === existing?.roadmapModuleId);
+    if (!existing || !roadmapModule || !book.finalBook) {
+      throw new Error('Chapter not found');
+    }
+
+    this.resumeGeneration(book.id);
+    // Text left by an interrupted earlier attempt belongs to a different request
+    this.savePartialText(book.id, roadmapModule.id, null);
+
+    const revisionInstructions = instructions?.trim() || undefined;
+    let generated: BookModule;
+    try {
+      generated = await this.generateModuleContentWithRetry(book, roadmapModule, { ...session, revisionInstructions });
+    } finally {
+      this.clearCheckpoint(book.id);
+    }
+    if (generated.status !== 'completed') {
+      throw new Error(generated.error || 'Chapter generation failed');
+    }
+
+    const module: BookModule = {
+      ...generated,
+      id: existing.id,
+      revisionInstructions,
+      previousVersion: toModuleVersion(existing),
+      usage: [...(existing.usage || []), ...(generated.usage || [])]
+    };
+    const modules = book.modules.map(m => m.id === moduleId ? module : m);
+    const totalWords = sumWords(modules);
+
+    let finalBook = replaceChapterInBook(book.finalBook, existing.content, module.content, totalWords);
+    if (finalBook === null) {
+      const sections = this.extractBookSections(book.finalBook, session.language);
+      if (!sections) {
+        throw new Error('The book was edited too much to place the new chapter. Your edits were kept.');
+      }
+      finalBook = this.buildFinalBookMarkdown(book, modules, session, sections);
+    }
+
+    this.updateProgress(book.id, { modules, finalBook, totalWords });
+    return { modules, finalBook, totalWords };
+  }
+
+  private getProviderDisplayName(provider: string): string {
+    return providerRegistry.get(provider)?.displayName || 'AI';
   }
 
   private generateTableOfContents(modules: BookModule[]): string {
     return modules.map((m, i) => 
-      `${i + 1}. [${m.title}](#${m.title.toLowerCase().replace(/[^a-z0-9]+/g, '-')})`
+      `${i + 1}. [${m.title}](#${m.title.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, '-')})`
     ).join('\n');
   }
 
-  private async generateBookIntroduction(session: BookSession, roadmap: BookRoadmap): Promise<string> {
-    const prompt = `Generate a compelling introduction for: "${session.goal}"
+  private async generateBookIntroduction(session: BookSession, roadmap: BookRoadmap): Promise<GenerationResult> {
+    const template = resolvePromptTemplate('introduction', this.settings.promptTemplates, session.promptTemplates);
+    const prompt = renderPromptTemplate(template, buildIntroductionVariables(session, roadmap));
 
-ROADMAP:
-${roadmap.modules.map(m => `- ${m.title}`).join('\n')}
+    return await this.generateWithCache(prompt, undefined, session, 'introduction');
+  }
 
-TARGET: ${session.targetAudience || 'general learners'}
-LEVEL: ${roadmap.difficultyLevel}
+  private async generateBookSummary(session: BookSession, modules: BookModule[]): Promise<GenerationResult> {
+    const template = resolvePromptTemplate('summary', this.settings.promptTemplates, session.promptTemplates);
+    const prompt = renderPromptTemplate(template, buildSummaryVariables(session, modules));
 
-Write 800-1200 words covering:
-- Welcome and book purpose
-- What readers will learn
-- Book structure overview
-- Motivation and expectations
-Use engaging tone with ## markdown headers.`;
+    return await this.generateWithCache(prompt, undefined, session, 'summary');
+  }
+
+  private async generateGlossary(modules: BookModule[], session: BookSession): Promise<GenerationResult> {
+    const template = resolvePromptTemplate('glossary', this.settings.promptTemplates, session.promptTemplates);
+    const prompt = renderPromptTemplate(template, buildGlossaryVariables(session, modules));
 
-    return await this.generateWithAI(prompt, undefined, undefined, session);
+    return await this.generateWithCache(prompt, undefined, session, 'glossary');
   }
 
-  private async generateBookSummary(session: BookSession, modules: BookModule[]): Promise<string> {
-    const prompt = `Generate summary for: "${session.goal}"
+  // Only chapters without cards are sent to the model, so running it again fills in gaps
+  // without disturbing the schedule of cards already being reviewed
+  async generateFlashcards(book: BookProject, session: BookSession): Promise<number> {
+    const chapters = book.modules.filter(m => m.status === 'completed');
+    const flashcards: Flashcard[] = [...(book.flashcards || [])];
+    const usage: TokenUsage[] = [];
+    const existingFronts = new Set(flashcards.map(card => card.front.toLowerCase()));
+    const glossaryTerms = new Map<string, string[]>();
+    let added = 0;
+    let failed = 0;
+
+    parseGlossaryEntries(book.finalBook || '', session.language).forEach(({ term, definition }) => {
+      const moduleId = findModuleForTerm(term, chapters)?.roadmapModuleId;
+      if (moduleId) glossaryTerms.set(moduleId, [...(glossaryTerms.get(moduleId) || []), term]);
+      if (existingFronts.has(term.toLowerCase())) return;
+
+      flashcards.push(createFlashcard(term, definition, 'glossary', moduleId));
+      added++;
+    });
 
-MODULES:
-${modules.map(m => `- ${m.title}`).join('\n')}
+    for (const module of chapters) {
+      if (flashcards.some(card => card.source === 'chapter' && card.moduleId === module.roadmapModuleId)) continue;
 
-Write 600-900 words covering:
-- Key learning outcomes
-- Important concepts recap
-- Next steps guidance
-- Congratulations to reader`;
+      const requestId = `${book.id}:${module.roadmapModuleId}:flashcards`;
+      const terms = glossaryTerms.get(module.roadmapModuleId) || [];
+      const result = await this.generateModuleFlashcards(requestId, session, module, terms);
+      usage.push(...result.usage);
 
-    return await this.generateWithAI(prompt, undefined, undefined, session);
-  }
+      if (!result.cards) {
+        failed++;
+        continue;
+      }
+      const cards = result.cards.map(card => createFlashcard(card.front, card.back, 'chapter', module.roadmapModuleId));
+      flashcards.push(...cards);
+      added += cards.length;
+      this.updateProgress(book.id, { flashcards: [...flashcards] });
+    }
 
-  private async generateGlossary(modules: BookModule[]): Promise<string> {
-    const content = modules.map(m => m.content).join('\n\n').substring(0, 12000);
-    
-    const prompt = `Extract key terms from this content and create a glossary:
-${content}
+    if (added === 0 && failed > 0) {
+      this.updateProgress(book.id, { addedUsage: usage });
+      throw new Error('Flashcard generation failed');
+    }
 
-Create 20-30 terms with:
-- Clear 1-2 sentence definitions
-- Alphabetical order
-- Focus on technical/important terms
+    this.updateProgress(book.id, { flashcards, addedUsage: usage });
+    return added;
+  }
 
-Format:
-**Term**: Definition.
-**Term 2**: Definition.`;
+  private async generateModuleFlashcards(
+    requestId: string,
+    session: BookSession,
+    module: BookModule,
+    glossaryTerms: string[]
+  ): Promise<{ cards?: FlashcardDraft[]; usage: TokenUsage[] }> {
+    const template = resolvePromptTemplate('flashcards', this.settings.promptTemplates, session.promptTemplates);
+    const basePrompt = renderPromptTemplate(template, buildFlashcardVariables(session, module, glossaryTerms));
+    const usage: TokenUsage[] = [];
 
-    return await this.generateWithAI(prompt);
+    try {
+      const cards = await this.generateValidatedJson(requestId, session, 'flashcards', FLASHCARD_RESPONSE_SCHEMA, parseFlashcards, basePrompt, usage);
+      return { cards, usage };
+    } catch (error) {
+      console.warn(`Flashcard generation failed for ${module.title}:`, error);
+    }
+    return { usage };
   }
 
   downloadAsMarkdown(project: BookProject): void {
@@ -1538,7 +1796,7 @@ Format:
       throw new Error('No book content available');
     }
 
-    const blob = new Blob([project.finalBook], { type: 'text/markdown;charset=utf-8' });
+    const blob = new Blob([buildBookWithQuizzes(project.finalBook, project.modules)], { type: 'text/markdown;charset=utf-8' });
     const url = URL.createObjectURL(blob);
     const a = document.createElement('a');
     const safeTitle = project.title.replace(/[^a-z0-9\s-]/gi, '').replace(/\s+/g, '_').toLowerCase().substring(0, 50);
@@ -1554,10 +1812,13 @@ Format:
 
   cancelActiveRequests(bookId?: string): void {
     if (bookId) {
-      if (this.activeRequests.has(bookId)) {
-        this.activeRequests.get(bookId)?.abort();
-        this.activeRequests.delete(bookId);
-      }
+      // Module requests are keyed `${bookId}:${moduleId}`
+      this.activeRequests.forEach((controller, requestId) => {
+        if (requestId === bookId || requestId.startsWith(`${bookId}:`)) {
+          controller.abort();
+          this.activeRequests.delete(requestId);
+        }
+      });
       this.pauseGeneration(bookId);
     } else {
       this.activeRequests.forEach(controller => controller.abort());
@@ -1566,20 +1827,25 @@ Format:
   }
 
   hasCheckpoint(bookId: string): boolean {
-    return this.checkpoints.has(bookId) || localStorage.getItem(`checkpoint_${bookId}`) !== null;
+    return this.checkpoints.has(bookId) || this.storage.getItem(`checkpoint_${bookId}`) !== null;
   }
 
-  getCheckpointInfo(bookId: string): { completed: number; failed: number; total: number; lastSaved: string } | null {
+  // With a roadmap, only its current modules are counted and the total is its length
+  getCheckpointInfo(bookId: string, roadmap?: BookRoadmap): { completed: number; failed: number; total: number; lastSaved: string } | null {
     const checkpoint = this.loadCheckpoint(bookId);
     if (!checkpoint) return null;
-    
-    const completed = Array.isArray(checkpoint.completedModuleIds) ? checkpoint.completedModuleIds.length : 0;
-    const failed = Array.isArray(checkpoint.failedModuleIds) ? checkpoint.failedModuleIds.length : 0;
+
+    const roadmapIds = roadmap ? new Set(roadmap.modules.map(m => m.id)) : null;
+    const count = (ids: unknown) => Array.isArray(ids)
+      ? ids.filter(id => !roadmapIds || roadmapIds.has(id)).length
+      : 0;
+    const completed = count(checkpoint.completedModuleIds);
+    const failed = count(checkpoint.failedModuleIds);
 
     return {
       completed: completed,
       failed: failed,
-      total: completed + failed,
+      total: roadmap ? roadmap.modules.length : completed + failed,
       lastSaved: new Date(checkpoint.timestamp).toLocaleString()
     };
   }
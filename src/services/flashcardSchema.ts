@@ -0,0 +1,58 @@
+// src/services/flashcardSchema.ts
+import { JsonSchema } from './providers';
+import { JsonParseResult, isNonEmptyString, parseJsonResponse } from './jsonSchema';
+
+export interface FlashcardDraft {
+  front: string;
+  back: string;
+}
+
+export const FLASHCARD_RESPONSE_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    cards: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          front: { type: 'string' },
+          back: { type: 'string' }
+        },
+        required: ['front', 'back']
+      }
+    }
+  },
+  required: ['cards']
+};
+
+export function validateFlashcards(data: unknown): string[] {
+  if (!data || typeof data !== 'object' || Array.isArray(data)) {
+    return ['root: expected a JSON object'];
+  }
+
+  const { cards } = data as Record<string, unknown>;
+  if (!Array.isArray(cards) || cards.length === 0) {
+    return ['cards: expected a non-empty array of card objects'];
+  }
+
+  const errors: string[] = [];
+  cards.forEach((item: unknown, index) => {
+    const path = `cards[${index}]`;
+    if (!item || typeof item !== 'object') {
+      errors.push(`${path}: expected an object`);
+      return;
+    }
+
+    const { front, back } = item as Record<string, unknown>;
+    if (!isNonEmptyString(front)) errors.push(`${path}.front: expected a non-empty string`);
+    if (!isNonEmptyString(back)) errors.push(`${path}.back: expected a non-empty string`);
+  });
+
+  return errors;
+}
+
+export function parseFlashcards(response: string): JsonParseResult<FlashcardDraft[]> {
+  return parseJsonResponse(response, validateFlashcards, data =>
+    (data as { cards: FlashcardDraft[] }).cards.map(card => ({ front: card.front.trim(), back: card.back.trim() }))
+  );
+}
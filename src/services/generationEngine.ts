@@ -0,0 +1,161 @@
+// src/services/generationEngine.ts
+// Main-thread handle on the generation worker; mirrors the bookService calls the UI makes
+import { APISettings, BookProgressUpdate, BookProject, BookRoadmap, BookSession, ChapterRewrite } from '../types';
+import { storageUtils } from '../utils/storage';
+import { apiKeyPool } from './apiKeyPool';
+import type { GenerationStatus } from './bookService';
+import { EngineCall, EngineEvent, EngineRequest, isEngineStorageKey, RetryDecision } from './generationProtocol';
+
+interface PendingCall {
+  resolve: (value: unknown) => void;
+  reject: (error: Error) => void;
+}
+
+class GenerationEngine {
+  private worker: Worker | null = null;
+  private nextCallId = 1;
+  private pending = new Map<number, PendingCall>();
+  private onProgressUpdate?: (bookId: string, updates: BookProgressUpdate) => void;
+  private onGenerationStatusUpdate?: (bookId: string, status: GenerationStatus) => void;
+
+  private start(settings: APISettings): Worker {
+    const worker = new Worker(new URL('./generationWorker.ts', import.meta.url), { type: 'module' });
+    worker.addEventListener('message', (event: MessageEvent<EngineEvent>) => this.handleEvent(event.data));
+    worker.addEventListener('error', event => {
+      console.error('Generation worker crashed:', event.message);
+      this.rejectAll(new Error(event.message || 'Generation worker crashed'));
+    });
+
+    // The worker can't reach localStorage, so it starts from a copy of the engine's keys
+    const snapshot: Record<string, string> = {};
+    for (let i = 0; i < localStorage.length; i++) {
+      const key = localStorage.key(i);
+      if (key && isEngineStorageKey(key)) snapshot[key] = localStorage.getItem(key) ?? '';
+    }
+
+    const init: EngineRequest = { type: 'init', settings, storage: snapshot };
+    worker.postMessage(init);
+    this.worker = worker;
+    return worker;
+  }
+
+  private post(request: EngineRequest) {
+    (this.worker ?? this.start(storageUtils.getSettings())).postMessage(request);
+  }
+
+  private handleEvent(event: EngineEvent) {
+    switch (event.type) {
+      case 'progress':
+        this.onProgressUpdate?.(event.bookId, event.updates);
+        break;
+      case 'status':
+        this.onGenerationStatusUpdate?.(event.bookId, event.status);
+        break;
+      case 'result':
+        this.pending.get(event.id)?.resolve(event.value);
+        this.pending.delete(event.id);
+        break;
+      case 'error': {
+        const error = new Error(event.message);
+        error.name = event.name;
+        this.pending.get(event.id)?.reject(error);
+        this.pending.delete(event.id);
+        break;
+      }
+      case 'storage':
+        try {
+          if (event.value === null) localStorage.removeItem(event.key);
+          else localStorage.setItem(event.key, event.value);
+        } catch (error) {
+          console.warn('Failed to mirror engine storage:', error);
+        }
+        if (event.key === 'pustakam-key-health') apiKeyPool.reload();
+        break;
+    }
+  }
+
+  private rejectAll(error: Error) {
+    this.pending.forEach(call => call.reject(error));
+    this.pending.clear();
+  }
+
+  private call<T>(call: EngineCall): Promise<T> {
+    const id = this.nextCallId++;
+    return new Promise<T>((resolve, reject) => {
+      this.pending.set(id, { resolve: value => resolve(value as T), reject });
+      this.post({ type: 'call', id, ...call });
+    });
+  }
+
+  updateSettings(settings: APISettings) {
+    if (this.worker) this.post({ type: 'updateSettings', settings });
+    else this.start(settings);
+  }
+
+  setProgressCallback(callback: (bookId: string, updates: BookProgressUpdate) => void) {
+    this.onProgressUpdate = callback;
+  }
+
+  setGenerationStatusCallback(callback: (bookId: string, status: GenerationStatus) => void) {
+    this.onGenerationStatusUpdate = callback;
+  }
+
+  generateRoadmap(session: BookSession, bookId: string): Promise<BookRoadmap> {
+    return this.call({ method: 'generateRoadmap', args: [session, bookId] });
+  }
+
+  generateModuleObjectives(book: BookProject, session: BookSession, roadmap: BookRoadmap, moduleId: string): Promise<string[]> {
+    return this.call({ method: 'generateModuleObjectives', args: [book, session, roadmap, moduleId] });
+  }
+
+  generateAllModulesWithRecovery(book: BookProject, session: BookSession): Promise<void> {
+    return this.call({ method: 'generateAllModulesWithRecovery', args: [book, session] });
+  }
+
+  retryFailedModules(book: BookProject, session: BookSession): Promise<void> {
+    return this.call({ method: 'retryFailedModules', args: [book, session] });
+  }
+
+  assembleFinalBook(book: BookProject, session: BookSession): Promise<void> {
+    return this.call({ method: 'assembleFinalBook', args: [book, session] });
+  }
+
+  regenerateChapters(book: BookProject, session: BookSession, rewrites: ChapterRewrite[]): Promise<void> {
+    return this.call({ method: 'regenerateChapters', args: [book, session, rewrites] });
+  }
+
+  generateFlashcards(book: BookProject, session: BookSession): Promise<number> {
+    return this.call({ method: 'generateFlashcards', args: [book, session] });
+  }
+
+  pauseGeneration(bookId: string) {
+    this.post({ type: 'pause', bookId });
+  }
+
+  resumeGeneration(bookId: string) {
+    this.post({ type: 'resume', bookId });
+  }
+
+  // Read from the page's mirror of the worker's storage, so it answers without a round trip
+  isPaused(bookId: string): boolean {
+    try {
+      return localStorage.getItem(`pause_flag_${bookId}`) === 'true';
+    } catch {
+      return false;
+    }
+  }
+
+  setRetryDecision(bookId: string, decision: RetryDecision) {
+    this.post({ type: 'retryDecision', bookId, decision });
+  }
+
+  cancelActiveRequests(bookId?: string) {
+    this.post({ type: 'cancel', bookId });
+  }
+
+  clearBookState(bookId: string) {
+    this.post({ type: 'clearBookState', bookId });
+  }
+}
+
+export const generationEngine = new GenerationEngine();
@@ -0,0 +1,67 @@
+// src/services/generationProtocol.ts
+import { APISettings, BookProgressUpdate, BookProject, BookRoadmap, BookSession, ChapterRewrite } from '../types';
+import type { GenerationStatus } from './bookService';
+
+// The slice of `Storage` the engine needs; lets the worker stand in for localStorage
+export interface KeyValueStorage {
+  getItem(key: string): string | null;
+  setItem(key: string, value: string): void;
+  removeItem(key: string): void;
+}
+
+// localStorage keys owned by the engine and mirrored into the worker
+export const ENGINE_STORAGE_PREFIXES = ['checkpoint_', 'pause_flag_', 'pustakam-key-health'];
+
+export type RetryDecision = 'retry' | 'switch' | 'skip';
+
+// Long-running engine methods that the page awaits
+export type EngineCall =
+  | { method: 'generateRoadmap'; args: [session: BookSession, bookId: string] }
+  | { method: 'generateModuleObjectives'; args: [book: BookProject, session: BookSession, roadmap: BookRoadmap, moduleId: string] }
+  | { method: 'generateAllModulesWithRecovery'; args: [book: BookProject, session: BookSession] }
+  | { method: 'retryFailedModules'; args: [book: BookProject, session: BookSession] }
+  | { method: 'assembleFinalBook'; args: [book: BookProject, session: BookSession] }
+  | { method: 'regenerateChapters'; args: [book: BookProject, session: BookSession, rewrites: ChapterRewrite[]] }
+  | { method: 'generateFlashcards'; args: [book: BookProject, session: BookSession] };
+
+// Page → worker
+export type EngineRequest =
+  | { type: 'init'; settings: APISettings; storage: Record<string, string> }
+  | { type: 'updateSettings'; settings: APISettings }
+  | ({ type: 'call'; id: number } & EngineCall)
+  | { type: 'pause'; bookId: string }
+  | { type: 'resume'; bookId: string }
+  | { type: 'retryDecision'; bookId: string; decision: RetryDecision }
+  | { type: 'cancel'; bookId?: string }
+  | { type: 'clearBookState'; bookId: string };
+
+// Worker → page
+export type EngineEvent =
+  | { type: 'progress'; bookId: string; updates: BookProgressUpdate }
+  | { type: 'status'; bookId: string; status: GenerationStatus }
+  | { type: 'result'; id: number; value: unknown }
+  | { type: 'error'; id: number; message: string; name: string }
+  | { type: 'storage'; key: string; value: string | null };
+
+export function isEngineStorageKey(key: string): boolean {
+  return ENGINE_STORAGE_PREFIXES.some(prefix => key.startsWith(prefix));
+}
+
+// Reads come from a snapshot taken when the worker starts; writes are also reported to the page
+export function createMirroredStorage(
+  snapshot: Record<string, string>,
+  onWrite: (key: string, value: string | null) => void
+): KeyValueStorage {
+  const items = new Map(Object.entries(snapshot));
+  return {
+    getItem: key => items.get(key) ?? null,
+    setItem: (key, value) => {
+      items.set(key, value);
+      onWrite(key, value);
+    },
+    removeItem: key => {
+      items.delete(key);
+      onWrite(key, null);
+    }
+  };
+}
@@ -0,0 +1,124 @@
+// src/services/generationQueue.ts
+import { BookProject, BookSession, GENERATION_STAGES, GenerationStage, QueueJob, QueueJobKind, QueuePriority, QueueStep, StageModelRouting, TokenUsage } from '../types/book';
+import { generateId } from '../utils/helpers';
+
+const PRIORITY_RANK: Record<QueuePriority, number> = { high: 0, normal: 1, low: 2 };
+// Revisions only have a prompt of their own; they are written by the module stage's model
+const ROUTED_STAGES = GENERATION_STAGES.filter(stage => stage !== 'revision');
+
+// Used until the library has timings of its own
+const DEFAULT_SECONDS: Record<QueueStep, number> = { roadmap: 30, chapters: 90, assembly: 60 };
+const DEFAULT_CHAPTER_COUNT = 8;
+
+export type QueueStepDecision =
+  | { type: 'run'; step: QueueStep }
+  | { type: 'done' }
+  | { type: 'paused' }
+  | { type: 'failed'; error: string };
+
+export function createQueueJob(bookId: string, kind: QueueJobKind, session: BookSession, priority: QueuePriority = 'normal'): QueueJob {
+  return { id: generateId(), bookId, kind, priority, status: 'queued', session, createdAt: new Date() };
+}
+
+export function isPendingJob(job: QueueJob): boolean {
+  return job.status === 'queued' || job.status === 'running' || job.status === 'paused';
+}
+
+// Execution order: running first, then by priority, keeping queue position within a priority
+export function orderQueue(jobs: QueueJob[]): QueueJob[] {
+  return jobs
+    .map((job, index) => ({ job, index }))
+    .sort((a, b) =>
+      Number(b.job.status === 'running') - Number(a.job.status === 'running') ||
+      PRIORITY_RANK[a.job.priority] - PRIORITY_RANK[b.job.priority] ||
+      a.index - b.index
+    )
+    .map(({ job }) => job);
+}
+
+export function pickNextJob(jobs: QueueJob[]): QueueJob | undefined {
+  return orderQueue(jobs).find(job => job.status === 'queued');
+}
+
+// Swaps with the nearest waiting job of the same priority; priority itself decides the rest
+export function moveQueueJob(jobs: QueueJob[], jobId: string, direction: -1 | 1): QueueJob[] {
+  const job = jobs.find(j => j.id === jobId);
+  if (!job) return jobs;
+
+  const peers = orderQueue(jobs).filter(j => j.status === 'queued' && j.priority === job.priority);
+  const neighbour = peers[peers.indexOf(job) + direction];
+  if (!neighbour) return jobs;
+
+  const next = [...jobs];
+  const from = next.indexOf(job);
+  const to = next.indexOf(neighbour);
+  [next[from], next[to]] = [next[to], next[from]];
+  return next;
+}
+
+export function canMoveQueueJob(jobs: QueueJob[], jobId: string, direction: -1 | 1): boolean {
+  return moveQueueJob(jobs, jobId, direction) !== jobs;
+}
+
+export function getJobSession(job: QueueJob): BookSession {
+  if (!job.modelTarget) return job.session;
+  const target = job.modelTarget;
+  const modelRouting: StageModelRouting = Object.fromEntries(ROUTED_STAGES.map(stage => [stage, target]));
+  return { ...job.session, modelRouting };
+}
+
+// What the running job should do next, judged from the book as it stands now
+export function getNextQueueStep(job: QueueJob, book: BookProject | undefined): QueueStepDecision {
+  if (!book) return { type: 'failed', error: 'Book was deleted' };
+  if (book.status === 'error') return { type: 'failed', error: book.error || 'Generation failed' };
+  if (book.status === 'completed') return { type: 'done' };
+  if (!book.roadmap) return { type: 'run', step: 'roadmap' };
+  if (job.kind === 'roadmap') return { type: 'done' };
+
+  const chaptersDone =
+    book.modules.length === book.roadmap.modules.length &&
+    book.modules.every(m => m.status === 'completed');
+  if (chaptersDone) return { type: 'run', step: 'assembly' };
+
+  // Chapter generation returns early, without an error, when paused or waiting for a model switch
+  if (job.step === 'chapters') return { type: 'paused' };
+  return { type: 'run', step: 'chapters' };
+}
+
+// Average seconds per step, from calls the library has already made
+export function getStepDurations(books: BookProject[]): Record<QueueStep, number> {
+  const records: TokenUsage[] = books.flatMap(book => [
+    ...(book.usage || []),
+    ...book.modules.flatMap(m => m.usage || [])
+  ]).filter(usage => !usage.cached && usage.durationMs > 0);
+
+  const average = (stages: GenerationStage[], fallback: number) => {
+    const matching = records.filter(usage => stages.includes(usage.stage));
+    if (matching.length === 0) return fallback;
+    return matching.reduce((sum, usage) => sum + usage.durationMs, 0) / matching.length / 1000;
+  };
+
+  return {
+    roadmap: average(['roadmap'], DEFAULT_SECONDS.roadmap),
+    chapters: average(['module'], DEFAULT_SECONDS.chapters),
+    // Introduction, summary and glossary run side by side
+    assembly: average(['introduction', 'summary', 'glossary'], DEFAULT_SECONDS.assembly)
+  };
+}
+
+export function estimateJobSeconds(
+  job: QueueJob,
+  book: BookProject | undefined,
+  durations: Record<QueueStep, number>,
+  concurrency: number
+): number {
+  if (!book || !isPendingJob(job)) return 0;
+
+  let seconds = book.roadmap ? 0 : durations.roadmap;
+  if (job.kind === 'full' && book.status !== 'completed') {
+    const totalChapters = book.roadmap?.modules.length ?? DEFAULT_CHAPTER_COUNT;
+    const remaining = totalChapters - book.modules.filter(m => m.status === 'completed').length;
+    seconds += Math.ceil(remaining / Math.max(1, concurrency)) * durations.chapters + durations.assembly;
+  }
+  return Math.round(seconds);
+}
@@ -0,0 +1,89 @@
+// src/services/generationWorker.ts
+// Hosts the generation engine off the main thread; the page talks to it through `generationEngine`
+import { APISettings } from '../types';
+import { bookService } from './bookService';
+import { apiKeyPool } from './apiKeyPool';
+import { resetMockFailures } from './providers';
+import { createMirroredStorage, EngineEvent, EngineRequest } from './generationProtocol';
+
+const post = (event: EngineEvent) => self.postMessage(event);
+
+let mockSettingsJson: string | undefined;
+
+// Injected failures restart whenever the mock is reconfigured
+function applySettings(settings: APISettings) {
+  const nextMockJson = JSON.stringify(settings.mockSettings ?? null);
+  if (mockSettingsJson !== undefined && nextMockJson !== mockSettingsJson) resetMockFailures();
+  mockSettingsJson = nextMockJson;
+  bookService.updateSettings(settings);
+}
+
+async function runCall(request: EngineRequest & { type: 'call' }) {
+  try {
+    let value: unknown;
+    switch (request.method) {
+      case 'generateRoadmap':
+        value = await bookService.generateRoadmap(...request.args);
+        break;
+      case 'generateModuleObjectives':
+        value = await bookService.generateModuleObjectives(...request.args);
+        break;
+      case 'generateAllModulesWithRecovery':
+        value = await bookService.generateAllModulesWithRecovery(...request.args);
+        break;
+      case 'retryFailedModules':
+        value = await bookService.retryFailedModules(...request.args);
+        break;
+      case 'assembleFinalBook':
+        value = await bookService.assembleFinalBook(...request.args);
+        break;
+      case 'regenerateChapters':
+        value = await bookService.regenerateChapters(...request.args);
+        break;
+      case 'generateFlashcards':
+        value = await bookService.generateFlashcards(...request.args);
+        break;
+    }
+    post({ type: 'result', id: request.id, value });
+  } catch (error) {
+    const err = error instanceof Error ? error : new Error(String(error));
+    post({ type: 'error', id: request.id, message: err.message, name: err.name });
+  }
+}
+
+self.addEventListener('message', (event: MessageEvent<EngineRequest>) => {
+  const request = event.data;
+
+  switch (request.type) {
+    case 'init': {
+      const storage = createMirroredStorage(request.storage, (key, value) => post({ type: 'storage', key, value }));
+      bookService.setStorage(storage);
+      apiKeyPool.setStorage(storage);
+      bookService.setProgressCallback((bookId, updates) => post({ type: 'progress', bookId, updates }));
+      bookService.setGenerationStatusCallback((bookId, status) => post({ type: 'status', bookId, status }));
+      applySettings(request.settings);
+      break;
+    }
+    case 'updateSettings':
+      applySettings(request.settings);
+      break;
+    case 'call':
+      runCall(request);
+      break;
+    case 'pause':
+      bookService.pauseGeneration(request.bookId);
+      break;
+    case 'resume':
+      bookService.resumeGeneration(request.bookId);
+      break;
+    case 'retryDecision':
+      bookService.setRetryDecision(request.bookId, request.decision);
+      break;
+    case 'cancel':
+      bookService.cancelActiveRequests(request.bookId);
+      break;
+    case 'clearBookState':
+      bookService.clearBookState(request.bookId);
+      break;
+  }
+});
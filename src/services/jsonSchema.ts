@@ -0,0 +1,57 @@
+// src/services/jsonSchema.ts
+
+// Response schemas are sent to providers with a native structured-output mode, so every
+// one of them is kept to the subset Gemini accepts
+
+export interface JsonParseResult<T> {
+  value?: T;
+  // One entry per problem, naming the offending field, e.g. `modules[2].objectives: ...`
+  errors: string[];
+}
+
+export const isNonEmptyString = (value: unknown): value is string =>
+  typeof value === 'string' && value.trim().length > 0;
+
+// Models sometimes wrap JSON in fences or add a sentence around it
+export function extractJsonText(response: string): string | null {
+  const unfenced = response.replace(/```(?:json)?/gi, '');
+  const start = unfenced.indexOf('{');
+  if (start === -1) return null;
+  // An unclosed object is handed to JSON.parse so the error says where it broke off
+  const end = unfenced.lastIndexOf('}');
+  return end > start ? unfenced.slice(start, end + 1) : unfenced.slice(start);
+}
+
+// Validates the answer and only builds the value once it has passed
+export function parseJsonResponse<T>(
+  response: string,
+  validate: (data: unknown) => string[],
+  build: (data: unknown) => T
+): JsonParseResult<T> {
+  const jsonText = extractJsonText(response);
+  if (!jsonText) {
+    return { errors: ['root: no JSON object found in the response'] };
+  }
+
+  let data: unknown;
+  try {
+    data = JSON.parse(jsonText);
+  } catch (error) {
+    return { errors: [`root: invalid JSON (${(error as Error).message})`] };
+  }
+
+  const errors = validate(data);
+  return errors.length > 0 ? { errors } : { value: build(data), errors: [] };
+}
+
+export function buildJsonRepairPrompt(originalPrompt: string, response: string, errors: string[]): string {
+  return `${originalPrompt}
+
+Your previous answer could not be used:
+${response.trim().slice(0, 6000)}
+
+It failed validation with these errors:
+${errors.map(error => `- ${error}`).join('\n')}
+
+Fix exactly these problems and return ONLY the corrected JSON object, with no commentary or code fences.`;
+}
@@ -0,0 +1,83 @@
+// src/services/memorySchema.ts
+import { ChapterMemory, MemoryTerm } from '../types';
+import { JsonSchema } from './providers';
+import { JsonParseResult, isNonEmptyString, parseJsonResponse } from './jsonSchema';
+
+const LIST_KEYS = ['concepts', 'examples', 'promises'] as const;
+
+// Models sometimes ignore the requested limits; anything past these is dropped
+const MAX_ENTRIES = { concepts: 8, terms: 10, examples: 5, promises: 5 };
+
+export const MEMORY_RESPONSE_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    concepts: { type: 'array', items: { type: 'string' } },
+    terms: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          term: { type: 'string' },
+          definition: { type: 'string' }
+        },
+        required: ['term', 'definition']
+      }
+    },
+    examples: { type: 'array', items: { type: 'string' } },
+    promises: { type: 'array', items: { type: 'string' } }
+  },
+  required: ['concepts', 'terms', 'examples', 'promises']
+};
+
+// Empty lists are fine: not every chapter defines terms or promises anything
+export function validateMemory(data: unknown): string[] {
+  if (!data || typeof data !== 'object' || Array.isArray(data)) {
+    return ['root: expected a JSON object'];
+  }
+
+  const record = data as Record<string, unknown>;
+  const errors: string[] = [];
+  LIST_KEYS.forEach(key => {
+    const value = record[key];
+    if (!Array.isArray(value)) {
+      errors.push(`${key}: expected an array of strings`);
+    } else if (!value.every(item => typeof item === 'string')) {
+      errors.push(`${key}: every entry must be a string`);
+    }
+  });
+
+  const { terms } = record;
+  if (!Array.isArray(terms)) {
+    errors.push('terms: expected an array of term objects');
+  } else {
+    terms.forEach((item: unknown, index) => {
+      const path = `terms[${index}]`;
+      if (!item || typeof item !== 'object') {
+        errors.push(`${path}: expected an object`);
+        return;
+      }
+      const { term, definition } = item as Record<string, unknown>;
+      if (!isNonEmptyString(term)) errors.push(`${path}.term: expected a non-empty string`);
+      if (!isNonEmptyString(definition)) errors.push(`${path}.definition: expected a non-empty string`);
+    });
+  }
+
+  return errors;
+}
+
+export function parseMemory(response: string): JsonParseResult<ChapterMemory> {
+  return parseJsonResponse(response, validateMemory, data => {
+    const raw = data as ChapterMemory;
+    const clean = (items: string[], limit: number) => items.map(item => item.trim()).filter(Boolean).slice(0, limit);
+    const terms: MemoryTerm[] = raw.terms
+      .map(({ term, definition }) => ({ term: term.trim(), definition: definition.trim() }))
+      .slice(0, MAX_ENTRIES.terms);
+
+    return {
+      concepts: clean(raw.concepts, MAX_ENTRIES.concepts),
+      terms,
+      examples: clean(raw.examples, MAX_ENTRIES.examples),
+      promises: clean(raw.promises, MAX_ENTRIES.promises)
+    };
+  });
+}
@@ -1,8 +1,61 @@
 // src/services/pdfService.ts - FIXED VERSION WITH EMOJIS & HYPHENS
 import { BookProject } from '../types';
+import { getLanguage } from '../utils/languages';
+import { buildBookWithQuizzes } from '../utils/bookQuizzes';
 let isGenerating = false;
 let pdfMake: any = null;
 let fontsLoaded = false;
+let devanagariFontsLoaded = false;
+
+// Silent fail - callers fall back to a font that is already registered
+async function loadFontIntoVfs(url: string, key: string): Promise<boolean> {
+  try {
+    const response = await fetch(url);
+    if (!response.ok) return false;
+    const arrayBuffer = await response.arrayBuffer();
+    pdfMake.vfs[key] = btoa(
+      new Uint8Array(arrayBuffer).reduce(
+        (data, byte) => data + String.fromCharCode(byte),
+        ''
+      )
+    );
+    return true;
+  } catch (error) {
+    return false;
+  }
+}
+
+// Roboto and Aptos Mono have no Devanagari glyphs; these are only fetched for Hindi and Marathi books
+async function loadDevanagariFonts(): Promise<boolean> {
+  if (devanagariFontsLoaded) return true;
+
+  const [body, heading, headingBold] = await Promise.all([
+    loadFontIntoVfs('/fonts/PlaypenSansDeva-SemiBold.ttf', 'PlaypenSansDeva-SemiBold.ttf'),
+    loadFontIntoVfs('/fonts/Amita-Regular.ttf', 'Amita-Regular.ttf'),
+    loadFontIntoVfs('/fonts/Amita-Bold.ttf', 'Amita-Bold.ttf')
+  ]);
+  if (!body) return false;
+
+  pdfMake.fonts = {
+    ...pdfMake.fonts,
+    PlaypenSansDeva: {
+      normal: 'PlaypenSansDeva-SemiBold.ttf',
+      bold: 'PlaypenSansDeva-SemiBold.ttf',
+      italics: 'PlaypenSansDeva-SemiBold.ttf',
+      bolditalics: 'PlaypenSansDeva-SemiBold.ttf'
+    },
+    ...(heading && headingBold && {
+      Amita: {
+        normal: 'Amita-Regular.ttf',
+        bold: 'Amita-Bold.ttf',
+        italics: 'Amita-Regular.ttf',
+        bolditalics: 'Amita-Bold.ttf'
+      }
+    })
+  };
+  devanagariFontsLoaded = true;
+  return true;
+}
 
 async function loadPdfMake() {
   if (pdfMake && fontsLoaded) {
@@ -66,21 +119,7 @@ async function loadPdfMake() {
     ];
     
     for (const font of aptosMonoFonts) {
-      try {
-        const response = await fetch(`${basePath}${font.name}`);
-        if (response.ok) {
-          const arrayBuffer = await response.arrayBuffer();
-          const base64 = btoa(
-            new Uint8Array(arrayBuffer).reduce(
-              (data, byte) => data + String.fromCharCode(byte),
-              ''
-            )
-          );
-          pdfMake.vfs[font.key] = base64;
-        }
-      } catch (error) {
-        // Silent fail - will use fallback font
-      }
+      await loadFontIntoVfs(`${basePath}${font.name}`, font.key);
     }
     
     const vfsKeys = Object.keys(vfs);
@@ -135,6 +174,7 @@ async function loadPdfMake() {
   } catch (error) {
     console.error('[PDF] Loading failed:', error);
     fontsLoaded = false;
+    devanagariFontsLoaded = false;
     pdfMake = null;
     throw error;
   }
@@ -965,6 +1005,16 @@ class ProfessionalPdfGenerator {
     const pdfMakeLib = await loadPdfMake();
     const hasAptosMono = Object.keys(pdfMakeLib.vfs).some(key => key.includes('Aptos-Mono'));
     this.fontFamily = hasAptosMono ? 'Aptos-Mono' : 'Roboto';
+
+    // Code keeps the monospace font; prose and headings switch to fonts that cover the book's script
+    let bodyFont = this.fontFamily;
+    if (getLanguage(project.language).script === 'devanagari' && await loadDevanagariFonts()) {
+      bodyFont = 'PlaypenSansDeva';
+      const headingFont = pdfMakeLib.fonts.Amita ? 'Amita' : bodyFont;
+      ['coverTitle', 'coverSubtitle', 'h1Module', 'h2', 'h3', 'h4'].forEach(style => {
+        this.styles[style] = { ...this.styles[style], font: headingFont };
+      });
+    }
     
     const totalWords = project.modules.reduce((sum, m) => sum + m.wordCount, 0);
     const providerMatch = project.finalBook?.match(/\*\*Provider:\*\* (.+?) \((.+?)\)/);
@@ -984,7 +1034,7 @@ class ProfessionalPdfGenerator {
     });
     
     onProgress(40);
-    const mainContent = this.parseMarkdownToContent(project.finalBook || '');
+    const mainContent = this.parseMarkdownToContent(buildBookWithQuizzes(project.finalBook || '', project.modules));
     onProgress(60);
     const disclaimerContent = this.createDisclaimerPage();
     onProgress(75);
@@ -995,7 +1045,7 @@ class ProfessionalPdfGenerator {
       content: this.content,
       styles: this.styles,
       defaultStyle: {
-        font: this.fontFamily,
+        font: bodyFont,
         fontSize: 10,
         color: '#1a1a1a',
         lineHeight: 1.6,
@@ -1094,7 +1144,7 @@ class ProfessionalPdfGenerator {
                 <li class="flex items-start gap-2"><span class="text-green-400 shrink-0">✓</span><span>Square-bordered code blocks with dynamic sizing</span></li>
                 <li class="flex items-start gap-2"><span class="text-green-400 shrink-0">✓</span><span>Auto-split for long code (no overflow)</span></li>
                 <li class="flex items-start gap-2"><span class="text-green-400 shrink-0">✓</span><span>All dashes normalized (no ? marks)</span></li>
-                <li class="flex items-start gap-2"><span class="text-green-400 shrink-0">✓</span><span>${this.fontFamily} font for consistent style</span></li>
+                <li class="flex items-start gap-2"><span class="text-green-400 shrink-0">✓</span><span>${bodyFont} font for consistent style</span></li>
                 ${hasEmojis ? '<li class="flex items-start gap-2"><span class="text-green-400 shrink-0">✓</span><span>Emojis preserved (copyable & searchable!)</span></li>' : ''}
                 ${hasComplexFormatting ? '<li class="flex items-start gap-2"><span class="text-blue-400 shrink-0">•</span><span>Advanced formatting optimized</span></li>' : ''}
               </ul>
@@ -0,0 +1,573 @@
+// src/services/promptTemplates.ts
+import { BookModule, BookProject, BookRoadmap, BookSession, GenerationStage, PromptTemplates, RoadmapModule } from '../types/book';
+import { getLanguage } from '../utils/languages';
+import { renderBookMemory } from '../utils/bookMemory';
+
+export type PromptVariables = Record<string, string>;
+
+export interface PromptVariableInfo {
+  name: string;
+  description: string;
+}
+
+export interface PromptTemplatePack {
+  type: 'pustakam-prompt-pack';
+  version: 1;
+  name?: string;
+  templates: PromptTemplates;
+}
+
+export const PROMPT_STAGES: Array<{ id: GenerationStage; label: string }> = [
+  { id: 'roadmap', label: 'Roadmap' },
+  { id: 'objectives', label: 'Objectives' },
+  { id: 'module', label: 'Chapters' },
+  { id: 'revision', label: 'Revisions' },
+  { id: 'quiz', label: 'Quizzes' },
+  { id: 'memory', label: 'Book Memory' },
+  { id: 'introduction', label: 'Introduction' },
+  { id: 'summary', label: 'Summary' },
+  { id: 'glossary', label: 'Glossary' },
+  { id: 'flashcards', label: 'Flashcards' }
+];
+
+export const DEFAULT_PROMPT_TEMPLATES: Record<GenerationStage, string> = {
+  roadmap: `Create a comprehensive learning roadmap for: "{goal}"
+
+Requirements:
+- Generate at least {minimumModules} modules. The final number should be based on the complexity and scope of the learning goal.
+- Each module should have a clear title and 3-5 specific learning objectives
+- Estimate realistic reading/study time for each module
+- Target audience: {targetAudience}
+- Complexity: {complexityLevel}
+- Reasoning/Motivation for the book: {reasoning}
+- Book brief: {systemPrompt}
+- {languageInstruction}
+
+Return ONLY valid JSON:
+{
+  "modules": [
+    {
+      "title": "Module Title",
+      "objectives": ["Objective 1", "Objective 2"],
+      "estimatedTime": "2-3 hours"
+    }
+  ],
+  "estimatedReadingTime": "20-25 hours",
+  "difficultyLevel": "intermediate"
+}`,
+
+  module: `Generate a comprehensive chapter for: "{title}"
+
+CONTEXT:
+- Learning Goal: {goal}
+- Module {moduleNumber} of {totalModules}
+- Objectives: {objectives}
+- Target Audience: {targetAudience}
+- Complexity: {complexityLevel}
+- Book's Core Reasoning: {reasoning}
+- Book Brief: {systemPrompt}
+
+PREVIOUS MODULES CONTEXT (stay consistent with it; don't redefine these terms or repeat these examples):
+{previousContext}
+
+REQUIREMENTS:
+- Write 2000-4000 words
+- {continuityInstruction}
+- Use ## markdown headers
+- Include bullet points and lists
+- {examplesInstruction}
+- {exercisesInstruction}
+- {languageInstruction}
+
+STRUCTURE:
+## {title}
+### Introduction
+### Core Concepts
+### Practical Application
+{exercisesHeading}
+### Key Takeaways`,
+
+  revision: `Revise the chapter "{title}" from a book about: "{goal}"
+
+CONTEXT:
+- Objectives: {objectives}
+- Target Audience: {targetAudience}
+- Book Brief: {systemPrompt}
+
+INSTRUCTIONS:
+{instructions}
+
+CURRENT CHAPTER:
+{content}
+
+REQUIREMENTS:
+- Follow the instructions above and keep everything they don't ask to change
+- Keep the "## {title}" heading and the markdown structure
+- Return the complete revised chapter, not a list of changes
+- {languageInstruction}`,
+
+  objectives: `Rewrite the learning objectives for one module of a book about: "{goal}"
+
+MODULE: {title}
+CURRENT OBJECTIVES: {objectives}
+
+OTHER MODULES:
+{chapterList}
+
+REQUIREMENTS:
+- Write 3-5 specific learning objectives for this module only
+- Don't overlap with what the other modules cover
+- Target audience: {targetAudience}
+- Complexity: {complexityLevel}
+- Book brief: {systemPrompt}
+- {languageInstruction}
+
+Return ONLY valid JSON:
+{
+  "objectives": ["Objective 1", "Objective 2", "Objective 3"]
+}`,
+
+  quiz: `Create a quiz for the chapter "{title}" from a book about: "{goal}"
+
+CHAPTER:
+{content}
+
+REQUIREMENTS:
+- Write {questionCount} questions mixing multiple-choice, true-false and short-answer
+- Multiple-choice questions have 4 options and exactly one correct answer; "answer" repeats the correct option's text
+- True-false answers are exactly "True" or "False"
+- Short-answer questions get a one or two sentence model answer
+- Every question has a short "explanation" of why the answer is right
+- Test understanding of this chapter, not trivia
+- Target audience: {targetAudience}
+- {languageInstruction}
+
+Return ONLY valid JSON:
+{
+  "questions": [
+    {
+      "type": "multiple-choice",
+      "question": "Question text",
+      "options": ["Option A", "Option B", "Option C", "Option D"],
+      "answer": "Option B",
+      "explanation": "Why Option B is correct"
+    }
+  ]
+}`,
+
+  memory: `Record what the chapter "{title}" establishes, so later chapters of a book about "{goal}" stay consistent with it.
+
+CHAPTER:
+{content}
+
+REQUIREMENTS:
+- "concepts": the main ideas the chapter introduces (at most 8)
+- "terms": terms the chapter defines, each with a one-sentence definition as the chapter uses it (at most 10)
+- "examples": worked examples, case studies or running scenarios it uses, in a few words each (at most 5)
+- "promises": topics the chapter says a later chapter will cover (at most 5)
+- Keep every entry short; use an empty array when the chapter has nothing of that kind
+- {languageInstruction}
+
+Return ONLY valid JSON:
+{
+  "concepts": ["Concept"],
+  "terms": [{ "term": "Term", "definition": "What it means" }],
+  "examples": ["Example"],
+  "promises": ["Topic promised for later"]
+}`,
+
+  introduction: `Generate a compelling introduction for: "{goal}"
+
+ROADMAP:
+{chapterList}
+
+TARGET: {targetAudience}
+LEVEL: {difficultyLevel}
+BRIEF: {systemPrompt}
+
+Write 800-1200 words covering:
+- Welcome and book purpose
+- What readers will learn
+- Book structure overview
+- Motivation and expectations
+Use engaging tone with ## markdown headers.
+{languageInstruction}`,
+
+  summary: `Generate summary for: "{goal}"
+
+MODULES:
+{chapterList}
+
+Write 600-900 words covering:
+- Key learning outcomes
+- Important concepts recap
+- Next steps guidance
+- Congratulations to reader
+{languageInstruction}`,
+
+  glossary: `Extract key terms from this content and create a glossary:
+{content}
+
+Create 20-30 terms with:
+- Clear 1-2 sentence definitions
+- Alphabetical order
+- Focus on technical/important terms
+{languageInstruction}
+
+Format:
+**Term**: Definition.
+**Term 2**: Definition.`,
+
+  flashcards: `Create study flashcards for the chapter "{title}" from a book about: "{goal}"
+
+CHAPTER:
+{content}
+
+REQUIREMENTS:
+- Write {cardCount} flashcards covering the chapter's most important ideas
+- The front is a short question or prompt; the back answers it in one or two sentences
+- Each card tests a single fact or concept and makes sense on its own
+- These glossary terms already have cards, so don't repeat them: {glossaryTerms}
+- Target audience: {targetAudience}
+- {languageInstruction}
+
+Return ONLY valid JSON:
+{
+  "cards": [
+    { "front": "Question or prompt", "back": "Answer" }
+  ]
+}`
+};
+
+const SHARED_VARIABLES: PromptVariableInfo[] = [
+  { name: 'goal', description: 'The learning goal the book was created for' },
+  { name: 'targetAudience', description: 'Who the book is for' },
+  { name: 'systemPrompt', description: 'Brief from the book template (may be empty)' },
+  { name: 'language', description: 'Language the book is written in' },
+  { name: 'languageInstruction', description: 'Asks for output in the book\'s language (empty for English)' }
+];
+
+export const PROMPT_VARIABLES: Record<GenerationStage, PromptVariableInfo[]> = {
+  roadmap: [
+    ...SHARED_VARIABLES,
+    { name: 'complexityLevel', description: 'beginner, intermediate or advanced' },
+    { name: 'reasoning', description: 'Why the book is being written (may be empty)' },
+    { name: 'estimatedModules', description: 'Chapter count suggested by the book template (may be empty)' },
+    { name: 'minimumModules', description: 'The larger of 8 and the template\'s chapter count' }
+  ],
+  revision: [
+    ...SHARED_VARIABLES,
+    { name: 'title', description: 'Chapter title' },
+    { name: 'objectives', description: 'Chapter objectives, comma separated' },
+    { name: 'instructions', description: 'What the reader asked to change' },
+    { name: 'content', description: 'The current chapter text' }
+  ],
+  objectives: [
+    ...SHARED_VARIABLES,
+    { name: 'title', description: 'Title of the module being edited' },
+    { name: 'objectives', description: 'Its current objectives, comma separated (may be empty)' },
+    { name: 'chapterList', description: 'The other modules\' titles as a bulleted list' },
+    { name: 'complexityLevel', description: 'beginner, intermediate or advanced' }
+  ],
+  module: [
+    ...SHARED_VARIABLES,
+    { name: 'title', description: 'Chapter title' },
+    { name: 'objectives', description: 'Chapter objectives, comma separated' },
+    { name: 'moduleNumber', description: 'Position of the chapter in the roadmap' },
+    { name: 'totalModules', description: 'Number of chapters in the roadmap' },
+    { name: 'complexityLevel', description: 'beginner, intermediate or advanced' },
+    { name: 'reasoning', description: 'Why the book is being written (may be empty)' },
+    { name: 'previousContext', description: 'Book memory of the chapters before this one: concepts, terms, examples and promises (empty for the first)' },
+    { name: 'continuityInstruction', description: '"Provide introduction" for the first chapter, otherwise "Build upon previous content"' },
+    { name: 'examplesInstruction', description: 'Asks for examples when the book includes them' },
+    { name: 'exercisesInstruction', description: 'Asks for exercises when the book includes them' },
+    { name: 'exercisesHeading', description: 'Practice Exercises heading when the book includes exercises' }
+  ],
+  quiz: [
+    ...SHARED_VARIABLES,
+    { name: 'title', description: 'Chapter title' },
+    { name: 'content', description: 'The chapter text, up to 12,000 characters' },
+    { name: 'questionCount', description: 'How many questions to ask' }
+  ],
+  memory: [
+    ...SHARED_VARIABLES,
+    { name: 'title', description: 'Chapter title' },
+    { name: 'content', description: 'The chapter text, up to 12,000 characters' }
+  ],
+  introduction: [
+    ...SHARED_VARIABLES,
+    { name: 'chapterList', description: 'Chapter titles as a bulleted list' },
+    { name: 'difficultyLevel', description: 'Difficulty from the roadmap' }
+  ],
+  summary: [
+    ...SHARED_VARIABLES,
+    { name: 'chapterList', description: 'Chapter titles as a bulleted list' }
+  ],
+  glossary: [
+    ...SHARED_VARIABLES,
+    { name: 'content', description: 'The first 12,000 characters of the written chapters' }
+  ],
+  flashcards: [
+    ...SHARED_VARIABLES,
+    { name: 'title', description: 'Chapter title' },
+    { name: 'content', description: 'The chapter text, up to 12,000 characters' },
+    { name: 'cardCount', description: 'How many cards to write' },
+    { name: 'glossaryTerms', description: 'Glossary terms from this chapter, which get their own cards (may be empty)' }
+  ]
+};
+
+const PLACEHOLDER = /\{(\w+)\}/g;
+
+// Unknown names are left untouched, so literal braces such as JSON examples survive.
+// A line whose placeholders all come out empty is dropped, which makes optional lines easy to write.
+export function renderPromptTemplate(template: string, variables: PromptVariables): string {
+  return template
+    .split('\n')
+    .flatMap(line => {
+      const names = Array.from(line.matchAll(PLACEHOLDER), match => match[1]).filter(name => name in variables);
+      if (names.length > 0 && names.every(name => !variables[name].trim())) return [];
+      return [line.replace(PLACEHOLDER, (match, name: string) => name in variables ? variables[name] : match)];
+    })
+    .join('\n');
+}
+
+// Placeholders a template uses that its stage doesn't provide, for editor warnings
+export function findUnknownVariables(stage: GenerationStage, template: string): string[] {
+  const known = new Set(PROMPT_VARIABLES[stage].map(v => v.name));
+  const used = Array.from(template.matchAll(PLACEHOLDER), match => match[1]);
+  // Lowercase words in braces are treated as variables; anything else is likely literal text
+  return Array.from(new Set(used.filter(name => !known.has(name) && /^[a-z]/.test(name))));
+}
+
+// Book overrides win over the user's global templates, which win over the built-in ones
+export function resolvePromptTemplate(stage: GenerationStage, global?: PromptTemplates, book?: PromptTemplates): string {
+  return book?.[stage] ?? global?.[stage] ?? DEFAULT_PROMPT_TEMPLATES[stage];
+}
+
+export function resolvePromptTemplates(global?: PromptTemplates, book?: PromptTemplates): Record<GenerationStage, string> {
+  return Object.fromEntries(
+    PROMPT_STAGES.map(({ id }) => [id, resolvePromptTemplate(id, global, book)])
+  ) as Record<GenerationStage, string>;
+}
+
+// English needs no instruction; the roadmap keeps its JSON machine-readable
+function buildLanguageInstruction(session: BookSession, stage: GenerationStage): string {
+  const language = getLanguage(session.language);
+  if (language.code === 'en') return '';
+
+  const name = `${language.name} (${language.nativeName})`;
+  const script = language.script === 'devanagari' ? ' using Devanagari script' : '';
+  if (stage === 'roadmap') {
+    return `Write module titles and objectives in ${name}${script}; keep the JSON keys and the difficultyLevel value in English`;
+  }
+  if (stage === 'objectives') {
+    return `Write the objectives in ${name}${script}; keep the JSON keys in English`;
+  }
+  if (stage === 'quiz') {
+    return `Write questions, options, answers and explanations in ${name}${script}; keep the JSON keys and type values in English`;
+  }
+  if (stage === 'memory') {
+    return `Write the entries in ${name}${script}; keep the JSON keys in English`;
+  }
+  if (stage === 'flashcards') {
+    return `Write both sides of every card in ${name}${script}; keep the JSON keys in English`;
+  }
+  return `Write everything in ${name}${script}, including headings; keep code, commands and technical identifiers unchanged`;
+}
+
+const sharedVariables = (session: BookSession, stage: GenerationStage): PromptVariables => ({
+  goal: session.goal,
+  targetAudience: session.targetAudience || 'general learners',
+  systemPrompt: session.systemPrompt || '',
+  language: getLanguage(session.language).name,
+  languageInstruction: buildLanguageInstruction(session, stage)
+});
+
+const MIN_ROADMAP_MODULES = 8;
+
+export function buildRoadmapVariables(session: BookSession): PromptVariables {
+  return {
+    ...sharedVariables(session, 'roadmap'),
+    complexityLevel: session.complexityLevel || 'intermediate',
+    reasoning: session.reasoning || '',
+    estimatedModules: session.estimatedModules ? String(session.estimatedModules) : '',
+    minimumModules: String(Math.max(MIN_ROADMAP_MODULES, session.estimatedModules || 0))
+  };
+}
+
+export function buildObjectivesVariables(session: BookSession, roadmap: BookRoadmap, roadmapModule: RoadmapModule): PromptVariables {
+  return {
+    ...sharedVariables(session, 'objectives'),
+    title: roadmapModule.title,
+    objectives: roadmapModule.objectives.filter(o => o.trim()).join(', '),
+    chapterList: roadmap.modules.filter(m => m.id !== roadmapModule.id).map(m => `- ${m.title}`).join('\n'),
+    complexityLevel: session.complexityLevel || 'intermediate'
+  };
+}
+
+export function buildModuleVariables(
+  session: BookSession,
+  roadmapModule: RoadmapModule,
+  previousModules: BookModule[],
+  earlierModules: RoadmapModule[],
+  moduleIndex: number,
+  totalModules: number
+): PromptVariables {
+  const findWritten = (rm: RoadmapModule) => previousModules.find(m => m.roadmapModuleId === rm.id);
+  const bookMemory = renderBookMemory(earlierModules.flatMap(rm => {
+    const written = findWritten(rm);
+    return written?.memory ? [{ chapter: rm.order, title: written.title, memory: written.memory }] : [];
+  }));
+  // Chapters still being written in parallel are described by their planned objectives,
+  // and chapters written before books kept a memory by their opening
+  const recentContext = earlierModules.slice(-2).flatMap(rm => {
+    const written = findWritten(rm);
+    if (!written) return [`${rm.title} (in progress, planned to cover): ${rm.objectives.join(', ')}`];
+    return written.memory ? [] : [`${written.title}: ${written.content.substring(0, 300)}...`];
+  });
+  const previousContext = [bookMemory, ...recentContext].filter(Boolean).join('\n\n');
+  const includeExercises = !!session.preferences?.includePracticalExercises;
+
+  return {
+    ...sharedVariables(session, 'module'),
+    title: roadmapModule.title,
+    objectives: roadmapModule.objectives.join(', '),
+    moduleNumber: String(moduleIndex),
+    totalModules: String(totalModules),
+    complexityLevel: session.complexityLevel || 'intermediate',
+    reasoning: session.reasoning || '',
+    previousContext,
+    continuityInstruction: earlierModules.length === 0 ? 'Provide introduction' : 'Build upon previous content',
+    examplesInstruction: session.preferences?.includeExamples ? 'Include practical examples' : '',
+    exercisesInstruction: includeExercises ? 'Add exercises at the end' : '',
+    exercisesHeading: includeExercises ? '### Practice Exercises' : ''
+  };
+}
+
+export function buildRevisionVariables(session: BookSession, roadmapModule: RoadmapModule, module: BookModule, instructions: string): PromptVariables {
+  return {
+    ...sharedVariables(session, 'revision'),
+    title: roadmapModule.title,
+    objectives: roadmapModule.objectives.join(', '),
+    instructions,
+    content: module.content
+  };
+}
+
+export function buildMemoryVariables(session: BookSession, module: BookModule): PromptVariables {
+  return {
+    ...sharedVariables(session, 'memory'),
+    title: module.title,
+    content: module.content.substring(0, 12000)
+  };
+}
+
+export const QUIZ_QUESTION_COUNT = 5;
+
+export function buildQuizVariables(session: BookSession, module: BookModule): PromptVariables {
+  return {
+    ...sharedVariables(session, 'quiz'),
+    title: module.title,
+    content: module.content.substring(0, 12000),
+    questionCount: String(QUIZ_QUESTION_COUNT)
+  };
+}
+
+export const FLASHCARD_COUNT = 8;
+
+export function buildFlashcardVariables(session: BookSession, module: BookModule, glossaryTerms: string[]): PromptVariables {
+  return {
+    ...sharedVariables(session, 'flashcards'),
+    title: module.title,
+    content: module.content.substring(0, 12000),
+    cardCount: String(FLASHCARD_COUNT),
+    glossaryTerms: glossaryTerms.join(', ')
+  };
+}
+
+export function buildIntroductionVariables(session: BookSession, roadmap: BookRoadmap): PromptVariables {
+  return {
+    ...sharedVariables(session, 'introduction'),
+    chapterList: roadmap.modules.map(m => `- ${m.title}`).join('\n'),
+    difficultyLevel: roadmap.difficultyLevel
+  };
+}
+
+export function buildSummaryVariables(session: BookSession, modules: BookModule[]): PromptVariables {
+  return {
+    ...sharedVariables(session, 'summary'),
+    chapterList: modules.map(m => `- ${m.title}`).join('\n')
+  };
+}
+
+export function buildGlossaryVariables(session: BookSession, modules: BookModule[]): PromptVariables {
+  return {
+    ...sharedVariables(session, 'glossary'),
+    content: modules.map(m => m.content).join('\n\n').substring(0, 12000)
+  };
+}
+
+// Variables as they would be for a real book, using its second chapter so the context fields are filled
+export function buildPreviewVariables(stage: GenerationStage, book: BookProject, session: BookSession): PromptVariables {
+  const roadmap = book.roadmap;
+  const written = book.modules.filter(m => m.status === 'completed');
+
+  switch (stage) {
+    case 'roadmap':
+      return buildRoadmapVariables(session);
+    case 'objectives':
+      return roadmap?.modules[0] ? buildObjectivesVariables(session, roadmap, roadmap.modules[0]) : sharedVariables(session, stage);
+    case 'module': {
+      const chapters = roadmap?.modules || [];
+      const target = chapters[Math.min(1, chapters.length - 1)];
+      if (!target) return buildRoadmapVariables(session);
+      const earlier = chapters.filter(m => m.order < target.order);
+      return buildModuleVariables(session, target, written, earlier, target.order, roadmap?.totalModules || chapters.length);
+    }
+    case 'revision': {
+      const chapter = written[0];
+      const chapterPlan = roadmap?.modules.find(m => m.id === chapter?.roadmapModuleId);
+      return chapter && chapterPlan
+        ? buildRevisionVariables(session, chapterPlan, chapter, 'Add more code examples')
+        : sharedVariables(session, stage);
+    }
+    case 'quiz': {
+      const chapter = written[0];
+      return chapter ? buildQuizVariables(session, chapter) : sharedVariables(session, stage);
+    }
+    case 'memory': {
+      const chapter = written[0];
+      return chapter ? buildMemoryVariables(session, chapter) : sharedVariables(session, stage);
+    }
+    case 'introduction':
+      return roadmap ? buildIntroductionVariables(session, roadmap) : sharedVariables(session, stage);
+    case 'summary':
+      return buildSummaryVariables(session, written);
+    case 'glossary':
+      return buildGlossaryVariables(session, written);
+    case 'flashcards': {
+      const chapter = written[0];
+      return chapter ? buildFlashcardVariables(session, chapter, []) : sharedVariables(session, stage);
+    }
+  }
+}
+
+export function createPromptPack(templates: PromptTemplates, name?: string): PromptTemplatePack {
+  return { type: 'pustakam-prompt-pack', version: 1, name, templates };
+}
+
+// Keeps only known stages with text, so a hand-edited pack can't smuggle in anything else
+export function parsePromptPack(json: string): PromptTemplates {
+  const data = JSON.parse(json);
+  if (data?.type !== 'pustakam-prompt-pack' || typeof data.templates !== 'object' || data.templates === null) {
+    throw new Error('Not a prompt template pack');
+  }
+
+  const templates: PromptTemplates = {};
+  PROMPT_STAGES.forEach(({ id }) => {
+    const text = data.templates[id];
+    if (typeof text === 'string' && text.trim()) templates[id] = text;
+  });
+  if (Object.keys(templates).length === 0) throw new Error('The pack contains no templates');
+  return templates;
+}
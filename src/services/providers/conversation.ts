@@ -0,0 +1,23 @@
+// src/services/providers/conversation.ts
+import { ProviderRequestContext } from './types';
+
+export interface ConversationTurn {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+export const CONTINUATION_INSTRUCTION =
+  'Continue exactly where you stopped. Do not repeat anything or add a preamble, and keep any open list, table or code block going.';
+
+// A continuation replays the truncated answer as the assistant's turn and asks for the rest
+export function buildConversation({ prompt, continuation }: ProviderRequestContext): ConversationTurn[] {
+  if (!continuation) {
+    return [{ role: 'user', content: prompt }];
+  }
+
+  return [
+    { role: 'user', content: prompt },
+    { role: 'assistant', content: continuation },
+    { role: 'user', content: CONTINUATION_INSTRUCTION }
+  ];
+}
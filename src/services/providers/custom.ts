@@ -0,0 +1,58 @@
+// src/services/providers/custom.ts
+import { HttpProviderAdapter } from './types';
+import { buildConversation } from './conversation';
+import { buildChatCompletionRequest, classifyChatCompletionError, decodeChatCompletionEvent } from './openaiCompatible';
+
+// Accepts either a base like `http://localhost:8080/v1` or the full completions URL
+export function resolveCustomEndpoint(baseUrl: string): string {
+  const trimmed = baseUrl.trim().replace(/\/+$/, '');
+  return trimmed.endsWith('/chat/completions') ? trimmed : `${trimmed}/chat/completions`;
+}
+
+export const customAdapter: HttpProviderAdapter = {
+  id: 'custom',
+  name: 'Custom Endpoint',
+  displayName: 'Custom Endpoint',
+  description: 'Any OpenAI-compatible server (llama.cpp, vLLM, LM Studio, Ollama). Key is optional.',
+  apiKeyField: 'customApiKey',
+  models: [],
+  capabilities: {
+    streaming: true,
+    requiresApiKey: false,
+    maxOutputTokens: 8192,
+    freeTextModel: true
+  },
+
+  resolveModels(settings) {
+    const model = settings.customModel?.trim();
+    if (!model) return [];
+    return [{ id: model, name: model, description: settings.customBaseUrl || 'OpenAI-compatible endpoint' }];
+  },
+
+  isConfigured(settings) {
+    return !!settings.customBaseUrl?.trim() && !!settings.customModel?.trim();
+  },
+
+  buildRequest(context) {
+    const { model, apiKey, settings } = context;
+    if (!settings.customBaseUrl?.trim()) {
+      throw new Error('Custom endpoint base URL not configured');
+    }
+
+    return buildChatCompletionRequest(resolveCustomEndpoint(settings.customBaseUrl), apiKey, {
+      model,
+      messages: buildConversation(context),
+      temperature: 0.7,
+      max_tokens: 8192,
+      stream: true,
+      // Without this, vLLM, llama.cpp and other OpenAI-compatible servers leave usage out of the stream
+      stream_options: { include_usage: true }
+    });
+  },
+
+  decodeStreamEvent: decodeChatCompletionEvent,
+
+  classifyError(status, body) {
+    return classifyChatCompletionError(status, body, 'Custom endpoint');
+  }
+};
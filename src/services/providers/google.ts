@@ -0,0 +1,81 @@
+// src/services/providers/google.ts
+import { HttpProviderAdapter, ProviderFinishReason } from './types';
+import { buildConversation } from './conversation';
+
+const FINISH_REASONS: Record<string, ProviderFinishReason> = { STOP: 'stop', MAX_TOKENS: 'length' };
+
+export const googleAdapter: HttpProviderAdapter = {
+  id: 'google',
+  name: 'Google AI',
+  displayName: 'Google Gemini',
+  icon: '/gemini.svg',
+  description: 'For Gemini models (recommended for most users)',
+  apiKeyField: 'googleApiKey',
+  apiKeyUrl: 'https://aistudio.google.com/app/apikey',
+  models: [
+    { id: 'gemini-2.0-flash-lite', name: 'Gemini 2.0 Flash Lite', description: 'Fast, lightweight model', pricing: { input: 0.075, output: 0.3 } },
+    { id: 'gemini-2.5-flash-lite', name: 'Gemini 2.5 Flash Lite', description: 'Enhanced lightweight model', pricing: { input: 0.1, output: 0.4 } },
+    { id: 'gemini-2.0-flash', name: 'Gemini 2.0 Flash', description: 'Balanced speed and capability', pricing: { input: 0.1, output: 0.4 } },
+    { id: 'gemini-2.5-flash', name: 'Gemini 2.5 Flash', description: 'Latest flash model', pricing: { input: 0.3, output: 2.5 } },
+    { id: 'gemma-3-27b-it', name: 'Gemma 3 27B IT', description: 'High-quality instruction-tuned model', pricing: { input: 0, output: 0 } },
+    { id: 'gemini-2.5-pro', name: 'Gemini 2.5 Pro', description: 'Most capable model', pricing: { input: 1.25, output: 10 } },
+  ],
+  fallbackModel: { id: 'gemini-2.5-flash', name: 'Google Gemini 2.5 Flash' },
+  capabilities: {
+    streaming: true,
+    requiresApiKey: true,
+    maxOutputTokens: 8192
+  },
+  rateLimit: { requestsPerMinute: 10, tokensPerMinute: 250000 },
+
+  buildRequest(context) {
+    const { model, apiKey, responseSchema } = context;
+    const contents = buildConversation(context).map(turn => ({
+      role: turn.role === 'assistant' ? 'model' : 'user',
+      parts: [{ text: turn.content }]
+    }));
+
+    return {
+      url: `https://generativelanguage.googleapis.com/v1beta/models/${model}:streamGenerateContent?key=${apiKey}&alt=sse`,
+      init: {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          contents,
+          generationConfig: {
+            temperature: 0.7,
+            topK: 40,
+            topP: 0.95,
+            maxOutputTokens: 8192,
+            // Gemma models on this API have no JSON mode
+            ...(responseSchema && !model.startsWith('gemma') && { responseMimeType: 'application/json', responseSchema })
+          }
+        })
+      }
+    };
+  },
+
+  decodeStreamEvent(data) {
+    const event = data as {
+      candidates?: Array<{ content?: { parts?: Array<{ text?: string }> }; finishReason?: string }>;
+      usageMetadata?: { promptTokenCount?: number; candidatesTokenCount?: number };
+    };
+    const usage = event?.usageMetadata;
+    const finishReason = event?.candidates?.[0]?.finishReason;
+
+    return {
+      text: event?.candidates?.[0]?.content?.parts?.[0]?.text || '',
+      // Sent on every event as a running total, so the last one wins
+      usage: usage ? { promptTokens: usage.promptTokenCount || 0, completionTokens: usage.candidatesTokenCount || 0 } : undefined,
+      finishReason: finishReason ? FINISH_REASONS[finishReason] || 'other' : undefined
+    };
+  },
+
+  classifyError(status, body) {
+    const message = (body as { error?: { message?: string } })?.error?.message;
+    return {
+      kind: status === 429 || status === 503 ? 'rate_limit' : 'fatal',
+      message: message || `HTTP ${status}`
+    };
+  }
+};
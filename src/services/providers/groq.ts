@@ -0,0 +1,74 @@
+// src/services/providers/groq.ts
+import { HttpProviderAdapter } from './types';
+import { buildConversation } from './conversation';
+import { buildChatCompletionRequest, classifyChatCompletionError, decodeChatCompletionEvent } from './openaiCompatible';
+
+const isCompoundModel = (model: string) => model.includes('compound');
+const isOSSModel = (model: string) => model.includes('gpt-oss');
+
+export const groqAdapter: HttpProviderAdapter = {
+  id: 'groq',
+  name: 'Groq',
+  displayName: 'Groq',
+  icon: '/groq.svg',
+  description: 'For Llama, GPT OSS, and Kimi models',
+  apiKeyField: 'groqApiKey',
+  apiKeyUrl: 'https://console.groq.com/keys',
+  models: [
+    { id: 'llama-3.3-70b-versatile', name: 'Llama 3.3 70B Versatile', description: 'Powerful & versatile', pricing: { input: 0.59, output: 0.79 } },
+    { id: 'groq/compound', name: 'Compound', description: 'Advanced reasoning • Citations • Search' },
+    { id: 'groq/compound-mini', name: 'Compound Mini', description: 'Fast reasoning • Citations' },
+    { id: 'openai/gpt-oss-120b', name: 'GPT OSS 120B', description: 'Large OSS • Advanced reasoning', pricing: { input: 0.15, output: 0.75 } },
+    { id: 'openai/gpt-oss-20b', name: 'GPT OSS 20B', description: 'Medium OSS • Reasoning support', pricing: { input: 0.1, output: 0.5 } },
+    { id: 'moonshotai/kimi-k2-instruct-0905', name: 'Kimi K2 Instruct (0905)', description: 'Moonshot AI instruction model', pricing: { input: 1, output: 3 } },
+    { id: 'moonshotai/kimi-k2-instruct', name: 'Kimi K2 Instruct', description: 'Moonshot AI latest', pricing: { input: 1, output: 3 } },
+  ],
+  fallbackModel: { id: 'groq/compound', name: 'Groq Compound' },
+  capabilities: {
+    streaming: true,
+    requiresApiKey: true,
+    maxOutputTokens: 8192,
+    supportsAdvancedSettings: (model) => isCompoundModel(model) || isOSSModel(model)
+  },
+  rateLimit: { requestsPerMinute: 30, tokensPerMinute: 0 },
+
+  buildRequest(context) {
+    const { model, apiKey, settings, advancedSettings } = context;
+
+    // Session settings take priority over the global defaults
+    const advSettings = advancedSettings || settings.advancedSettings;
+
+    const requestBody: Record<string, unknown> = {
+      model,
+      messages: buildConversation(context),
+      temperature: 0.7,
+      max_tokens: 8192,
+      // No response_format: Groq's JSON mode can't be streamed, so structured stages rely on the schema check and repair
+      stream: true
+    };
+
+    if (isCompoundModel(model) && advSettings) {
+      if (advSettings.reasoningEffort) {
+        requestBody.reasoning_effort = advSettings.reasoningEffort;
+      }
+      if (advSettings.enableCitations) {
+        requestBody.enable_citations = true;
+      }
+      if (advSettings.enableSearchSettings) {
+        requestBody.search_settings = { enabled: true };
+      }
+    }
+
+    if (isOSSModel(model) && advSettings?.ossReasoningEffort) {
+      requestBody.reasoning_effort = advSettings.ossReasoningEffort;
+    }
+
+    return buildChatCompletionRequest('https://api.groq.com/openai/v1/chat/completions', apiKey, requestBody);
+  },
+
+  decodeStreamEvent: decodeChatCompletionEvent,
+
+  classifyError(status, body) {
+    return classifyChatCompletionError(status, body, 'Groq');
+  }
+};
@@ -0,0 +1,115 @@
+// src/services/providers/index.ts
+import { APISettings, ApiKeyEntry, ModelProvider, ProviderRateLimit } from '../../types';
+import { ModelPricing, ProviderAdapter, ProviderModel } from './types';
+import { googleAdapter } from './google';
+import { mistralAdapter } from './mistral';
+import { zhipuAdapter } from './zhipu';
+import { groqAdapter } from './groq';
+import { customAdapter } from './custom';
+import { mockAdapter } from './mock';
+
+export * from './types';
+export { defaultMockSettings, resetMockFailures } from './mock';
+
+export interface AlternativeModel {
+  provider: ModelProvider;
+  model: string;
+  name: string;
+}
+
+class ProviderRegistry {
+  private adapters = new Map<string, ProviderAdapter>();
+
+  register(adapter: ProviderAdapter) {
+    this.adapters.set(adapter.id, adapter);
+  }
+
+  get(id: string): ProviderAdapter | undefined {
+    return this.adapters.get(id);
+  }
+
+  list(): ProviderAdapter[] {
+    return Array.from(this.adapters.values());
+  }
+
+  has(id: string): boolean {
+    return this.adapters.has(id);
+  }
+
+  getModels(settings: APISettings, providerId: string): ProviderModel[] {
+    const adapter = this.get(providerId);
+    if (!adapter) return [];
+    return adapter.resolveModels ? adapter.resolveModels(settings) : adapter.models;
+  }
+
+  isValidModel(providerId: string, modelId: string): boolean {
+    const adapter = this.get(providerId);
+    if (!adapter) return false;
+    if (adapter.capabilities.freeTextModel) return !!modelId;
+    return adapter.models.some(m => m.id === modelId);
+  }
+
+  // Published list price, if the adapter knows it
+  getPricing(providerId: string, modelId: string): ModelPricing | undefined {
+    return this.get(providerId)?.models.find(m => m.id === modelId)?.pricing;
+  }
+
+  getRateLimit(settings: APISettings, providerId: string): ProviderRateLimit {
+    return settings.rateLimits?.[providerId] || this.get(providerId)?.rateLimit || { requestsPerMinute: 0, tokensPerMinute: 0 };
+  }
+
+  getApiKey(settings: APISettings, providerId: string): string | null {
+    const adapter = this.get(providerId);
+    if (!adapter?.apiKeyField) return null;
+    const value = settings[adapter.apiKeyField];
+    return typeof value === 'string' && value ? value : null;
+  }
+
+  // The primary key first, then any extras in the order they were added
+  getApiKeys(settings: APISettings, providerId: string): ApiKeyEntry[] {
+    const keys: ApiKeyEntry[] = [];
+    const primary = this.getApiKey(settings, providerId);
+    if (primary) keys.push({ id: `${providerId}:primary`, label: 'Primary', key: primary });
+
+    (settings.extraApiKeys?.[providerId] || [])
+      .filter(entry => entry.key.trim())
+      .forEach(entry => keys.push({ ...entry, key: entry.key.trim() }));
+    return keys;
+  }
+
+  // A provider is usable when it has a key, or does not need one
+  isConfigured(settings: APISettings, providerId: string): boolean {
+    const adapter = this.get(providerId);
+    if (!adapter) return false;
+    if (adapter.isConfigured) return adapter.isConfigured(settings);
+    return !adapter.capabilities.requiresApiKey || this.getApiKeys(settings, providerId).length > 0;
+  }
+
+  hasAnyConfigured(settings: APISettings): boolean {
+    return this.list().some(adapter => this.isConfigured(settings, adapter.id));
+  }
+
+  getAlternatives(settings: APISettings): AlternativeModel[] {
+    const alternatives: AlternativeModel[] = [];
+
+    this.list()
+      .filter(adapter => adapter.id !== settings.selectedProvider && this.isConfigured(settings, adapter.id))
+      .forEach(adapter => {
+        const fallback = adapter.fallbackModel || this.getModels(settings, adapter.id)[0];
+        if (fallback) {
+          alternatives.push({ provider: adapter.id, model: fallback.id, name: fallback.name });
+        }
+      });
+
+    return alternatives;
+  }
+}
+
+export const providerRegistry = new ProviderRegistry();
+
+providerRegistry.register(googleAdapter);
+providerRegistry.register(mistralAdapter);
+providerRegistry.register(zhipuAdapter);
+providerRegistry.register(groqAdapter);
+providerRegistry.register(customAdapter);
+providerRegistry.register(mockAdapter);
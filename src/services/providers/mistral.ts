@@ -0,0 +1,45 @@
+// src/services/providers/mistral.ts
+import { HttpProviderAdapter } from './types';
+import { buildConversation } from './conversation';
+import { buildChatCompletionRequest, buildJsonResponseFormat, classifyChatCompletionError, decodeChatCompletionEvent } from './openaiCompatible';
+
+export const mistralAdapter: HttpProviderAdapter = {
+  id: 'mistral',
+  name: 'Mistral AI',
+  displayName: 'Mistral AI',
+  icon: '/mistral.svg',
+  description: 'For Mistral and Mixtral models',
+  apiKeyField: 'mistralApiKey',
+  apiKeyUrl: 'https://console.mistral.ai/api-keys',
+  models: [
+    { id: 'mistral-small-latest', name: 'Mistral Small', description: 'Fast and cost-effective', pricing: { input: 0.1, output: 0.3 } },
+    { id: 'mistral-medium-latest', name: 'Mistral Medium', description: 'Balanced performance', pricing: { input: 0.4, output: 2 } },
+    { id: 'mistral-large-latest', name: 'Mistral Large', description: 'Most powerful model', pricing: { input: 2, output: 6 } },
+    { id: 'pixtral-large-latest', name: 'Pixtral Large', description: 'Multimodal capabilities', pricing: { input: 2, output: 6 } },
+  ],
+  fallbackModel: { id: 'mistral-small-latest', name: 'Mistral Small' },
+  capabilities: {
+    streaming: true,
+    requiresApiKey: true,
+    maxOutputTokens: 8192
+  },
+  rateLimit: { requestsPerMinute: 60, tokensPerMinute: 500000 },
+
+  buildRequest(context) {
+    const { model, apiKey } = context;
+    return buildChatCompletionRequest('https://api.mistral.ai/v1/chat/completions', apiKey, {
+      model,
+      messages: buildConversation(context),
+      temperature: 0.7,
+      max_tokens: 8192,
+      stream: true,
+      ...buildJsonResponseFormat(context)
+    });
+  },
+
+  decodeStreamEvent: decodeChatCompletionEvent,
+
+  classifyError(status, body) {
+    return classifyChatCompletionError(status, body, 'Mistral', [429]);
+  }
+};
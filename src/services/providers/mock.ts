@@ -0,0 +1,282 @@
+// src/services/providers/mock.ts
+import { MockProviderSettings } from '../../types';
+import { LocalProviderAdapter, ProviderError, ProviderRequestContext } from './types';
+
+export const defaultMockSettings: MockProviderSettings = {
+  enabled: false,
+  chunkDelayMs: 20,
+  failureMode: 'none',
+  failuresPerChapter: 0
+};
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Injected failures already served, keyed by chapter title
+const injectedFailures = new Map<string, number>();
+
+export function resetMockFailures() {
+  injectedFailures.clear();
+}
+
+// FNV-1a, so the same prompt always yields the same output
+function hashString(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+function createRandom(seed: number): () => number {
+  let state = seed;
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function pick<T>(items: T[], random: () => number): T {
+  return items[Math.floor(random() * items.length)];
+}
+
+function extractQuoted(prompt: string, fallback: string): string {
+  return prompt.match(/"([^"]+)"/)?.[1]?.trim() || fallback;
+}
+
+const ROADMAP_TITLES = [
+  'Foundations of {topic}',
+  'Core Concepts and Vocabulary',
+  'Tools and Environment Setup',
+  'Working Through Your First Project',
+  'Common Patterns and Techniques',
+  'Troubleshooting and Debugging',
+  'Advanced Practices',
+  'Putting {topic} to Work'
+];
+
+const SENTENCES = [
+  'At its heart, {topic} rewards steady practice more than memorisation.',
+  'A useful way to think about this is to start from the problem you want to solve and work backwards.',
+  'Most beginners underestimate how much clarity comes from writing small, focused experiments.',
+  'Notice how each idea here builds on the vocabulary introduced earlier in the book.',
+  'In practice, teams adopt these habits gradually rather than all at once.',
+  'The trade-off is usually between speed today and maintainability tomorrow.',
+  'When something goes wrong, isolate the smallest case that still shows the issue.',
+  'Experienced practitioners keep a short checklist and revisit it before every major change.',
+  'It helps to name things precisely, because precise names make reasoning easier.',
+  'Consider how this concept would look from the point of view of someone new to {topic}.',
+  'Measure before you optimise, and write down what you expected to see.',
+  'Good defaults remove whole categories of mistakes without extra effort.'
+];
+
+function buildParagraph(topic: string, random: () => number, sentences = 6): string {
+  return Array.from({ length: sentences }, () => pick(SENTENCES, random).replace('{topic}', topic)).join(' ');
+}
+
+function buildRoadmap(prompt: string, random: () => number): string {
+  const topic = extractQuoted(prompt, 'the subject');
+  const modules = ROADMAP_TITLES.map((title, index) => ({
+    title: title.replace('{topic}', topic),
+    objectives: [
+      `Explain the key ideas of part ${index + 1}`,
+      `Apply them to a small worked example`,
+      `Recognise common mistakes and how to avoid them`
+    ],
+    estimatedTime: pick(['1-2 hours', '2-3 hours', '3-4 hours'], random)
+  }));
+
+  return JSON.stringify({
+    modules,
+    estimatedReadingTime: `${modules.length * 2}-${modules.length * 3} hours`,
+    difficultyLevel: 'intermediate'
+  }, null, 2);
+}
+
+function buildChapter(prompt: string, random: () => number): string {
+  const title = extractQuoted(prompt, 'Chapter');
+  const sections = ['Introduction', 'Core Concepts', 'Practical Application', 'Common Pitfalls', 'Key Takeaways'];
+
+  return [
+    `## ${title}`,
+    ...sections.map(section => [
+      `### ${section}`,
+      buildParagraph(title, random, 8),
+      buildParagraph(title, random, 7),
+      section === 'Key Takeaways'
+        ? ['- Practise the ideas in small steps', '- Revisit earlier chapters when terms feel unfamiliar', '- Keep notes on what surprised you'].join('\n')
+        : buildParagraph(title, random, 6)
+    ].join('\n\n'))
+  ].join('\n\n');
+}
+
+function buildShortChapter(prompt: string, random: () => number): string {
+  const title = extractQuoted(prompt, 'Chapter');
+  return `## ${title}\n\n${buildParagraph(title, random, 4)}`;
+}
+
+function buildSection(prompt: string, random: () => number, heading: string): string {
+  const topic = extractQuoted(prompt, 'this book');
+  return [
+    `## ${heading}`,
+    buildParagraph(topic, random, 7),
+    buildParagraph(topic, random, 6),
+    buildParagraph(topic, random, 5)
+  ].join('\n\n');
+}
+
+function buildGlossary(): string {
+  return [
+    '**Abstraction**: A simplified view that hides details which are not needed right now.',
+    '**Baseline**: A known reference point used to compare later measurements.',
+    '**Checklist**: A short list of steps reviewed before an important change.',
+    '**Experiment**: A small, focused attempt to test a single idea.',
+    '**Trade-off**: A choice where improving one quality costs another.'
+  ].join('\n');
+}
+
+function buildQuiz(prompt: string): string {
+  const title = extractQuoted(prompt, 'this chapter');
+  return JSON.stringify({
+    questions: [
+      {
+        type: 'multiple-choice',
+        question: `What does ${title} recommend doing first?`,
+        options: ['Optimise everything', 'Start from the problem', 'Skip the basics', 'Memorise definitions'],
+        answer: 'Start from the problem',
+        explanation: 'The chapter suggests working backwards from the problem you want to solve.'
+      },
+      {
+        type: 'true-false',
+        question: 'Teams usually adopt new habits all at once.',
+        answer: 'False',
+        explanation: 'Habits are adopted gradually rather than all at once.'
+      },
+      {
+        type: 'short-answer',
+        question: 'Why measure before optimising?',
+        answer: 'So you know what to expect and can tell whether a change helped.',
+        explanation: 'Writing down expectations first makes the result of a change measurable.'
+      }
+    ]
+  }, null, 2);
+}
+
+function buildObjectives(prompt: string): string {
+  const title = prompt.match(/MODULE: (.+)/)?.[1]?.trim() || 'this module';
+  return JSON.stringify({
+    objectives: [
+      `Explain the core ideas behind ${title}`,
+      'Apply them to a small, realistic example',
+      'Recognise the common mistakes and how to avoid them'
+    ]
+  }, null, 2);
+}
+
+function buildFlashcards(prompt: string): string {
+  const title = extractQuoted(prompt, 'this chapter');
+  return JSON.stringify({
+    cards: [
+      { front: `What is the first step ${title} recommends?`, back: 'Start from the problem you want to solve and work backwards.' },
+      { front: 'Why write down expectations before a change?', back: 'So the result can be measured against them.' },
+      { front: 'How are new habits usually adopted?', back: 'Gradually, one small experiment at a time.' }
+    ]
+  }, null, 2);
+}
+
+function buildMemory(prompt: string): string {
+  const title = extractQuoted(prompt, 'this chapter');
+  return JSON.stringify({
+    concepts: [`The core ideas of ${title}`, 'Working backwards from the problem'],
+    terms: [
+      { term: 'Baseline', definition: 'A known reference point used to compare later measurements.' },
+      { term: title, definition: 'The practice this chapter is named after.' }
+    ],
+    examples: [`A small team adopting ${title} step by step`],
+    promises: ['Measuring the results in more depth']
+  }, null, 2);
+}
+
+function buildResponse(context: ProviderRequestContext, shortContent: boolean): string {
+  const random = createRandom(hashString(context.prompt));
+  switch (context.stage) {
+    case 'roadmap': return buildRoadmap(context.prompt, random);
+    case 'objectives': return buildObjectives(context.prompt);
+    case 'module': return shortContent ? buildShortChapter(context.prompt, random) : buildChapter(context.prompt, random);
+    case 'quiz': return buildQuiz(context.prompt);
+    case 'memory': return buildMemory(context.prompt);
+    case 'introduction': return buildSection(context.prompt, random, 'Welcome');
+    case 'summary': return buildSection(context.prompt, random, 'Looking Back');
+    case 'glossary': return buildGlossary();
+    case 'flashcards': return buildFlashcards(context.prompt);
+    default: return buildSection(context.prompt, random, 'Response');
+  }
+}
+
+export const mockAdapter: LocalProviderAdapter = {
+  id: 'mock',
+  name: 'Mock Provider',
+  displayName: 'Mock Provider',
+  description: 'Deterministic offline output for demos and end-to-end runs. No network or key needed.',
+  models: [
+    { id: 'mock-writer', name: 'Mock Writer', description: 'Canned, deterministic output', pricing: { input: 0, output: 0 } }
+  ],
+  capabilities: {
+    streaming: true,
+    requiresApiKey: false,
+    maxOutputTokens: 8192,
+    offline: true
+  },
+
+  isConfigured(settings) {
+    return !!settings.mockSettings?.enabled;
+  },
+
+  async stream(context, signal, onChunk) {
+    const mock = { ...defaultMockSettings, ...context.settings.mockSettings };
+    const failureKey = extractQuoted(context.prompt, context.prompt.slice(0, 80));
+    const served = injectedFailures.get(failureKey) || 0;
+    const injectFailure = context.stage === 'module' &&
+      mock.failureMode !== 'none' &&
+      served < mock.failuresPerChapter;
+
+    if (injectFailure) {
+      injectedFailures.set(failureKey, served + 1);
+      if (mock.failureMode === 'rate_limit') {
+        await sleep(mock.chunkDelayMs * 5);
+        throw new ProviderError('rate_limit', 'Rate limit exceeded (mock 429: too many requests)');
+      }
+    }
+
+    const fullText = buildResponse(context, injectFailure && mock.failureMode === 'short_content');
+    // The same prompt always yields the same text, so a continuation is simply the rest of it
+    const text = context.continuation && fullText.startsWith(context.continuation)
+      ? fullText.slice(context.continuation.length)
+      : fullText;
+    const words = text.match(/\S+\s*/g) || [];
+    const truncated = injectFailure && mock.failureMode === 'truncated';
+    // A simulated timeout dies partway through the stream; truncation stops cleanly at the "token limit"
+    const stopAt = injectFailure && mock.failureMode === 'timeout' ? Math.floor(words.length / 3)
+      : truncated ? Math.floor(words.length / 2)
+      : words.length;
+    let content = '';
+
+    for (let i = 0; i < stopAt; i += 3) {
+      if (signal?.aborted) {
+        throw new DOMException('The operation was aborted.', 'AbortError');
+      }
+      const chunk = words.slice(i, Math.min(i + 3, stopAt)).join('');
+      content += chunk;
+      if (onChunk) onChunk(chunk);
+      if (mock.chunkDelayMs > 0) await sleep(mock.chunkDelayMs);
+    }
+
+    if (stopAt < words.length && !truncated) {
+      throw new ProviderError('timeout', 'Request timeout (mock)');
+    }
+
+    return { text: content, finishReason: truncated ? 'length' : 'stop' };
+  }
+};
@@ -0,0 +1,66 @@
+// src/services/providers/openaiCompatible.ts
+import { ProviderErrorClassification, ProviderFinishReason, ProviderHttpRequest, ProviderRequestContext, ProviderStreamDelta } from './types';
+
+// Shared pieces for providers that speak the OpenAI chat-completions dialect
+
+export function buildChatCompletionRequest(
+  endpoint: string,
+  apiKey: string | null,
+  body: Record<string, unknown>
+): ProviderHttpRequest {
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  if (apiKey) headers['Authorization'] = `Bearer ${apiKey}`;
+
+  return {
+    url: endpoint,
+    init: {
+      method: 'POST',
+      headers,
+      body: JSON.stringify(body)
+    }
+  };
+}
+
+// Chat-completions JSON mode guarantees valid JSON but not the shape, so the schema is still checked by the caller
+export function buildJsonResponseFormat(context: ProviderRequestContext): Record<string, unknown> {
+  return context.responseSchema ? { response_format: { type: 'json_object' } } : {};
+}
+
+interface ChatCompletionUsage {
+  prompt_tokens?: number;
+  completion_tokens?: number;
+}
+
+function toFinishReason(reason?: string | null): ProviderFinishReason | undefined {
+  if (!reason) return undefined;
+  if (reason === 'length') return 'length';
+  return reason === 'stop' ? 'stop' : 'other';
+}
+
+export function decodeChatCompletionEvent(data: unknown): ProviderStreamDelta {
+  const event = data as {
+    choices?: Array<{ delta?: { content?: string }; finish_reason?: string | null }>;
+    usage?: ChatCompletionUsage;
+    x_groq?: { usage?: ChatCompletionUsage }; // Groq reports usage here instead
+  };
+  const usage = event?.usage || event?.x_groq?.usage;
+
+  return {
+    text: event?.choices?.[0]?.delta?.content || '',
+    usage: usage ? { promptTokens: usage.prompt_tokens || 0, completionTokens: usage.completion_tokens || 0 } : undefined,
+    finishReason: toFinishReason(event?.choices?.[0]?.finish_reason)
+  };
+}
+
+export function classifyChatCompletionError(
+  status: number,
+  body: unknown,
+  label: string,
+  rateLimitStatuses: number[] = [429, 503]
+): ProviderErrorClassification {
+  const message = (body as { error?: { message?: string } })?.error?.message;
+  return {
+    kind: rateLimitStatuses.includes(status) ? 'rate_limit' : 'fatal',
+    message: message || `${label} API Error: ${status}`
+  };
+}
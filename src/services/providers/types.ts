@@ -0,0 +1,109 @@
+// src/services/providers/types.ts
+import { APISettings, AdvancedModelSettings, GenerationStage, ProviderRateLimit } from '../../types';
+
+// USD per million tokens
+export interface ModelPricing {
+  input: number;
+  output: number;
+}
+
+export interface ProviderModel {
+  id: string;
+  name: string;
+  description: string;
+  pricing?: ModelPricing;
+}
+
+export interface ProviderCapabilities {
+  streaming: boolean;
+  requiresApiKey: boolean;
+  maxOutputTokens: number;
+  // Model ids are typed by the user instead of picked from `models`
+  freeTextModel?: boolean;
+  // Runs without network access, so the online check is skipped
+  offline?: boolean;
+  // Models that accept the Groq-style reasoning/citation parameters
+  supportsAdvancedSettings?: (model: string) => boolean;
+}
+
+// JSON Schema object passed through to providers with a structured-output mode
+export type JsonSchema = Record<string, unknown>;
+
+export interface ProviderRequestContext {
+  prompt: string;
+  model: string;
+  apiKey: string | null;
+  settings: APISettings;
+  advancedSettings?: AdvancedModelSettings;
+  stage?: GenerationStage;
+  // Text already written when the previous response hit the output limit
+  continuation?: string;
+  // Ask for a JSON answer; adapters use their native JSON mode where the model has one
+  responseSchema?: JsonSchema;
+}
+
+export interface ProviderHttpRequest {
+  url: string;
+  init: RequestInit;
+}
+
+// 'length' means the model ran out of output tokens mid-answer
+export type ProviderFinishReason = 'stop' | 'length' | 'other';
+
+// One decoded `data:` event from a provider's SSE stream
+export interface ProviderStreamDelta {
+  text: string;
+  // Usually only present on the final event
+  usage?: { promptTokens: number; completionTokens: number };
+  finishReason?: ProviderFinishReason;
+}
+
+export type ProviderErrorKind = 'rate_limit' | 'timeout' | 'fatal';
+
+export interface ProviderErrorClassification {
+  kind: ProviderErrorKind;
+  message: string;
+}
+
+// Thrown by local adapters so their failures are handled like an HTTP 429 or a timed-out request
+export class ProviderError extends Error {
+  constructor(readonly kind: ProviderErrorKind, message: string, readonly retryAfterMs?: number) {
+    super(message);
+    this.name = 'ProviderError';
+  }
+}
+
+interface ProviderAdapterBase {
+  id: string;
+  name: string;            // Short name shown in settings and the model picker
+  displayName: string;     // Name written into assembled books
+  icon?: string;           // Path under /public
+  description: string;
+  apiKeyField?: keyof APISettings;
+  apiKeyUrl?: string;
+  models: ProviderModel[];
+  // Model offered when another provider fails and the user switches;
+  // defaults to the first resolved model
+  fallbackModel?: { id: string; name: string };
+  capabilities: ProviderCapabilities;
+  // Free-tier limits used until the user sets their own
+  rateLimit?: ProviderRateLimit;
+
+  // For providers whose models or readiness depend on user settings
+  resolveModels?(settings: APISettings): ProviderModel[];
+  isConfigured?(settings: APISettings): boolean;
+}
+
+// Providers reached over HTTP with an SSE response body
+export interface HttpProviderAdapter extends ProviderAdapterBase {
+  buildRequest(context: ProviderRequestContext): ProviderHttpRequest;
+  decodeStreamEvent(data: unknown): ProviderStreamDelta;
+  classifyError(status: number, body: unknown): ProviderErrorClassification;
+}
+
+// Providers that produce text in-process (no network); the result carries the full text
+export interface LocalProviderAdapter extends ProviderAdapterBase {
+  stream(context: ProviderRequestContext, signal?: AbortSignal, onChunk?: (chunk: string) => void): Promise<ProviderStreamDelta>;
+}
+
+export type ProviderAdapter = HttpProviderAdapter | LocalProviderAdapter;
@@ -0,0 +1,42 @@
+// src/services/providers/zhipu.ts
+import { HttpProviderAdapter } from './types';
+import { buildConversation } from './conversation';
+import { buildChatCompletionRequest, buildJsonResponseFormat, classifyChatCompletionError, decodeChatCompletionEvent } from './openaiCompatible';
+
+export const zhipuAdapter: HttpProviderAdapter = {
+  id: 'zhipu',
+  name: 'ZhipuAI',
+  displayName: 'ZhipuAI',
+  icon: '/zhipu.svg',
+  description: 'For GLM models (Chinese AI provider)',
+  apiKeyField: 'zhipuApiKey',
+  apiKeyUrl: 'https://open.bigmodel.cn/usercenter/apikeys',
+  models: [
+    { id: 'glm-4.5-flash', name: 'GLM 4.5 Flash', description: 'Chinese AI model', pricing: { input: 0, output: 0 } }
+  ],
+  fallbackModel: { id: 'glm-4.5-flash', name: 'GLM 4.5 Flash' },
+  capabilities: {
+    streaming: true,
+    requiresApiKey: true,
+    maxOutputTokens: 8192
+  },
+  rateLimit: { requestsPerMinute: 30, tokensPerMinute: 0 },
+
+  buildRequest(context) {
+    const { model, apiKey } = context;
+    return buildChatCompletionRequest('https://open.bigmodel.cn/api/paas/v4/chat/completions', apiKey, {
+      model,
+      messages: buildConversation(context),
+      temperature: 0.7,
+      max_tokens: 8192,
+      stream: true,
+      ...buildJsonResponseFormat(context)
+    });
+  },
+
+  decodeStreamEvent: decodeChatCompletionEvent,
+
+  classifyError(status, body) {
+    return classifyChatCompletionError(status, body, 'ZhipuAI');
+  }
+};
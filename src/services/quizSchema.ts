@@ -0,0 +1,117 @@
+// src/services/quizSchema.ts
+import { ModuleQuiz, QuizQuestion, QuizQuestionType } from '../types';
+import { JsonSchema } from './providers';
+import { JsonParseResult, isNonEmptyString, parseJsonResponse } from './jsonSchema';
+
+const QUESTION_TYPES: QuizQuestionType[] = ['multiple-choice', 'true-false', 'short-answer'];
+
+export const QUIZ_RESPONSE_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    questions: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          type: { type: 'string', enum: QUESTION_TYPES },
+          question: { type: 'string' },
+          options: { type: 'array', items: { type: 'string' } },
+          answer: { type: 'string' },
+          explanation: { type: 'string' }
+        },
+        required: ['type', 'question', 'answer', 'explanation']
+      }
+    }
+  },
+  required: ['questions']
+};
+
+const normalize = (value: string) => value.trim().toLowerCase();
+
+// Models answer with the option text, a letter ("B", "b)") or occasionally the option number
+function findOptionAnswer(answer: string, options: string[]): string | undefined {
+  const exact = options.find(option => normalize(option) === normalize(answer));
+  if (exact) return exact;
+
+  const letter = answer.trim().match(/^([a-z])(?:[).:]|$)/i);
+  if (letter) return options[letter[1].toLowerCase().charCodeAt(0) - 97];
+
+  const number = answer.trim().match(/^(\d+)$/);
+  if (number) return options[Number(number[1]) - 1];
+  return undefined;
+}
+
+function findTrueFalseAnswer(answer: string): 'True' | 'False' | undefined {
+  const value = normalize(answer);
+  if (value === 'true' || value === 't') return 'True';
+  if (value === 'false' || value === 'f') return 'False';
+  return undefined;
+}
+
+export function validateQuiz(data: unknown): string[] {
+  if (!data || typeof data !== 'object' || Array.isArray(data)) {
+    return ['root: expected a JSON object'];
+  }
+
+  const { questions } = data as Record<string, unknown>;
+  if (!Array.isArray(questions) || questions.length === 0) {
+    return ['questions: expected a non-empty array of question objects'];
+  }
+
+  const errors: string[] = [];
+  questions.forEach((item: unknown, index) => {
+    const path = `questions[${index}]`;
+    if (!item || typeof item !== 'object') {
+      errors.push(`${path}: expected an object`);
+      return;
+    }
+
+    const { type, question, options, answer, explanation } = item as Record<string, unknown>;
+    if (!QUESTION_TYPES.includes(type as QuizQuestionType)) {
+      errors.push(`${path}.type: expected one of ${QUESTION_TYPES.join(', ')}`);
+    }
+    if (!isNonEmptyString(question)) errors.push(`${path}.question: expected a non-empty string`);
+    if (!isNonEmptyString(explanation)) errors.push(`${path}.explanation: expected a non-empty string`);
+    if (!isNonEmptyString(answer)) {
+      errors.push(`${path}.answer: expected a non-empty string`);
+      return;
+    }
+
+    if (type === 'multiple-choice') {
+      if (!Array.isArray(options) || options.length < 2 || !options.every(isNonEmptyString)) {
+        errors.push(`${path}.options: expected at least two non-empty strings`);
+      } else if (!findOptionAnswer(answer, options)) {
+        errors.push(`${path}.answer: expected the text of one of the options`);
+      }
+    } else if (type === 'true-false' && !findTrueFalseAnswer(answer)) {
+      errors.push(`${path}.answer: expected "True" or "False"`);
+    }
+  });
+
+  return errors;
+}
+
+export function parseQuiz(response: string): JsonParseResult<ModuleQuiz> {
+  return parseJsonResponse(response, validateQuiz, data => {
+    const raw = (data as { questions: Array<Omit<QuizQuestion, 'id'>> }).questions;
+    const questions: QuizQuestion[] = raw.map((item, index) => {
+      const base = {
+        id: `q${index + 1}`,
+        type: item.type,
+        question: item.question.trim(),
+        explanation: item.explanation.trim()
+      };
+
+      if (item.type === 'multiple-choice') {
+        const options = item.options!.map(option => option.trim());
+        return { ...base, options, answer: findOptionAnswer(item.answer, options)! };
+      }
+      if (item.type === 'true-false') {
+        return { ...base, answer: findTrueFalseAnswer(item.answer)! };
+      }
+      return { ...base, answer: item.answer.trim() };
+    });
+
+    return { questions, generatedAt: new Date() };
+  });
+}
@@ -0,0 +1,182 @@
+// src/services/requestScheduler.ts
+import { ProviderRateLimit } from '../types';
+
+interface PendingRequest {
+  cost: number;
+  resolve: () => void;
+  reject: (error: Error) => void;
+  signal?: AbortSignal;
+  onAbort?: () => void;
+}
+
+// Token bucket for one provider: requests and tokens refill continuously over a minute
+class ProviderQueue {
+  private limits: ProviderRateLimit;
+  private requestAllowance: number;
+  private tokenAllowance: number;
+  private lastRefill = Date.now();
+  private blockedUntil = 0;
+  private queue: PendingRequest[] = [];
+  private timer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(limits: ProviderRateLimit) {
+    this.limits = limits;
+    this.requestAllowance = limits.requestsPerMinute;
+    this.tokenAllowance = limits.tokensPerMinute;
+  }
+
+  setLimits(limits: ProviderRateLimit) {
+    if (limits.requestsPerMinute === this.limits.requestsPerMinute &&
+        limits.tokensPerMinute === this.limits.tokensPerMinute) return;
+
+    this.refill();
+    // A limit that was off starts with a full bucket rather than an empty one
+    const resize = (allowance: number, previous: number, next: number) => previous ? Math.min(allowance, next) : next;
+    this.requestAllowance = resize(this.requestAllowance, this.limits.requestsPerMinute, limits.requestsPerMinute);
+    this.tokenAllowance = resize(this.tokenAllowance, this.limits.tokensPerMinute, limits.tokensPerMinute);
+    this.limits = limits;
+    this.drain();
+  }
+
+  acquire(cost: number, signal?: AbortSignal): Promise<void> {
+    if (signal?.aborted) {
+      return Promise.reject(new DOMException('The operation was aborted.', 'AbortError'));
+    }
+
+    return new Promise((resolve, reject) => {
+      const pending: PendingRequest = { cost, resolve, reject, signal };
+
+      if (signal) {
+        pending.onAbort = () => {
+          this.queue = this.queue.filter(p => p !== pending);
+          reject(new DOMException('The operation was aborted.', 'AbortError'));
+          this.drain();
+        };
+        signal.addEventListener('abort', pending.onAbort, { once: true });
+      }
+
+      this.queue.push(pending);
+      this.drain();
+    });
+  }
+
+  // Corrects the token estimate once the provider reports real usage
+  settle(delta: number) {
+    if (!this.limits.tokensPerMinute) return;
+    this.tokenAllowance = Math.min(this.limits.tokensPerMinute, this.tokenAllowance - delta);
+  }
+
+  block(ms: number) {
+    this.blockedUntil = Math.max(this.blockedUntil, Date.now() + ms);
+    this.drain();
+  }
+
+  getBlockedFor(): number {
+    return Math.max(0, this.blockedUntil - Date.now());
+  }
+
+  private refill() {
+    const now = Date.now();
+    const minutes = (now - this.lastRefill) / 60000;
+    this.lastRefill = now;
+
+    const { requestsPerMinute, tokensPerMinute } = this.limits;
+    if (requestsPerMinute) {
+      this.requestAllowance = Math.min(requestsPerMinute, this.requestAllowance + minutes * requestsPerMinute);
+    }
+    if (tokensPerMinute) {
+      this.tokenAllowance = Math.min(tokensPerMinute, this.tokenAllowance + minutes * tokensPerMinute);
+    }
+  }
+
+  private getWaitTime(cost: number): number {
+    const blockedFor = this.getBlockedFor();
+    if (blockedFor > 0) return blockedFor;
+
+    const { requestsPerMinute, tokensPerMinute } = this.limits;
+    let wait = 0;
+
+    if (requestsPerMinute && this.requestAllowance < 1) {
+      wait = Math.max(wait, ((1 - this.requestAllowance) / requestsPerMinute) * 60000);
+    }
+
+    // A request larger than the whole bucket only waits for a full bucket
+    const needed = Math.min(cost, tokensPerMinute);
+    if (tokensPerMinute && this.tokenAllowance < needed) {
+      wait = Math.max(wait, ((needed - this.tokenAllowance) / tokensPerMinute) * 60000);
+    }
+
+    return Math.ceil(wait);
+  }
+
+  private drain() {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+
+    while (this.queue.length > 0) {
+      this.refill();
+      const next = this.queue[0];
+      const wait = this.getWaitTime(next.cost);
+
+      if (wait > 0) {
+        this.timer = setTimeout(() => this.drain(), wait);
+        return;
+      }
+
+      this.queue.shift();
+      if (this.limits.requestsPerMinute) this.requestAllowance -= 1;
+      if (this.limits.tokensPerMinute) this.tokenAllowance -= next.cost;
+      if (next.signal && next.onAbort) next.signal.removeEventListener('abort', next.onAbort);
+      next.resolve();
+    }
+  }
+}
+
+// One queue per provider, shared by every generation stage and every book
+class RequestScheduler {
+  private queues = new Map<string, ProviderQueue>();
+
+  private getQueue(providerId: string, limits: ProviderRateLimit): ProviderQueue {
+    let queue = this.queues.get(providerId);
+    if (!queue) {
+      queue = new ProviderQueue(limits);
+      this.queues.set(providerId, queue);
+    } else {
+      queue.setLimits(limits);
+    }
+    return queue;
+  }
+
+  acquire(providerId: string, limits: ProviderRateLimit, cost: number, signal?: AbortSignal): Promise<void> {
+    return this.getQueue(providerId, limits).acquire(cost, signal);
+  }
+
+  settle(providerId: string, delta: number) {
+    this.queues.get(providerId)?.settle(delta);
+  }
+
+  // Holds every queued call for the provider, e.g. after a 429
+  block(providerId: string, ms: number) {
+    const queue = this.queues.get(providerId);
+    if (queue) queue.block(ms);
+  }
+
+  getBlockedFor(providerId: string): number {
+    return this.queues.get(providerId)?.getBlockedFor() || 0;
+  }
+}
+
+// `Retry-After` is either delay-seconds or an HTTP date
+export function parseRetryAfter(header: string | null): number | null {
+  if (!header) return null;
+
+  const seconds = Number(header);
+  if (!Number.isNaN(seconds)) return Math.max(0, seconds * 1000);
+
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+export const requestScheduler = new RequestScheduler();
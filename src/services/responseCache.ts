@@ -0,0 +1,146 @@
+// src/services/responseCache.ts
+import { GenerationStage } from '../types';
+
+const DB_NAME = 'pustakam-cache';
+const STORE_NAME = 'responses';
+const DB_VERSION = 1;
+
+export const DEFAULT_CACHE_LIMIT_MB = 25;
+
+export interface CachedResponse {
+  key: string;
+  provider: string;
+  model: string;
+  stage: GenerationStage;
+  content: string;
+  size: number; // Bytes of `content`, used for the size limit
+  createdAt: number;
+  lastUsedAt: number;
+}
+
+export interface CacheStats {
+  entries: number;
+  bytes: number;
+}
+
+// Everything that changes the answer; two calls with equal parts get the same key
+export interface CacheKeyParts {
+  provider: string;
+  model: string;
+  stage: GenerationStage;
+  prompt: string;
+  params?: unknown;
+}
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+// IndexedDB-backed cache of finished AI responses, evicted least-recently-used first
+class ResponseCache {
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+          const store = request.result.createObjectStore(STORE_NAME, { keyPath: 'key' });
+          store.createIndex('lastUsedAt', 'lastUsedAt');
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      }).catch(error => {
+        this.dbPromise = null;
+        throw error;
+      });
+    }
+    return this.dbPromise;
+  }
+
+  private async store(mode: IDBTransactionMode): Promise<IDBObjectStore> {
+    const db = await this.open();
+    return db.transaction(STORE_NAME, mode).objectStore(STORE_NAME);
+  }
+
+  async buildKey(parts: CacheKeyParts): Promise<string> {
+    const data = new TextEncoder().encode(JSON.stringify([parts.provider, parts.model, parts.stage, parts.params ?? null, parts.prompt]));
+    const digest = await crypto.subtle.digest('SHA-256', data);
+    return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+  }
+
+  async get(key: string): Promise<CachedResponse | null> {
+    try {
+      const entry = await promisify<CachedResponse | undefined>((await this.store('readonly')).get(key));
+      if (!entry) return null;
+
+      const touched = { ...entry, lastUsedAt: Date.now() };
+      (await this.store('readwrite')).put(touched);
+      return touched;
+    } catch (error) {
+      console.warn('Response cache read failed:', error);
+      return null;
+    }
+  }
+
+  async put(entry: Omit<CachedResponse, 'size' | 'createdAt' | 'lastUsedAt'>, limitMB: number): Promise<void> {
+    const size = new Blob([entry.content]).size;
+    const limitBytes = limitMB * 1024 * 1024;
+    if (size > limitBytes) return;
+
+    try {
+      const now = Date.now();
+      await promisify((await this.store('readwrite')).put({ ...entry, size, createdAt: now, lastUsedAt: now }));
+      await this.evict(limitBytes);
+    } catch (error) {
+      console.warn('Response cache write failed:', error);
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    try {
+      await promisify((await this.store('readwrite')).delete(key));
+    } catch (error) {
+      console.warn('Response cache delete failed:', error);
+    }
+  }
+
+  // Oldest-used first, until the total fits under the limit
+  async evict(limitBytes: number): Promise<void> {
+    const entries = await this.list();
+    let total = entries.reduce((sum, entry) => sum + entry.size, 0);
+    if (total <= limitBytes) return;
+
+    const store = await this.store('readwrite');
+    for (const entry of [...entries].reverse()) {
+      if (total <= limitBytes) break;
+      store.delete(entry.key);
+      total -= entry.size;
+    }
+  }
+
+  // Most recently used first
+  async list(): Promise<CachedResponse[]> {
+    try {
+      const entries = await promisify<CachedResponse[]>((await this.store('readonly')).getAll());
+      return entries.sort((a, b) => b.lastUsedAt - a.lastUsedAt);
+    } catch (error) {
+      console.warn('Response cache list failed:', error);
+      return [];
+    }
+  }
+
+  async getStats(): Promise<CacheStats> {
+    const entries = await this.list();
+    return { entries: entries.length, bytes: entries.reduce((sum, entry) => sum + entry.size, 0) };
+  }
+
+  async clear(): Promise<void> {
+    await promisify((await this.store('readwrite')).clear());
+  }
+}
+
+export const responseCache = new ResponseCache();
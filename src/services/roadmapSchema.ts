@@ -0,0 +1,126 @@
+// src/services/roadmapSchema.ts
+import { BookRoadmap } from '../types';
+import { JsonSchema } from './providers';
+import { JsonParseResult, isNonEmptyString, parseJsonResponse } from './jsonSchema';
+
+const DIFFICULTY_LEVELS: BookRoadmap['difficultyLevel'][] = ['beginner', 'intermediate', 'advanced'];
+
+export const ROADMAP_RESPONSE_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    modules: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          title: { type: 'string' },
+          objectives: { type: 'array', items: { type: 'string' } },
+          estimatedTime: { type: 'string' }
+        },
+        required: ['title', 'objectives', 'estimatedTime']
+      }
+    },
+    estimatedReadingTime: { type: 'string' },
+    difficultyLevel: { type: 'string', enum: DIFFICULTY_LEVELS }
+  },
+  required: ['modules', 'estimatedReadingTime', 'difficultyLevel']
+};
+
+export function validateRoadmap(data: unknown): string[] {
+  const errors: string[] = [];
+
+  if (!data || typeof data !== 'object' || Array.isArray(data)) {
+    return ['root: expected a JSON object'];
+  }
+
+  const roadmap = data as Record<string, unknown>;
+
+  if (!Array.isArray(roadmap.modules)) {
+    errors.push('modules: expected an array of module objects');
+  } else if (roadmap.modules.length === 0) {
+    errors.push('modules: expected at least one module');
+  } else {
+    roadmap.modules.forEach((module: unknown, index) => {
+      const path = `modules[${index}]`;
+      if (!module || typeof module !== 'object') {
+        errors.push(`${path}: expected an object`);
+        return;
+      }
+
+      const { title, objectives, estimatedTime } = module as Record<string, unknown>;
+      if (!isNonEmptyString(title)) {
+        errors.push(`${path}.title: expected a non-empty string`);
+      }
+      if (!Array.isArray(objectives) || objectives.length === 0) {
+        errors.push(`${path}.objectives: expected a non-empty array of strings`);
+      } else {
+        objectives.forEach((objective, i) => {
+          if (!isNonEmptyString(objective)) errors.push(`${path}.objectives[${i}]: expected a non-empty string`);
+        });
+      }
+      if (!isNonEmptyString(estimatedTime)) {
+        errors.push(`${path}.estimatedTime: expected a string such as "2-3 hours"`);
+      }
+    });
+  }
+
+  if (roadmap.estimatedReadingTime !== undefined && !isNonEmptyString(roadmap.estimatedReadingTime)) {
+    errors.push('estimatedReadingTime: expected a string such as "20-25 hours"');
+  }
+  if (roadmap.difficultyLevel !== undefined &&
+      !DIFFICULTY_LEVELS.includes(roadmap.difficultyLevel as BookRoadmap['difficultyLevel'])) {
+    errors.push(`difficultyLevel: expected one of ${DIFFICULTY_LEVELS.join(', ')}`);
+  }
+
+  return errors;
+}
+
+export function parseRoadmap(
+  response: string,
+  defaultDifficulty: BookRoadmap['difficultyLevel'] = 'intermediate'
+): JsonParseResult<BookRoadmap> {
+  return parseJsonResponse(response, validateRoadmap, data => {
+    const raw = data as {
+      modules: Array<{ title: string; objectives: string[]; estimatedTime: string }>;
+      estimatedReadingTime?: string;
+      difficultyLevel?: BookRoadmap['difficultyLevel'];
+    };
+
+    const modules = raw.modules.map((module, index) => ({
+      id: `module_${index + 1}`,
+      title: module.title.trim(),
+      objectives: module.objectives.map(objective => objective.trim()),
+      estimatedTime: module.estimatedTime.trim(),
+      order: index + 1
+    }));
+
+    return {
+      modules,
+      totalModules: modules.length,
+      estimatedReadingTime: raw.estimatedReadingTime?.trim() || `${modules.length * 2} hours`,
+      difficultyLevel: raw.difficultyLevel || defaultDifficulty
+    };
+  });
+}
+
+// A single module's objectives, rewritten from the roadmap editor
+export const OBJECTIVES_RESPONSE_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    objectives: { type: 'array', items: { type: 'string' } }
+  },
+  required: ['objectives']
+};
+
+function validateObjectives(data: unknown): string[] {
+  const objectives = (data as Record<string, unknown> | null)?.objectives;
+  return Array.isArray(objectives) && objectives.length > 0 && objectives.every(isNonEmptyString)
+    ? []
+    : ['objectives: expected a non-empty array of non-empty strings'];
+}
+
+export function parseObjectives(response: string): JsonParseResult<string[]> {
+  return parseJsonResponse(response, validateObjectives, data =>
+    (data as { objectives: string[] }).objectives.map(objective => objective.trim())
+  );
+}
@@ -1,42 +1,81 @@
 // src/types.ts
-import { AdvancedModelSettings } from './types/book';
-
-export type ModelProvider = 'google' | 'mistral' | 'zhipu' | 'groq';
-
-export type ModelID =
-  // Google Gemini Models
-  | 'gemini-2.0-flash-lite'
-  | 'gemini-2.5-flash-lite'
-  | 'gemini-2.0-flash'
-  | 'gemini-2.5-flash'
-  | 'gemma-3-27b-it'
-  | 'gemini-2.5-pro'
-  // ZhipuAI (GLM) Models
-  | 'glm-4.5-flash'
-  // Mistral Models
-  | 'mistral-small-latest'
-  | 'mistral-medium-latest'
-  | 'mistral-large-latest'
-  | 'pixtral-large-latest'
-  // Groq Models
-  | 'llama-3.3-70b-versatile'
-  | 'openai/gpt-oss-120b'
-  | 'openai/gpt-oss-20b'
-  | 'moonshotai/kimi-k2-instruct-0905'
-  | 'moonshotai/kimi-k2-instruct'
-  | 'groq/compound'
-  | 'groq/compound-mini';
+import { AdvancedModelSettings, ModelTarget, PromptTemplates, StageModelRouting } from './types/book';
+
+// Provider and model ids are owned by the adapter registry in services/providers
+export type ModelProvider = string;
+
+export type ModelID = string;
+
+export interface MockProviderSettings {
+  enabled: boolean;
+  chunkDelayMs: number;        // Pause between streamed chunks
+  failureMode: 'none' | 'rate_limit' | 'timeout' | 'short_content' | 'truncated';
+  failuresPerChapter: number;  // Consecutive injected failures before a chapter succeeds
+}
+
+// Zero means no limit
+export interface ProviderRateLimit {
+  requestsPerMinute: number;
+  tokensPerMinute: number;
+}
+
+// How a failed chapter is retried when nobody is watching the run
+export interface FallbackPolicy {
+  mode: 'automatic' | 'interactive';  // 'interactive' waits on the retry panel
+  chain: ModelTarget[];               // Tried in order after the chapter's own model
+  maxAttemptsPerModel: number;
+  onExhausted: 'skip' | 'stop';
+}
+
+export const defaultFallbackPolicy: FallbackPolicy = {
+  mode: 'automatic',
+  chain: [],
+  maxAttemptsPerModel: 2,
+  onExhausted: 'skip'
+};
+
+// A further key for a provider, rotated together with its primary `*ApiKey` field
+export interface ApiKeyEntry {
+  id: string;
+  label: string;
+  key: string;
+}
 
 export interface APISettings {
   googleApiKey: string;
   zhipuApiKey: string;
   mistralApiKey: string;
   groqApiKey: string;
+  // OpenAI-compatible endpoint (llama.cpp, vLLM, LM Studio, Ollama)
+  customBaseUrl?: string;
+  customApiKey?: string;
+  customModel?: string;
+  // Extra keys keyed by provider id
+  extraApiKeys?: Record<string, ApiKeyEntry[]>;
+  // Built-in offline provider for demos and end-to-end runs
+  mockSettings?: MockProviderSettings;
   selectedModel: ModelID;
   selectedProvider: ModelProvider;
   
   // ✅ NEW: Advanced settings
   advancedSettings?: AdvancedModelSettings;
+
+  // Default per-stage models copied onto each new book
+  stageRouting?: StageModelRouting;
+
+  fallbackPolicy?: FallbackPolicy;
+
+  // Chapters written at the same time (1-4)
+  moduleConcurrency?: number;
+
+  // Overrides of each adapter's default limits, keyed by provider id
+  rateLimits?: Record<string, ProviderRateLimit>;
+
+  // Size cap for cached roadmap and assembly responses
+  responseCacheLimitMB?: number;
+
+  // Edited prompt templates; stages left out use the built-in text
+  promptTemplates?: PromptTemplates;
 }
 
 export * from './types/book';
@@ -1,11 +1,12 @@
 // src/types/book.ts
 export type BookCategory = 'programming' | 'science' | 'art' | 'business' | 'general';
+export type BookLanguage = 'en' | 'hi' | 'mr' | 'es' | 'de';
 
 export interface BookProject {
   id: string;
   title: string;
   goal: string;
-  language: 'en'; // Simplified to English only
+  language: BookLanguage;
   status: 'planning' | 'generating_roadmap' | 'roadmap_completed' | 'generating_content' | 'assembling' | 'completed' | 'error';
   progress: number; // 0-100
   createdAt: Date;
@@ -17,6 +18,16 @@ export interface BookProject {
   category: BookCategory;
   reasoning?: string; // Optional field for the book's rationale
   totalWords?: number; // Ensure this is part of the type
+  modelRouting?: StageModelRouting; // Fixed at creation so resumed runs keep the same models
+  usage?: TokenUsage[]; // Calls not tied to a chapter (roadmap, assembly)
+  bypassCache?: boolean; // Always ask the model, even when an identical request is cached
+  promptTemplates?: PromptTemplates; // Overrides the global templates for this book only
+  templateId?: string; // Preset the book was started from
+  systemPrompt?: string; // Brief from the preset, repeated in the prompts
+  estimatedModules?: number;
+  targetAudience?: string;
+  preferences?: BookSession['preferences'];
+  flashcards?: Flashcard[]; // The book's review deck, with each card's schedule
   readingProgress?: {
     currentModuleIndex: number;
     scrollPosition: number;
@@ -25,6 +36,10 @@ export interface BookProject {
   };
 }
 
+// What the engine reports about a book. `addedUsage` is appended to the usage the book has
+// when the update lands, so calls that finish out of order don't drop each other's usage.
+export type BookProgressUpdate = Partial<BookProject> & { addedUsage?: TokenUsage[] };
+
 export interface BookRoadmap {
   modules: RoadmapModule[];
   totalModules: number;
@@ -49,6 +64,97 @@ export interface BookModule {
   status: 'pending' | 'generating' | 'completed' | 'error';
   generatedAt?: Date;
   error?: string;
+  usage?: TokenUsage[];
+  quiz?: ModuleQuiz; // Written after the chapter when the book includes quizzes
+  memory?: ChapterMemory; // What the chapter established, fed to the chapters after it
+  revisionInstructions?: string; // What the revision that produced this text was asked to change
+  previousVersion?: ModuleVersion; // The text this one replaced, kept for comparison
+}
+
+export interface ModuleVersion {
+  content: string;
+  wordCount: number;
+  generatedAt?: Date;
+  revisionInstructions?: string;
+  quiz?: ModuleQuiz;
+  memory?: ChapterMemory;
+}
+
+// A written chapter to write again; with instructions it is revised instead of rewritten from scratch
+export interface ChapterRewrite {
+  moduleId: string;
+  instructions?: string;
+}
+
+export interface MemoryTerm {
+  term: string;
+  definition: string;
+}
+
+export interface ChapterMemory {
+  concepts: string[];
+  terms: MemoryTerm[];
+  examples: string[];
+  promises: string[]; // Topics the chapter said a later chapter would cover
+}
+
+export type QuizQuestionType = 'multiple-choice' | 'true-false' | 'short-answer';
+
+export interface QuizQuestion {
+  id: string;
+  type: QuizQuestionType;
+  question: string;
+  options?: string[]; // Multiple choice only
+  answer: string; // The correct option's text, "True"/"False", or a model answer
+  explanation: string;
+}
+
+export interface ModuleQuiz {
+  questions: QuizQuestion[];
+  generatedAt: Date;
+}
+
+export type FlashcardGrade = 'again' | 'hard' | 'good' | 'easy';
+
+// Scheduled with SM-2: `easiness` scales the interval after each successful review
+export interface Flashcard {
+  id: string;
+  front: string;
+  back: string;
+  source: 'chapter' | 'glossary';
+  moduleId?: string; // Roadmap module the card came from, when known
+  easiness: number;
+  interval: number; // Days until the next review
+  repetitions: number; // Successful reviews in a row
+  dueAt: Date;
+  lastReviewedAt?: Date;
+}
+
+// Each AI call made while producing a book belongs to one of these stages
+export const GENERATION_STAGES = ['roadmap', 'objectives', 'module', 'revision', 'quiz', 'memory', 'introduction', 'summary', 'glossary', 'flashcards'] as const;
+export type GenerationStage = typeof GENERATION_STAGES[number];
+
+export interface ModelTarget {
+  provider: string;
+  model: string;
+}
+
+// Stages without an entry use the globally selected model
+export type StageModelRouting = Partial<Record<GenerationStage, ModelTarget>>;
+
+// Prompt text per stage with `{variable}` placeholders; stages without an entry use the next level up
+export type PromptTemplates = Partial<Record<GenerationStage, string>>;
+
+// One AI call as reported by the provider
+export interface TokenUsage {
+  stage: GenerationStage;
+  provider: string;
+  model: string;
+  promptTokens: number;
+  completionTokens: number;
+  durationMs: number;
+  estimated?: boolean; // Provider reported nothing, so tokens were counted from text length
+  cached?: boolean; // Served from the response cache at no cost
 }
 
 export interface BookGenerationProgress {
@@ -72,7 +178,7 @@ export interface AdvancedModelSettings {
 
 export interface BookSession {
   goal: string;
-  language: 'en'; // Simplified to English only
+  language: BookLanguage;
   targetAudience?: string;
   complexityLevel?: 'beginner' | 'intermediate' | 'advanced';
   preferences?: {
@@ -83,6 +189,34 @@ export interface BookSession {
   reasoning?: string; // Optional field for the book's rationale
   // ✅ NEW: Advanced settings per session
   advancedSettings?: AdvancedModelSettings;
+  modelRouting?: StageModelRouting;
+  bypassCache?: boolean;
+  revisionInstructions?: string; // Rewrites an existing chapter with these instructions instead of writing it fresh
+  promptTemplates?: PromptTemplates;
+  templateId?: string;
+  systemPrompt?: string;
+  estimatedModules?: number;
+}
+
+export type QueueJobKind = 'roadmap' | 'full';
+export type QueueJobStatus = 'queued' | 'running' | 'paused' | 'completed' | 'error';
+export type QueuePriority = 'high' | 'normal' | 'low';
+export type QueueStep = 'roadmap' | 'chapters' | 'assembly';
+
+// A book waiting for the library-wide generation queue
+export interface QueueJob {
+  id: string;
+  bookId: string;
+  kind: QueueJobKind; // 'roadmap' stops once the outline exists; 'full' goes on to the finished book
+  priority: QueuePriority;
+  status: QueueJobStatus;
+  session: BookSession;
+  modelTarget?: ModelTarget; // Runs every stage on this model instead of the book's routing
+  step?: QueueStep; // Last step started, used to tell a finished step from a paused one
+  error?: string;
+  createdAt: Date;
+  startedAt?: Date;
+  finishedAt?: Date;
 }
 
 export interface ReadingBookmark {
@@ -0,0 +1,268 @@
+// src/utils/bookConsistency.ts
+import { BookModule } from '../types/book';
+
+export interface PassageLocation {
+  moduleId: string;
+  moduleTitle: string;
+  chapter: number;
+  text: string;
+}
+
+export interface DuplicateGroup {
+  id: string;
+  similarity: number; // Highest Jaccard similarity between two of its passages, 0-1
+  passages: PassageLocation[]; // In reading order; the first is the one worth keeping
+}
+
+export interface TermDefinition {
+  moduleId: string;
+  moduleTitle: string;
+  chapter: number;
+  definition: string;
+  differs: boolean; // Disagrees with the first definition, which the book treats as the meaning
+}
+
+export interface TermConflict {
+  term: string;
+  definitions: TermDefinition[];
+}
+
+export interface ConsistencyReport {
+  paragraphsChecked: number;
+  duplicates: DuplicateGroup[];
+  termConflicts: TermConflict[];
+}
+
+const SHINGLE_SIZE = 5;
+const MIN_PARAGRAPH_WORDS = 20;
+// 32 bands of 2 rows catch nearly every pair above the threshold; candidates are then checked exactly
+const BANDS = 32;
+const ROWS = 2;
+const DUPLICATE_THRESHOLD = 0.5;
+// Definitions sharing fewer content words than this are treated as saying different things
+const DEFINITION_THRESHOLD = 0.2;
+
+const STOP_WORDS = new Set([
+  'the', 'and', 'for', 'that', 'this', 'with', 'are', 'was', 'its', 'from', 'into', 'which', 'when', 'where',
+  'how', 'what', 'can', 'you', 'your', 'used', 'use', 'using', 'such', 'other', 'than', 'then', 'also', 'way'
+]);
+
+interface Paragraph extends PassageLocation {
+  shingles: Set<number>;
+  signature: number[];
+}
+
+const tokenize = (text: string) =>
+  text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || [];
+
+// FNV-1a, so shingles hash the same way in every run
+function hashString(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+// Murmur3's finalizer: a cheap stand-in for an independent hash function per seed
+function mix(value: number): number {
+  let h = value;
+  h ^= h >>> 16;
+  h = Math.imul(h, 0x85ebca6b);
+  h ^= h >>> 13;
+  h = Math.imul(h, 0xc2b2ae35);
+  h ^= h >>> 16;
+  return h >>> 0;
+}
+
+const SEEDS = Array.from({ length: BANDS * ROWS }, (_, i) => mix(i + 1) ^ 0x9e3779b9);
+
+function shingle(text: string): Set<number> {
+  const words = tokenize(text);
+  const shingles = new Set<number>();
+  for (let i = 0; i + SHINGLE_SIZE <= words.length; i++) {
+    shingles.add(hashString(words.slice(i, i + SHINGLE_SIZE).join(' ')));
+  }
+  return shingles;
+}
+
+function minHash(shingles: Set<number>): number[] {
+  return SEEDS.map(seed => {
+    let min = 0xffffffff;
+    shingles.forEach(value => {
+      const hashed = mix(value ^ seed);
+      if (hashed < min) min = hashed;
+    });
+    return min;
+  });
+}
+
+function jaccard<T>(a: Set<T>, b: Set<T>): number {
+  if (a.size === 0 || b.size === 0) return 0;
+  let shared = 0;
+  a.forEach(value => { if (b.has(value)) shared++; });
+  return shared / (a.size + b.size - shared);
+}
+
+// Paragraphs are blank-line separated blocks; a fenced code block counts as one, headings don't count
+function splitParagraphs(content: string): string[] {
+  const blocks: string[] = [];
+  let current: string[] = [];
+  let inFence = false;
+
+  const flush = () => {
+    const block = current.join('\n').trim();
+    if (block && !/^#{1,6}\s/.test(block)) blocks.push(block);
+    current = [];
+  };
+
+  content.split('\n').forEach(line => {
+    if (/^\s*(```|~~~)/.test(line)) inFence = !inFence;
+    if (!inFence && !line.trim()) {
+      flush();
+      return;
+    }
+    current.push(line);
+  });
+  flush();
+  return blocks;
+}
+
+function findDuplicates(modules: BookModule[]): { paragraphs: number; groups: DuplicateGroup[] } {
+  const paragraphs: Paragraph[] = modules.flatMap((module, index) =>
+    splitParagraphs(module.content)
+      .filter(text => tokenize(text).length >= MIN_PARAGRAPH_WORDS)
+      .map(text => {
+        const shingles = shingle(text);
+        return { moduleId: module.id, moduleTitle: module.title, chapter: index + 1, text, shingles, signature: minHash(shingles) };
+      })
+  );
+
+  const buckets = new Map<string, number[]>();
+  paragraphs.forEach((paragraph, index) => {
+    for (let band = 0; band < BANDS; band++) {
+      const key = `${band}:${paragraph.signature.slice(band * ROWS, (band + 1) * ROWS).join(',')}`;
+      const bucket = buckets.get(key);
+      if (bucket) bucket.push(index);
+      else buckets.set(key, [index]);
+    }
+  });
+
+  // Union-find, so a passage repeated in three chapters comes out as one group
+  const parent = paragraphs.map((_, index) => index);
+  const find = (index: number): number => parent[index] === index ? index : (parent[index] = find(parent[index]));
+  const similarity = new Map<number, number>();
+  const checked = new Set<string>();
+
+  buckets.forEach(bucket => {
+    for (let i = 0; i < bucket.length; i++) {
+      for (let j = i + 1; j < bucket.length; j++) {
+        const a = bucket[i];
+        const b = bucket[j];
+        const pairKey = `${a}:${b}`;
+        if (paragraphs[a].moduleId === paragraphs[b].moduleId || checked.has(pairKey)) continue;
+        checked.add(pairKey);
+
+        const score = jaccard(paragraphs[a].shingles, paragraphs[b].shingles);
+        if (score < DUPLICATE_THRESHOLD) continue;
+        const root = find(a);
+        const merged = Math.max(score, similarity.get(root) || 0, similarity.get(find(b)) || 0);
+        parent[find(b)] = root;
+        similarity.set(root, merged);
+      }
+    }
+  });
+
+  const members = new Map<number, number[]>();
+  paragraphs.forEach((_, index) => {
+    const root = find(index);
+    if (similarity.has(root)) members.set(root, [...(members.get(root) || []), index]);
+  });
+
+  const groups = Array.from(members.entries()).map(([root, indexes]) => ({
+    id: `duplicate_${root}`,
+    similarity: similarity.get(root) || 0,
+    passages: indexes.map(index => {
+      const { moduleId, moduleTitle, chapter, text } = paragraphs[index];
+      return { moduleId, moduleTitle, chapter, text };
+    })
+  }));
+  groups.sort((a, b) => b.passages.length - a.passages.length || b.similarity - a.similarity);
+  return { paragraphs: paragraphs.length, groups };
+}
+
+const DEFINITION_PATTERNS = [
+  /^\s*(?:[-*]\s+)?\*\*([^*\n]{2,60})\*\*\s*[:—–-]\s*(.+)$/gm,
+  /\*\*([^*\n]{2,60})\*\*\s+(?:is|are|refers to|means)\s+([^.\n]+\.)/g
+];
+
+// Definitions the chapter memory recorded, then bolded ones in the text; the first per term wins
+function collectDefinitions(module: BookModule): Map<string, { term: string; definition: string }> {
+  const found = new Map<string, { term: string; definition: string }>();
+  const add = (term: string, definition: string) => {
+    const key = term.trim().toLowerCase();
+    if (key && definition.trim() && !found.has(key)) found.set(key, { term: term.trim(), definition: definition.trim() });
+  };
+
+  module.memory?.terms.forEach(({ term, definition }) => add(term, definition));
+  DEFINITION_PATTERNS.forEach(pattern => {
+    Array.from(module.content.matchAll(pattern)).forEach(match => add(match[1], match[2]));
+  });
+  return found;
+}
+
+const contentWords = (text: string) =>
+  new Set(tokenize(text).filter(word => word.length > 2 && !STOP_WORDS.has(word)));
+
+function findTermConflicts(modules: BookModule[]): TermConflict[] {
+  const byTerm = new Map<string, { term: string; definitions: TermDefinition[] }>();
+  modules.forEach((module, index) => {
+    collectDefinitions(module).forEach(({ term, definition }, key) => {
+      const entry = byTerm.get(key) || { term, definitions: [] };
+      entry.definitions.push({ moduleId: module.id, moduleTitle: module.title, chapter: index + 1, definition, differs: false });
+      byTerm.set(key, entry);
+    });
+  });
+
+  return Array.from(byTerm.values()).flatMap(({ term, definitions }) => {
+    if (definitions.length < 2) return [];
+    // The term itself says nothing about whether two definitions agree
+    const termWords = contentWords(term);
+    const words = (definition: string) => new Set(Array.from(contentWords(definition)).filter(w => !termWords.has(w)));
+    const first = words(definitions[0].definition);
+    const compared = definitions.map((d, index) => ({ ...d, differs: index > 0 && jaccard(first, words(d.definition)) < DEFINITION_THRESHOLD }));
+    return compared.some(d => d.differs) ? [{ term, definitions: compared }] : [];
+  });
+}
+
+// Compares finished chapters with each other; nothing here calls the AI
+export function analyzeBookConsistency(modules: BookModule[]): ConsistencyReport {
+  const written = modules.filter(m => m.status === 'completed' && m.content.trim());
+  const { paragraphs, groups } = findDuplicates(written);
+  return { paragraphsChecked: paragraphs, duplicates: groups, termConflicts: findTermConflicts(written) };
+}
+
+const excerpt = (text: string, length = 200) => {
+  const flat = text.replace(/\s+/g, ' ').trim();
+  return flat.length > length ? `${flat.slice(0, length).trimEnd()}…` : flat;
+};
+
+// For every chapter that repeats the group's first passage
+export function buildDeduplicationInstructions(group: DuplicateGroup, passage: PassageLocation): string {
+  const original = group.passages[0];
+  return [
+    `This chapter repeats material that chapter ${original.chapter} ("${original.moduleTitle}") already covers:`,
+    `"${excerpt(passage.text)}"`,
+    'Remove the repetition or cut it down to a short reference back to that chapter, keeping anything it adds that is new. Leave the rest of the chapter unchanged.'
+  ].join('\n');
+}
+
+export function buildTermAlignmentInstructions(conflict: TermConflict, definition: TermDefinition): string {
+  const original = conflict.definitions[0];
+  return [
+    `Chapter ${original.chapter} ("${original.moduleTitle}") defines "${conflict.term}" as: "${excerpt(original.definition)}"`,
+    `This chapter defines it as: "${excerpt(definition.definition)}"`,
+    'Make this chapter use the earlier meaning. Where the difference is deliberate, say how it relates to the earlier definition. Leave the rest of the chapter unchanged.'
+  ].join('\n');
+}
@@ -0,0 +1,65 @@
+// src/utils/bookMemory.ts
+import { ChapterMemory } from '../types/book';
+
+export interface ChapterMemoryEntry {
+  chapter: number;
+  title: string;
+  memory: ChapterMemory;
+}
+
+// Keeps the memory small enough to send with every chapter prompt, however long the book gets
+const MAX_CONCEPTS = 30;
+const MAX_DEFINED_TERMS = 25;
+const MAX_EXAMPLES = 12;
+const MAX_PROMISES = 10;
+const MAX_MEMORY_CHARS = 5000;
+
+const tagged = (text: string, chapter: number) => `${text} (ch. ${chapter})`;
+
+// Repeats keep the chapter that first mentioned them; once a list is over its limit the oldest entries go
+function collect(entries: ChapterMemoryEntry[], pick: (memory: ChapterMemory) => string[], limit: number): string[] {
+  const seen = new Set<string>();
+  const items = entries.flatMap(({ chapter, memory }) => pick(memory).flatMap(text => {
+    const key = text.trim().toLowerCase();
+    if (seen.has(key)) return [];
+    seen.add(key);
+    return [tagged(text, chapter)];
+  }));
+  return items.slice(-limit);
+}
+
+// The running memory of everything written so far, oldest chapter first. A term keeps the
+// definition from the chapter that introduced it, and older terms lose their definitions
+// before they are dropped, so later chapters still know the name is taken.
+export function renderBookMemory(entries: ChapterMemoryEntry[]): string {
+  if (entries.length === 0) return '';
+  const sorted = [...entries].sort((a, b) => a.chapter - b.chapter);
+
+  const seenTerms = new Set<string>();
+  const terms: Array<{ term: string; definition: string; chapter: number }> = [];
+  sorted.forEach(({ chapter, memory }) => memory.terms.forEach(({ term, definition }) => {
+    const key = term.trim().toLowerCase();
+    if (seenTerms.has(key)) return;
+    seenTerms.add(key);
+    terms.push({ term, definition, chapter });
+  }));
+  const definedTerms = terms.slice(-MAX_DEFINED_TERMS);
+  const namedTerms = terms.slice(0, Math.max(0, terms.length - MAX_DEFINED_TERMS));
+
+  const concepts = collect(sorted, memory => memory.concepts, MAX_CONCEPTS);
+  const examples = collect(sorted, memory => memory.examples, MAX_EXAMPLES);
+  const promises = collect(sorted, memory => memory.promises, MAX_PROMISES);
+
+  const lines = [
+    `Chapters written: ${sorted.map(({ chapter, title }) => `${chapter}. ${title}`).join('; ')}`,
+    concepts.length > 0 ? `Concepts introduced: ${concepts.join('; ')}` : '',
+    definedTerms.length > 0
+      ? ['Terms already defined:', ...definedTerms.map(({ term, definition, chapter }) => `- ${tagged(term, chapter)}: ${definition}`)].join('\n')
+      : '',
+    namedTerms.length > 0 ? `Also defined earlier: ${namedTerms.map(({ term }) => term).join(', ')}` : '',
+    examples.length > 0 ? `Examples already used: ${examples.join('; ')}` : '',
+    promises.length > 0 ? `Promised for later chapters: ${promises.join('; ')}` : ''
+  ].filter(Boolean).join('\n');
+
+  return lines.length > MAX_MEMORY_CHARS ? `${lines.slice(0, MAX_MEMORY_CHARS).trimEnd()}…` : lines;
+}
@@ -0,0 +1,71 @@
+// src/utils/bookQuizzes.ts
+import { BookModule, ModuleQuiz } from '../types';
+
+export interface BookSegment {
+  markdown: string;
+  module?: BookModule; // Set when the segment ends a chapter that has a quiz
+}
+
+const QUESTION_TYPE_LABELS: Record<string, string> = {
+  'multiple-choice': 'Multiple choice',
+  'true-false': 'True or false',
+  'short-answer': 'Short answer'
+};
+
+// Questions first and the answer key after, so a printed copy can be used as a test
+export function formatQuizMarkdown(title: string, quiz: ModuleQuiz): string {
+  const questions = quiz.questions.map((question, index) => {
+    const lines = [`**${index + 1}. ${question.question}** _(${QUESTION_TYPE_LABELS[question.type]})_`];
+    if (question.type === 'multiple-choice' && question.options) {
+      lines.push('', ...question.options.map((option, i) => `- ${String.fromCharCode(65 + i)}) ${option}`));
+    }
+    return lines.join('\n');
+  });
+
+  const answers = quiz.questions.map((question, index) => {
+    const letter = question.options?.indexOf(question.answer) ?? -1;
+    const answer = letter >= 0 ? `${String.fromCharCode(65 + letter)}) ${question.answer}` : question.answer;
+    return `${index + 1}. **${answer}** — ${question.explanation}`;
+  });
+
+  return [`### Quiz: ${title}`, ...questions, '#### Answers', answers.join('\n')].join('\n\n');
+}
+
+// Chapters are located by their text; one edited beyond recognition is left out and
+// its quiz comes back in `unplaced`
+export function splitBookAtChapters(finalBook: string, modules: BookModule[]): { segments: BookSegment[]; unplaced: BookModule[] } {
+  const segments: BookSegment[] = [];
+  const unplaced: BookModule[] = [];
+  let cursor = 0;
+
+  modules.filter(m => m.quiz && m.quiz.questions.length > 0).forEach(module => {
+    const content = module.content.trim();
+    const start = content ? finalBook.indexOf(content, cursor) : -1;
+    if (start === -1) {
+      unplaced.push(module);
+      return;
+    }
+
+    const end = start + content.length;
+    segments.push({ markdown: finalBook.slice(cursor, end), module });
+    cursor = end;
+  });
+
+  segments.push({ markdown: finalBook.slice(cursor) });
+  return { segments, unplaced };
+}
+
+// The book as exported: each quiz follows its chapter, and any that couldn't be placed close the book
+export function buildBookWithQuizzes(finalBook: string, modules: BookModule[]): string {
+  const { segments, unplaced } = splitBookAtChapters(finalBook, modules);
+  if (segments.length === 1 && unplaced.length === 0) return finalBook;
+
+  const body = segments
+    .map(segment => segment.module
+      ? `${segment.markdown}\n\n${formatQuizMarkdown(segment.module.title, segment.module.quiz!)}`
+      : segment.markdown)
+    .join('');
+  const trailing = unplaced.map(module => formatQuizMarkdown(module.title, module.quiz!));
+
+  return trailing.length > 0 ? `${body}\n\n---\n\n${trailing.join('\n\n')}` : body;
+}
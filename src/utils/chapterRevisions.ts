@@ -0,0 +1,47 @@
+// src/utils/chapterRevisions.ts
+import { BookModule, BookProject, ModuleVersion } from '../types/book';
+
+const WORDS_LINE = /^\*\*Words:\*\* .*$/m;
+
+// Swaps one chapter's text inside the assembled book, leaving any hand edits
+// elsewhere alone. Returns null when the old text was edited beyond recognition.
+export function replaceChapterInBook(finalBook: string, oldContent: string, newContent: string, totalWords: number): string | null {
+  const start = oldContent ? finalBook.indexOf(oldContent) : -1;
+  if (start === -1) return null;
+
+  const updated = finalBook.slice(0, start) + newContent + finalBook.slice(start + oldContent.length);
+  return updated.replace(WORDS_LINE, `**Words:** ${totalWords.toLocaleString()}`);
+}
+
+export const toModuleVersion = (module: BookModule): ModuleVersion => ({
+  content: module.content,
+  wordCount: module.wordCount,
+  generatedAt: module.generatedAt,
+  revisionInstructions: module.revisionInstructions,
+  quiz: module.quiz,
+  memory: module.memory
+});
+
+export const sumWords = (modules: BookModule[]) => modules.reduce((sum, m) => sum + m.wordCount, 0);
+
+// Puts the chapter's previous text back, keeping the replaced one as the new previous version
+export function restorePreviousVersion(book: BookProject, moduleId: string): Partial<BookProject> | null {
+  const module = book.modules.find(m => m.id === moduleId);
+  const previous = module?.previousVersion;
+  if (!module || !previous || !book.finalBook) return null;
+
+  const restored: BookModule = {
+    ...module,
+    content: previous.content,
+    wordCount: previous.wordCount,
+    generatedAt: previous.generatedAt,
+    revisionInstructions: previous.revisionInstructions,
+    quiz: previous.quiz,
+    memory: previous.memory,
+    previousVersion: toModuleVersion(module)
+  };
+  const modules = book.modules.map(m => m.id === moduleId ? restored : m);
+  const totalWords = sumWords(modules);
+  const finalBook = replaceChapterInBook(book.finalBook, module.content, restored.content, totalWords);
+  return finalBook === null ? null : { modules, finalBook, totalWords };
+}
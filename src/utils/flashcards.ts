@@ -0,0 +1,141 @@
+// src/utils/flashcards.ts
+import { BookModule, BookProject, Flashcard, FlashcardGrade } from '../types/book';
+import { generateId } from './helpers';
+import { getLanguage } from './languages';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const INITIAL_EASINESS = 2.5;
+const MIN_EASINESS = 1.3;
+
+// SM-2 grades answers from 0 to 5; anything below 3 counts as forgotten
+const GRADE_QUALITY: Record<FlashcardGrade, number> = { again: 1, hard: 3, good: 4, easy: 5 };
+
+export const FLASHCARD_GRADES: Array<{ id: FlashcardGrade; label: string }> = [
+  { id: 'again', label: 'Again' },
+  { id: 'hard', label: 'Hard' },
+  { id: 'good', label: 'Good' },
+  { id: 'easy', label: 'Easy' }
+];
+
+const startOfDay = (date: Date) => new Date(date.getFullYear(), date.getMonth(), date.getDate());
+
+export function createFlashcard(
+  front: string,
+  back: string,
+  source: Flashcard['source'],
+  moduleId?: string,
+  now = new Date()
+): Flashcard {
+  return {
+    id: generateId(),
+    front,
+    back,
+    source,
+    moduleId,
+    easiness: INITIAL_EASINESS,
+    interval: 0,
+    repetitions: 0,
+    dueAt: now
+  };
+}
+
+// Cards fall due at the start of a day, so a day's reviews can be done in one sitting
+export function reviewFlashcard(card: Flashcard, grade: FlashcardGrade, now = new Date()): Flashcard {
+  const quality = GRADE_QUALITY[grade];
+  let { easiness, repetitions, interval } = card;
+
+  if (quality < 3) {
+    // A forgotten card starts over without touching its easiness
+    repetitions = 0;
+    interval = 1;
+  } else {
+    easiness = Math.max(MIN_EASINESS, easiness + 0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02));
+    repetitions += 1;
+    interval = repetitions === 1 ? 1 : repetitions === 2 ? 6 : Math.round(interval * easiness);
+  }
+
+  return {
+    ...card,
+    easiness,
+    repetitions,
+    interval,
+    dueAt: new Date(startOfDay(now).getTime() + interval * DAY_MS),
+    lastReviewedAt: now
+  };
+}
+
+// Days until the card would next be due, for labelling the grade buttons
+export function previewInterval(card: Flashcard, grade: FlashcardGrade): number {
+  return reviewFlashcard(card, grade).interval;
+}
+
+export function isFlashcardDue(card: Flashcard, now = new Date()): boolean {
+  return card.dueAt.getTime() <= now.getTime();
+}
+
+export function getDueFlashcards(book: BookProject, now = new Date()): Flashcard[] {
+  return (book.flashcards || []).filter(card => isFlashcardDue(card, now));
+}
+
+export function countDueFlashcards(book: BookProject, now = new Date()): number {
+  return getDueFlashcards(book, now).length;
+}
+
+export function getNextDueDate(books: BookProject[]): Date | undefined {
+  const times = books.flatMap(book => (book.flashcards || []).map(card => card.dueAt.getTime()));
+  return times.length > 0 ? new Date(Math.min(...times)) : undefined;
+}
+
+const GLOSSARY_ENTRY = /^\s*(?:[-*]\s+)?\*\*(.+?)\*\*\s*[:：\-–—]?\s*(.+)$/;
+
+// Reads `**Term**: Definition` lines from the glossary the assembled book ends with
+export function parseGlossaryEntries(finalBook: string, language?: string): Array<{ term: string; definition: string }> {
+  const heading = `## ${getLanguage(language).headings.glossary}`;
+  const start = finalBook.lastIndexOf(heading);
+  if (start === -1) return [];
+
+  const section = finalBook.slice(start + heading.length).split(/\n## /)[0];
+  return section.split('\n').flatMap(line => {
+    const match = line.match(GLOSSARY_ENTRY);
+    if (!match) return [];
+    const term = match[1].replace(/[:：]\s*$/, '').trim();
+    const definition = match[2].trim();
+    return term && definition ? [{ term, definition }] : [];
+  });
+}
+
+// A glossary term belongs to the first chapter that mentions it
+export function findModuleForTerm(term: string, modules: BookModule[]): BookModule | undefined {
+  const needle = term.toLowerCase();
+  return modules.find(module => module.content.toLowerCase().includes(needle));
+}
+
+const chapterTitle = (book: BookProject, card: Flashcard) =>
+  book.modules.find(m => m.roadmapModuleId === card.moduleId)?.title || '';
+
+const csvField = (value: string) => /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+export function exportFlashcardsCsv(book: BookProject): string {
+  const rows = (book.flashcards || []).map(card =>
+    [card.front, card.back, chapterTitle(book, card), card.dueAt.toISOString().slice(0, 10)].map(csvField).join(',')
+  );
+  return ['Front,Back,Chapter,Due', ...rows].join('\n');
+}
+
+const ankiField = (value: string) => {
+  const text = value.replace(/\t/g, ' ');
+  return /["\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const ankiTag = (value: string) => value.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, '-').replace(/^-|-$/g, '');
+
+// Anki's plain-text import: the header lines pick the separator, deck and tag column
+export function exportFlashcardsAnki(book: BookProject): string {
+  const bookTag = ankiTag(book.title);
+  const rows = (book.flashcards || []).map(card => {
+    const chapter = ankiTag(chapterTitle(book, card));
+    const tags = [bookTag, chapter && `${bookTag}::${chapter}`].filter(Boolean).join(' ');
+    return [ankiField(card.front), ankiField(card.back), tags].join('\t');
+  });
+  return ['#separator:tab', '#html:false', `#deck:${book.title}`, '#tags column:3', ...rows].join('\n');
+}
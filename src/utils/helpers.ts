@@ -1,3 +1,5 @@
+import { BookProject, BookSession } from '../types/book';
+
 export function generateId(): string {
   return Math.random().toString(36).substr(2, 9);
 }
@@ -17,4 +19,26 @@ export function formatDate(date: Date): string {
     hour: '2-digit',
     minute: '2-digit',
   }).format(date);
-}
\ No newline at end of file
+}
+
+// Books only keep part of the create form, so later stages rebuild the session from what was stored
+export function buildSessionFromBook(book: BookProject): BookSession {
+  return {
+    goal: book.goal,
+    language: book.language || 'en',
+    targetAudience: book.targetAudience || '',
+    complexityLevel: book.roadmap?.difficultyLevel || 'intermediate',
+    preferences: book.preferences || {
+      includeExamples: true,
+      includePracticalExercises: false,
+      includeQuizzes: false
+    },
+    reasoning: book.reasoning,
+    modelRouting: book.modelRouting,
+    bypassCache: book.bypassCache,
+    promptTemplates: book.promptTemplates,
+    templateId: book.templateId,
+    systemPrompt: book.systemPrompt,
+    estimatedModules: book.estimatedModules
+  };
+}
@@ -0,0 +1,191 @@
+// src/utils/keyVault.ts
+import { APISettings } from '../types';
+import { providerRegistry } from '../services/providers';
+
+const VAULT_KEY = 'pustakam-key-vault';
+const PBKDF2_ITERATIONS = 310000;
+
+// Everything needed to re-derive the key and decrypt, minus the passphrase
+export interface VaultRecord {
+  version: 1;
+  iterations: number;
+  salt: string;       // base64
+  iv: string;         // base64, fresh for every write
+  ciphertext: string; // base64 AES-GCM output of the secrets JSON
+}
+
+// API key values keyed by their `APISettings` field, plus any extra keys
+export interface VaultSecrets {
+  [field: string]: string | APISettings['extraApiKeys'];
+  extraApiKeys?: APISettings['extraApiKeys'];
+}
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+function toBase64(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes));
+}
+
+function fromBase64(value: string): Uint8Array {
+  return Uint8Array.from(atob(value), c => c.charCodeAt(0));
+}
+
+function isVaultRecord(value: unknown): value is VaultRecord {
+  const record = value as VaultRecord;
+  return !!record && record.version === 1 &&
+    typeof record.iterations === 'number' &&
+    typeof record.salt === 'string' &&
+    typeof record.iv === 'string' &&
+    typeof record.ciphertext === 'string';
+}
+
+async function deriveKey(passphrase: string, salt: Uint8Array, iterations: number): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey('raw', encoder.encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+}
+
+// Keeps API keys out of plaintext storage. The derived key lives only in memory,
+// so the passphrase is asked for once per page load.
+class KeyVault {
+  private key: CryptoKey | null = null;
+  private salt: Uint8Array | null = null;
+  private iterations = PBKDF2_ITERATIONS;
+
+  getSecretFields(): Array<keyof APISettings> {
+    return providerRegistry.list()
+      .map(adapter => adapter.apiKeyField)
+      .filter((field): field is keyof APISettings => !!field);
+  }
+
+  extractSecrets(settings: APISettings): VaultSecrets {
+    const secrets: VaultSecrets = {};
+    this.getSecretFields().forEach(field => {
+      const value = settings[field];
+      if (typeof value === 'string' && value) secrets[field as string] = value;
+    });
+    if (settings.extraApiKeys && Object.keys(settings.extraApiKeys).length > 0) {
+      secrets.extraApiKeys = settings.extraApiKeys;
+    }
+    return secrets;
+  }
+
+  applySecrets(settings: APISettings, secrets: VaultSecrets): APISettings {
+    const merged = { ...settings };
+    this.getSecretFields().forEach(field => {
+      if (secrets[field]) (merged as Record<string, unknown>)[field] = secrets[field];
+    });
+    if (secrets.extraApiKeys) merged.extraApiKeys = secrets.extraApiKeys;
+    return merged;
+  }
+
+  stripSecrets(settings: APISettings): APISettings {
+    const stripped = { ...settings };
+    this.getSecretFields().forEach(field => {
+      (stripped as Record<string, unknown>)[field] = '';
+    });
+    delete stripped.extraApiKeys;
+    return stripped;
+  }
+
+  getRecord(): VaultRecord | null {
+    try {
+      const stored = localStorage.getItem(VAULT_KEY);
+      const record = stored ? JSON.parse(stored) : null;
+      return isVaultRecord(record) ? record : null;
+    } catch (error) {
+      console.error('Error reading key vault:', error);
+      return null;
+    }
+  }
+
+  isEnabled(): boolean {
+    return this.getRecord() !== null;
+  }
+
+  isUnlocked(): boolean {
+    return this.key !== null;
+  }
+
+  async enable(passphrase: string, settings: APISettings): Promise<void> {
+    if (passphrase.length < 8) {
+      throw new Error('Passphrase must be at least 8 characters');
+    }
+    this.salt = crypto.getRandomValues(new Uint8Array(16));
+    this.iterations = PBKDF2_ITERATIONS;
+    this.key = await deriveKey(passphrase, this.salt, this.iterations);
+    await this.seal(settings);
+  }
+
+  async unlock(passphrase: string): Promise<VaultSecrets> {
+    const record = this.getRecord();
+    if (!record) throw new Error('No key vault found');
+
+    const salt = fromBase64(record.salt);
+    const key = await deriveKey(passphrase, salt, record.iterations);
+
+    let plaintext: ArrayBuffer;
+    try {
+      plaintext = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(record.iv) }, key, fromBase64(record.ciphertext));
+    } catch {
+      // GCM authentication fails for a wrong passphrase and for tampered data alike
+      throw new Error('Incorrect passphrase');
+    }
+
+    this.key = key;
+    this.salt = salt;
+    this.iterations = record.iterations;
+    return JSON.parse(decoder.decode(plaintext));
+  }
+
+  // Re-encrypts the current keys; called on every settings save while unlocked
+  async seal(settings: APISettings): Promise<void> {
+    // Captured up front so a lock() during encryption cannot mix old and new state
+    const { key, salt, iterations } = this;
+    if (!key || !salt) throw new Error('Key vault is locked');
+
+    const iv = crypto.getRandomValues(new Uint8Array(12));
+    const ciphertext = await crypto.subtle.encrypt(
+      { name: 'AES-GCM', iv },
+      key,
+      encoder.encode(JSON.stringify(this.extractSecrets(settings)))
+    );
+    // Locked or removed while encrypting; writing now would resurrect the vault
+    if (this.key !== key) return;
+
+    const record: VaultRecord = {
+      version: 1,
+      iterations,
+      salt: toBase64(salt),
+      iv: toBase64(iv),
+      ciphertext: toBase64(new Uint8Array(ciphertext))
+    };
+    localStorage.setItem(VAULT_KEY, JSON.stringify(record));
+  }
+
+  lock(): void {
+    this.key = null;
+    this.salt = null;
+  }
+
+  disable(): void {
+    this.lock();
+    localStorage.removeItem(VAULT_KEY);
+  }
+
+  // Restores a vault from a backup; it stays locked until the passphrase is entered
+  importRecord(record: unknown): boolean {
+    if (!isVaultRecord(record)) return false;
+    this.lock();
+    localStorage.setItem(VAULT_KEY, JSON.stringify(record));
+    return true;
+  }
+}
+
+export const keyVault = new KeyVault();
@@ -0,0 +1,106 @@
+// src/utils/languages.ts
+import { BookLanguage } from '../types/book';
+
+export type LanguageScript = 'latin' | 'devanagari';
+
+export interface LanguageInfo {
+  code: BookLanguage;
+  name: string;
+  nativeName: string;
+  script: LanguageScript;
+  // Section titles the assembled book adds around the chapters
+  headings: {
+    contents: string;
+    introduction: string;
+    summary: string;
+    glossary: string;
+  };
+}
+
+export const LANGUAGES: LanguageInfo[] = [
+  {
+    code: 'en',
+    name: 'English',
+    nativeName: 'English',
+    script: 'latin',
+    headings: { contents: 'Table of Contents', introduction: 'Introduction', summary: 'Summary', glossary: 'Glossary' }
+  },
+  {
+    code: 'hi',
+    name: 'Hindi',
+    nativeName: 'हिन्दी',
+    script: 'devanagari',
+    headings: { contents: 'विषय सूची', introduction: 'परिचय', summary: 'सारांश', glossary: 'शब्दावली' }
+  },
+  {
+    code: 'mr',
+    name: 'Marathi',
+    nativeName: 'मराठी',
+    script: 'devanagari',
+    headings: { contents: 'अनुक्रमणिका', introduction: 'प्रस्तावना', summary: 'सारांश', glossary: 'शब्दसूची' }
+  },
+  {
+    code: 'es',
+    name: 'Spanish',
+    nativeName: 'Español',
+    script: 'latin',
+    headings: { contents: 'Índice', introduction: 'Introducción', summary: 'Resumen', glossary: 'Glosario' }
+  },
+  {
+    code: 'de',
+    name: 'German',
+    nativeName: 'Deutsch',
+    script: 'latin',
+    headings: { contents: 'Inhaltsverzeichnis', introduction: 'Einleitung', summary: 'Zusammenfassung', glossary: 'Glossar' }
+  }
+];
+
+// Books saved before languages existed, and unknown codes, read as English
+export function getLanguage(code?: string): LanguageInfo {
+  return LANGUAGES.find(language => language.code === code) || LANGUAGES[0];
+}
+
+// Scripts written without spaces between words
+const UNSPACED_SCRIPT = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Thai}\p{Script=Lao}\p{Script=Khmer}\p{Script=Myanmar}]/u;
+const WORD_CHARACTER = /[\p{L}\p{N}]/u;
+
+// Intl.Segmenter is newer than the ES2020 lib this project compiles against
+interface WordSegmenter {
+  segment(text: string): Iterable<{ segment: string; isWordLike?: boolean }>;
+}
+
+let segmenter: WordSegmenter | null | undefined;
+
+function getSegmenter(): WordSegmenter | null {
+  if (segmenter === undefined) {
+    const Segmenter = (Intl as unknown as {
+      Segmenter?: new (locale: undefined, options: { granularity: 'word' }) => WordSegmenter;
+    }).Segmenter;
+    segmenter = Segmenter ? new Segmenter(undefined, { granularity: 'word' }) : null;
+  }
+  return segmenter;
+}
+
+// Whitespace splitting undercounts unspaced scripts, and counts markdown symbols and
+// standalone punctuation such as the Devanagari danda as words
+export function countWords(text: string): number {
+  let count = 0;
+  for (const token of text.split(/\s+/)) {
+    if (!WORD_CHARACTER.test(token)) continue;
+    if (!UNSPACED_SCRIPT.test(token)) {
+      count++;
+      continue;
+    }
+
+    const wordSegmenter = getSegmenter();
+    if (wordSegmenter) {
+      for (const segment of wordSegmenter.segment(token)) {
+        if (segment.isWordLike) count++;
+      }
+    } else {
+      // Without a segmenter, each ideograph or syllable is the closest thing to a word
+      count += Array.from(token).filter(char => WORD_CHARACTER.test(char)).length;
+    }
+  }
+  return count;
+}
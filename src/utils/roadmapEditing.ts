@@ -0,0 +1,137 @@
+// src/utils/roadmapEditing.ts
+import { BookRoadmap, RoadmapModule } from '../types/book';
+import { generateId } from './helpers';
+
+export type RoadmapModuleEdits = Partial<Pick<RoadmapModule, 'title' | 'objectives' | 'estimatedTime'>>;
+
+// Added, split and merged modules get fresh ids, so a checkpoint or chapter written
+// for a module that no longer exists can never be mistaken for the new one
+const newModuleId = () => `module_${generateId()}`;
+
+// The optional second number of a range is matched, and skipped, so the first one is read
+const TIME_PATTERN = /(\d+(?:\.\d+)?)(?:\s*(?:-|–|to)\s*\d+(?:\.\d+)?)?\s*(hours?|hrs?|h|minutes?|mins?|m)\b/i;
+
+// "2 hours", "45 min", "1.5h"; ranges such as "2-3 hours" count from their first number
+export function parseEstimatedMinutes(estimatedTime: string): number | undefined {
+  const match = estimatedTime.match(TIME_PATTERN);
+  if (!match) return undefined;
+  const value = Number(match[1]);
+  return match[2].toLowerCase().startsWith('h') ? value * 60 : value;
+}
+
+export function formatEstimatedMinutes(minutes: number): string {
+  if (minutes < 60) return `${Math.round(minutes)} minutes`;
+  const hours = Math.round((minutes / 60) * 2) / 2;
+  return `${hours} ${hours === 1 ? 'hour' : 'hours'}`;
+}
+
+// Free-text times that can't be read are joined as written
+function combineEstimatedTimes(times: string[]): string {
+  const minutes = times.map(parseEstimatedMinutes);
+  if (minutes.every((value): value is number => value !== undefined)) {
+    return formatEstimatedMinutes(minutes.reduce((sum, value) => sum + value, 0));
+  }
+  return times.join(' + ');
+}
+
+// Keeps order, totalModules and the reading time in step with the module list
+function withModules(roadmap: BookRoadmap, modules: RoadmapModule[]): BookRoadmap {
+  const minutes = modules.map(m => parseEstimatedMinutes(m.estimatedTime));
+  const canTotal = modules.length > 0 && minutes.every(value => value !== undefined);
+  return {
+    ...roadmap,
+    modules: modules.map((module, index) => ({ ...module, order: index + 1 })),
+    totalModules: modules.length,
+    estimatedReadingTime: canTotal
+      ? formatEstimatedMinutes(minutes.reduce((sum: number, value) => sum + (value || 0), 0))
+      : roadmap.estimatedReadingTime
+  };
+}
+
+export function updateRoadmapModule(roadmap: BookRoadmap, moduleId: string, edits: RoadmapModuleEdits): BookRoadmap {
+  return withModules(roadmap, roadmap.modules.map(m => m.id === moduleId ? { ...m, ...edits } : m));
+}
+
+export function moveRoadmapModule(roadmap: BookRoadmap, moduleId: string, direction: -1 | 1): BookRoadmap {
+  const index = roadmap.modules.findIndex(m => m.id === moduleId);
+  const target = index + direction;
+  if (index === -1 || target < 0 || target >= roadmap.modules.length) return roadmap;
+
+  const modules = [...roadmap.modules];
+  [modules[index], modules[target]] = [modules[target], modules[index]];
+  return withModules(roadmap, modules);
+}
+
+export function addRoadmapModule(roadmap: BookRoadmap, afterModuleId?: string): BookRoadmap {
+  const module: RoadmapModule = { id: newModuleId(), title: 'New Module', objectives: [''], estimatedTime: '1 hour', order: 0 };
+  const index = afterModuleId ? roadmap.modules.findIndex(m => m.id === afterModuleId) : -1;
+  const modules = [...roadmap.modules];
+  modules.splice(index === -1 ? modules.length : index + 1, 0, module);
+  return withModules(roadmap, modules);
+}
+
+export function removeRoadmapModule(roadmap: BookRoadmap, moduleId: string): BookRoadmap {
+  return withModules(roadmap, roadmap.modules.filter(m => m.id !== moduleId));
+}
+
+// Halves the objectives between two parts; needs at least two objectives to split
+export function splitRoadmapModule(roadmap: BookRoadmap, moduleId: string): BookRoadmap {
+  const index = roadmap.modules.findIndex(m => m.id === moduleId);
+  const module = roadmap.modules[index];
+  const objectives = module?.objectives.filter(o => o.trim()) || [];
+  if (!module || objectives.length < 2) return roadmap;
+
+  const half = Math.ceil(objectives.length / 2);
+  const minutes = parseEstimatedMinutes(module.estimatedTime);
+  const estimatedTime = minutes !== undefined ? formatEstimatedMinutes(minutes / 2) : module.estimatedTime;
+  const parts: RoadmapModule[] = [
+    { ...module, id: newModuleId(), title: `${module.title} (Part 1)`, objectives: objectives.slice(0, half), estimatedTime },
+    { ...module, id: newModuleId(), title: `${module.title} (Part 2)`, objectives: objectives.slice(half), estimatedTime }
+  ];
+
+  const modules = [...roadmap.modules];
+  modules.splice(index, 1, ...parts);
+  return withModules(roadmap, modules);
+}
+
+// Merges a module with the one after it
+export function mergeRoadmapModules(roadmap: BookRoadmap, moduleId: string): BookRoadmap {
+  const index = roadmap.modules.findIndex(m => m.id === moduleId);
+  const first = roadmap.modules[index];
+  const second = roadmap.modules[index + 1];
+  if (!first || !second) return roadmap;
+
+  const merged: RoadmapModule = {
+    id: newModuleId(),
+    title: `${first.title} & ${second.title}`,
+    objectives: [...first.objectives, ...second.objectives].filter(o => o.trim()),
+    estimatedTime: combineEstimatedTimes([first.estimatedTime, second.estimatedTime]),
+    order: 0
+  };
+
+  const modules = [...roadmap.modules];
+  modules.splice(index, 2, merged);
+  return withModules(roadmap, modules);
+}
+
+// Editing keeps blank lines so the objective textareas behave; they're dropped on save
+export function cleanRoadmap(roadmap: BookRoadmap): BookRoadmap {
+  return withModules(roadmap, roadmap.modules.map(m => ({
+    ...m,
+    title: m.title.trim(),
+    objectives: m.objectives.map(o => o.trim()).filter(Boolean),
+    estimatedTime: m.estimatedTime.trim()
+  })));
+}
+
+export function validateRoadmapEdits(roadmap: BookRoadmap): string[] {
+  if (roadmap.modules.length === 0) return ['The roadmap needs at least one module'];
+
+  const errors: string[] = [];
+  roadmap.modules.forEach((module, index) => {
+    const label = `Module ${index + 1}`;
+    if (!module.title.trim()) errors.push(`${label} needs a title`);
+    if (!module.objectives.some(o => o.trim())) errors.push(`${label} needs at least one objective`);
+  });
+  return errors;
+}
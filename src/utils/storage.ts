@@ -1,14 +1,26 @@
 // src/utils/storage.ts
-import { APISettings, BookProject } from '../types';
+import { APISettings, BookProject, Flashcard, QueueJob, defaultFallbackPolicy } from '../types';
+import { providerRegistry, defaultMockSettings, ModelPricing } from '../services/providers';
+import { BookTemplate } from '../services/bookEnhancements';
+import { keyVault } from './keyVault';
 
 const SETTINGS_KEY = 'pustakam-settings';
 const BOOKS_KEY = 'pustakam-books';
+const MODEL_PRICES_KEY = 'pustakam-model-prices';
+const QUEUE_KEY = 'pustakam-generation-queue';
+const CUSTOM_TEMPLATES_KEY = 'pustakam-book-templates';
 
 const defaultSettings: APISettings = {
   googleApiKey: '',
   zhipuApiKey: '',
   mistralApiKey: '',
   groqApiKey: '',
+  customBaseUrl: '',
+  customApiKey: '',
+  customModel: '',
+  mockSettings: { ...defaultMockSettings },
+  fallbackPolicy: { ...defaultFallbackPolicy },
+  moduleConcurrency: 1,
   selectedProvider: 'google',
   selectedModel: 'gemini-2.5-flash',
   
@@ -34,48 +46,40 @@ export const storageUtils = {
         ...parsed,
       };
 
-      if (!settings.selectedProvider || !['google', 'mistral', 'zhipu', 'groq'].includes(settings.selectedProvider)) {
+      if (!settings.selectedProvider || !providerRegistry.has(settings.selectedProvider)) {
         console.warn('Invalid selectedProvider found in storage:', settings.selectedProvider);
         settings.selectedProvider = defaultSettings.selectedProvider;
       }
 
-const validModels = {
-  google: ['gemini-2.0-flash-lite', 'gemini-2.5-flash-lite', 'gemini-2.0-flash', 'gemini-2.5-flash', 'gemma-3-27b-it', 'gemini-2.5-pro'],
-  mistral: ['mistral-small-latest', 'mistral-medium-latest', 'mistral-large-latest', 'pixtral-large-latest'],
-  zhipu: ['glm-4.5-flash'],
-  groq: [
-    'llama-3.3-70b-versatile', 
-    'groq/compound',
-    'groq/compound-mini',
-    'openai/gpt-oss-120b', 
-    'openai/gpt-oss-20b', 
-    'moonshotai/kimi-k2-instruct-0905', 
-    'moonshotai/kimi-k2-instruct'
-  ]
-};
-
-      const providerModels = validModels[settings.selectedProvider];
-      if (!providerModels.includes(settings.selectedModel)) {
+      if (!providerRegistry.isValidModel(settings.selectedProvider, settings.selectedModel)) {
         console.warn(`Invalid model ${settings.selectedModel} for provider ${settings.selectedProvider}`);
-        settings.selectedModel = providerModels[0];
+        settings.selectedModel = providerRegistry.get(settings.selectedProvider)?.models[0]?.id ?? '';
       }
 
       return settings;
     } catch (error) {
+      // The stored settings are left alone: they may hold keys that can't be typed in again
       console.error('Error loading settings:', error);
-      localStorage.removeItem(SETTINGS_KEY);
       return defaultSettings;
     }
   },
 
   saveSettings(settings: APISettings): void {
     try {
-      if (!settings.selectedProvider || !['google', 'mistral', 'zhipu', 'groq'].includes(settings.selectedProvider)) {
+      if (!settings.selectedProvider || !providerRegistry.has(settings.selectedProvider)) {
         console.error('Attempted to save invalid selectedProvider:', settings.selectedProvider);
         settings.selectedProvider = defaultSettings.selectedProvider;
       }
 
-      localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+      // With the vault on, keys only ever reach storage encrypted
+      if (keyVault.isEnabled()) {
+        localStorage.setItem(SETTINGS_KEY, JSON.stringify(keyVault.stripSecrets(settings)));
+        if (keyVault.isUnlocked()) {
+          keyVault.seal(settings).catch(error => console.error('Error encrypting API keys:', error));
+        }
+      } else {
+        localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+      }
       console.log('Settings saved successfully');
     } catch (error) {
       console.error('Error saving settings:', error);
@@ -96,7 +100,16 @@ const validModels = {
         modules: book.modules?.map((module: any) => ({
           ...module,
           generatedAt: module.generatedAt ? new Date(module.generatedAt) : undefined,
+          previousVersion: module.previousVersion && {
+            ...module.previousVersion,
+            generatedAt: module.previousVersion.generatedAt ? new Date(module.previousVersion.generatedAt) : undefined,
+          },
         })) || [],
+        flashcards: book.flashcards?.map((card: Flashcard) => ({
+          ...card,
+          dueAt: new Date(card.dueAt),
+          lastReviewedAt: card.lastReviewedAt ? new Date(card.lastReviewedAt) : undefined,
+        })),
       }));
     } catch (error) {
       console.error('Error loading books:', error);
@@ -113,8 +126,78 @@ const validModels = {
     }
   },
 
+  // A job left running by a closed tab goes back to waiting
+  getQueue(): QueueJob[] {
+    try {
+      const stored = localStorage.getItem(QUEUE_KEY);
+      if (!stored) return [];
+
+      const parsed = JSON.parse(stored);
+      return parsed.map((job: QueueJob) => ({
+        ...job,
+        status: job.status === 'running' ? 'queued' : job.status,
+        step: job.status === 'running' ? undefined : job.step,
+        createdAt: new Date(job.createdAt),
+        startedAt: job.startedAt ? new Date(job.startedAt) : undefined,
+        finishedAt: job.finishedAt ? new Date(job.finishedAt) : undefined,
+      }));
+    } catch (error) {
+      console.error('Error loading queue:', error);
+      return [];
+    }
+  },
+
+  saveQueue(queue: QueueJob[]): void {
+    try {
+      localStorage.setItem(QUEUE_KEY, JSON.stringify(queue));
+    } catch (error) {
+      console.error('Error saving queue:', error);
+    }
+  },
+
+  // User overrides of the adapters' list prices, keyed by `provider::model`
+  getModelPrices(): Record<string, ModelPricing> {
+    try {
+      const stored = localStorage.getItem(MODEL_PRICES_KEY);
+      return stored ? JSON.parse(stored) : {};
+    } catch (error) {
+      console.error('Error loading model prices:', error);
+      return {};
+    }
+  },
+
+  saveModelPrices(prices: Record<string, ModelPricing>): void {
+    try {
+      localStorage.setItem(MODEL_PRICES_KEY, JSON.stringify(prices));
+    } catch (error) {
+      console.error('Error saving model prices:', error);
+    }
+  },
+
+  getCustomTemplates(): BookTemplate[] {
+    try {
+      const stored = localStorage.getItem(CUSTOM_TEMPLATES_KEY);
+      return stored ? JSON.parse(stored) : [];
+    } catch (error) {
+      console.error('Error loading book templates:', error);
+      return [];
+    }
+  },
+
+  saveCustomTemplates(templates: BookTemplate[]): void {
+    try {
+      localStorage.setItem(CUSTOM_TEMPLATES_KEY, JSON.stringify(templates));
+    } catch (error) {
+      console.error('Error saving book templates:', error);
+    }
+  },
+
   clearAllData(): void {
     localStorage.removeItem(SETTINGS_KEY);
     localStorage.removeItem(BOOKS_KEY);
+    localStorage.removeItem(MODEL_PRICES_KEY);
+    localStorage.removeItem(QUEUE_KEY);
+    localStorage.removeItem(CUSTOM_TEMPLATES_KEY);
+    keyVault.disable();
   }
 };